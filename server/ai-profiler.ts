@@ -1,31 +1,15 @@
 /**
  * AI-powered User Profiling with Redis Caching
- * Uses Grok (X.AI) to analyze user data and infer profile
+ * Runs prompts down the configured LLM provider chain (see llm-providers.ts)
  */
 
+import { createHash } from 'crypto';
 import { createClient, type RedisClientType } from 'redis';
-import type { ClientInfo, UserProfile } from '../src/types';
-
-// Initialize Grok AI (Primary)
-const GROK_API_KEY = process.env.GROK_API_KEY;
-const GROK_API_URL = 'https://api.x.ai/v1/chat/completions';
-
-// Initialize OpenRouter with MiMo (Fallback)
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
-const MIMO_MODEL = 'xiaomi/mimo-v2-flash:free';
-
-if (GROK_API_KEY) {
-  console.log('Grok AI initialized (primary)');
-} else {
-  console.warn('GROK_API_KEY not set - Grok AI disabled');
-}
-
-if (OPENROUTER_API_KEY) {
-  console.log('OpenRouter MiMo initialized (fallback)');
-} else {
-  console.warn('OPENROUTER_API_KEY not set - MiMo fallback disabled');
-}
+import type { ClientInfo, NetworkVerdict, UserProfile } from '../src/types';
+import { llmProviders, completeWithChain, type LLMProvider } from './llm-providers';
+import { validateProfile, repairProfileFields, type ProfileValidation } from './profile-schema';
+import { completedFields } from './partial-json';
+import { recordAIUsage, isAIBudgetExhausted } from './ai-usage';
 
 // Initialize Redis clients (separate for caching and tracking)
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
@@ -161,11 +145,39 @@ function checkRateLimit(userId: string): boolean {
   return true;
 }
 
+/** Prefix of every cached profile key */
+const PROFILE_KEY_PREFIX = 'yourinfo:profile:';
+
+/** Keys read or deleted per Redis command when purging */
+const PURGE_BATCH_SIZE = 500;
+
+/** Version reported for keys cached before prompts were versioned */
+const UNVERSIONED = 'unversioned';
+
 /**
- * Generate a cache key from fingerprint data
+ * Generate a cache key from the prompt version and fingerprint data
  */
 function getCacheKey(fingerprintId: string, crossBrowserId: string): string {
-  return `yourinfo:profile:${fingerprintId}:${crossBrowserId}`;
+  return `${PROFILE_KEY_PREFIX}${PROMPT_VERSION}:${fingerprintId}:${crossBrowserId}`;
+}
+
+/**
+ * Prompt version a cache key belongs to (older keys were just fingerprintId:crossBrowserId)
+ */
+function versionOfKey(key: string): string {
+  const parts = key.slice(PROFILE_KEY_PREFIX.length).split(':');
+  return parts.length === 3 ? parts[0] : UNVERSIONED;
+}
+
+/**
+ * All cached profile keys
+ */
+async function scanProfileKeys(client: RedisClientType): Promise<string[]> {
+  const keys: string[] = [];
+  for await (const batch of client.scanIterator({ MATCH: `${PROFILE_KEY_PREFIX}*`, COUNT: 500 })) {
+    keys.push(...batch);
+  }
+  return keys;
 }
 
 /**
@@ -203,6 +215,90 @@ async function cacheProfile(cacheKey: string, profile: UserProfile): Promise<voi
   }
 }
 
+/** Cached profiles generated with one prompt version */
+export interface ProfileCacheVersion {
+  version: string;
+  entries: number;
+  current: boolean; // the version new profiles are generated with
+}
+
+/** One cached profile */
+export interface ProfileCacheEntry {
+  key: string;
+  model: string | null; // null for profiles cached before models were recorded
+  aiSource: string | null;
+  ttl: number; // seconds until it expires
+}
+
+/**
+ * Count cached profiles by prompt version (null when Redis is unavailable)
+ */
+export async function listProfileCacheVersions(): Promise<ProfileCacheVersion[] | null> {
+  const client = await getRedis();
+  if (!client) return null;
+
+  const counts = new Map<string, number>();
+  for (const key of await scanProfileKeys(client)) {
+    const version = versionOfKey(key);
+    counts.set(version, (counts.get(version) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([version, entries]) => ({ version, entries, current: version === PROMPT_VERSION }))
+    .sort((a, b) => b.entries - a.entries);
+}
+
+/**
+ * List the cached profiles of one prompt version, up to `limit` (null when Redis is unavailable)
+ */
+export async function listProfileCacheEntries(version: string, limit = 100): Promise<ProfileCacheEntry[] | null> {
+  const client = await getRedis();
+  if (!client) return null;
+
+  const keys = (await scanProfileKeys(client)).filter((key) => versionOfKey(key) === version).slice(0, limit);
+  return Promise.all(keys.map(async (key) => {
+    const [cached, ttl] = await Promise.all([client.get(key), client.ttl(key)]);
+    const profile = parseCacheEntry(cached);
+    return { key, model: profile.model ?? null, aiSource: profile.aiSource ?? null, ttl };
+  }));
+}
+
+/**
+ * A cached profile as stored, or nothing if it no longer parses (still listed so it can be purged)
+ */
+function parseCacheEntry(cached: string | null): Partial<UserProfile> {
+  try {
+    return cached ? JSON.parse(cached) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Delete cached profiles whose prompt version matches, only those written by
+ * `model` when given; returns how many (null when Redis is unavailable)
+ */
+export async function purgeProfileCache(matches: (version: string) => boolean, model?: string): Promise<number | null> {
+  const client = await getRedis();
+  if (!client) return null;
+
+  let keys = (await scanProfileKeys(client)).filter((key) => matches(versionOfKey(key)));
+  if (model !== undefined) {
+    // Read the entries a batch at a time to see which model wrote each
+    const written: string[] = [];
+    for (let i = 0; i < keys.length; i += PURGE_BATCH_SIZE) {
+      const batch = keys.slice(i, i + PURGE_BATCH_SIZE);
+      const values = await client.mGet(batch);
+      written.push(...batch.filter((_, j) => parseCacheEntry(values[j]).model === model));
+    }
+    keys = written;
+  }
+  for (let i = 0; i < keys.length; i += PURGE_BATCH_SIZE) {
+    await client.del(keys.slice(i, i + PURGE_BATCH_SIZE));
+  }
+  console.log(`Purged ${keys.length} cached profiles`);
+  return keys.length;
+}
+
 /** Geo data from server */
 export interface GeoData {
   city?: string;
@@ -212,10 +308,13 @@ export interface GeoData {
   timezone?: string;
 }
 
+/** System message for profile generation */
+const PROFILE_SYSTEM_MESSAGE = 'You are a user profiling AI for an educational privacy demonstration. Analyze browser fingerprint data and infer personal details. Always respond with valid JSON only, no markdown.';
+
 /**
- * Build prompt for Grok AI
+ * Build the profile prompt
  */
-function buildPrompt(clientInfo: Partial<ClientInfo>, geo?: GeoData): string {
+function buildPrompt(clientInfo: Partial<ClientInfo>, geo?: GeoData, network?: NetworkVerdict): string {
   // Get current time info for the user's timezone
   const now = new Date();
   const userTimezone = clientInfo.timezone || geo?.timezone || 'UTC';
@@ -254,7 +353,11 @@ function buildPrompt(clientInfo: Partial<ClientInfo>, geo?: GeoData): string {
     adBlocker: clientInfo.adBlockerDetected,
     incognito: clientInfo.isIncognito,
     globalPrivacyControl: clientInfo.globalPrivacyControl,
-    vpnDetection: clientInfo.vpnDetection,
+    vpnOrProxy: network && {
+      score: network.score,
+      likely: network.likelyVPNOrProxy,
+      evidence: network.evidence.map((e) => e.detail),
+    },
 
     // Extensions
     extensions: clientInfo.extensionsDetected,
@@ -496,11 +599,24 @@ Be conservative and only infer based on strong signals - avoid speculation when
 Respond ONLY with the JSON object, no explanation.`;
 }
 
+/**
+ * Version of the profile prompt. It changes whenever the system message, the
+ * prompt template or the configured models change, so profiles cached from an
+ * older prompt stop being served. Each cached profile also records the model
+ * that actually wrote it, so one model's profiles can be purged on their own.
+ */
+export const PROMPT_VERSION = createHash('sha256')
+  .update(JSON.stringify([PROFILE_SYSTEM_MESSAGE, buildPrompt.toString(), llmProviders.map((p) => p.model)]))
+  .digest('hex')
+  .slice(0, 12);
+
+console.log(`Profile prompt version: ${PROMPT_VERSION}`);
+
 /**
  * Generate a rule-based fallback profile when AI is unavailable
  * Uses deterministic heuristics based on client fingerprint data
  */
-function generateFallbackProfile(clientInfo: Partial<ClientInfo>, geo?: GeoData): UserProfile {
+function generateFallbackProfile(clientInfo: Partial<ClientInfo>, geo?: GeoData, network?: NetworkVerdict): UserProfile {
   // Developer detection
   const developerFonts = ['Fira Code', 'JetBrains Mono', 'Source Code Pro', 'Consolas', 'Monaco', 'Menlo', 'Cascadia Code', 'Hack'];
   const developerExtensions = ['react devtools', 'vue devtools', 'redux devtools', 'angular devtools', 'vscode'];
@@ -540,7 +656,7 @@ function generateFallbackProfile(clientInfo: Partial<ClientInfo>, geo?: GeoData)
   const hasDNT = clientInfo.doNotTrack ?? false;
   const hasGPC = clientInfo.globalPrivacyControl ?? false;
   const isIncognito = clientInfo.isIncognito ?? false;
-  const hasVPN = clientInfo.vpnDetection?.likelyUsingVPN ?? false;
+  const hasVPN = network?.likelyVPNOrProxy ?? false;
   const privacyScore = Math.min(100, (hasAdBlocker ? 25 : 0) + (hasDNT ? 15 : 0) + (hasGPC ? 20 : 0) + (isIncognito ? 25 : 0) + (hasVPN ? 25 : 0));
   const privacyConscious = privacyScore >= 40;
 
@@ -640,9 +756,9 @@ function generateFallbackProfile(clientInfo: Partial<ClientInfo>, geo?: GeoData)
 }
 
 /**
- * Parse AI response into UserProfile
+ * Parse AI response and repair it against the UserProfile schema
  */
-function parseAIResponse(response: string): UserProfile | null {
+function parseAIResponse(response: string): ProfileValidation | null {
   try {
     // Clean up response (remove markdown code blocks if present)
     let cleaned = response.trim();
@@ -663,105 +779,69 @@ function parseAIResponse(response: string): UserProfile | null {
     // Remove trailing commas before } or ] (common JSON error)
     cleaned = cleaned.replace(/,\s*([\}\]])/g, '$1');
 
-    const parsed = JSON.parse(cleaned);
-
-    // Validate required fields
-    if (typeof parsed.likelyDeveloper !== 'boolean' ||
-        typeof parsed.developerScore !== 'number') {
-      throw new Error('Invalid AI response structure');
+    const validation = validateProfile(JSON.parse(cleaned));
+    if (!validation) {
+      throw new Error('AI response is not a JSON object');
     }
-
-    return {
-      likelyDeveloper: parsed.likelyDeveloper,
-      developerScore: Math.min(100, Math.max(0, parsed.developerScore)),
-      likelyGamer: parsed.likelyGamer ?? false,
-      gamerScore: Math.min(100, Math.max(0, parsed.gamerScore ?? 0)),
-      likelyDesigner: parsed.likelyDesigner ?? false,
-      designerScore: Math.min(100, Math.max(0, parsed.designerScore ?? 0)),
-      likelyPowerUser: parsed.likelyPowerUser ?? false,
-      powerUserScore: Math.min(100, Math.max(0, parsed.powerUserScore ?? 0)),
-      privacyConscious: parsed.privacyConscious ?? false,
-      privacyScore: Math.min(100, Math.max(0, parsed.privacyScore ?? 0)),
-      deviceTier: parsed.deviceTier ?? 'mid-range',
-      estimatedDeviceValue: parsed.estimatedDeviceValue ?? 'Unknown',
-      deviceAge: parsed.deviceAge ?? 'recent',
-      humanScore: Math.min(100, Math.max(0, parsed.humanScore ?? 100)),
-      botIndicators: parsed.botIndicators ?? [],
-      likelyTechSavvy: parsed.likelyTechSavvy ?? false,
-      likelyMobile: parsed.likelyMobile ?? false,
-      likelyWorkDevice: parsed.likelyWorkDevice ?? false,
-      likelyCountry: parsed.likelyCountry ?? 'Unknown',
-      inferredInterests: parsed.inferredInterests ?? [],
-      fraudRiskScore: Math.min(100, Math.max(0, parsed.fraudRiskScore ?? 0)),
-      fraudIndicators: parsed.fraudIndicators ?? [],
-      // Extended fields from AI
-      ...(parsed.personalityTraits && { personalityTraits: parsed.personalityTraits }),
-      ...(parsed.incomeLevel && { incomeLevel: parsed.incomeLevel }),
-      ...(parsed.ageRange && { ageRange: parsed.ageRange }),
-      ...(parsed.occupation && { occupation: parsed.occupation }),
-      ...(parsed.developerReason && { developerReason: parsed.developerReason }),
-      ...(parsed.gamerReason && { gamerReason: parsed.gamerReason }),
-      ...(parsed.designerReason && { designerReason: parsed.designerReason }),
-      ...(parsed.powerUserReason && { powerUserReason: parsed.powerUserReason }),
-      ...(parsed.privacyReason && { privacyReason: parsed.privacyReason }),
-
-      // Creepy personal inferences
-      ...(parsed.relationshipStatus && { relationshipStatus: parsed.relationshipStatus }),
-      ...(parsed.relationshipReason && { relationshipReason: parsed.relationshipReason }),
-      ...(parsed.educationLevel && { educationLevel: parsed.educationLevel }),
-      ...(parsed.educationReason && { educationReason: parsed.educationReason }),
-      ...(parsed.politicalLeaning && { politicalLeaning: parsed.politicalLeaning }),
-      ...(parsed.politicalReason && { politicalReason: parsed.politicalReason }),
-      ...(parsed.lifeSituation && { lifeSituation: parsed.lifeSituation }),
-      ...(parsed.financialHealth && { financialHealth: parsed.financialHealth }),
-      ...(parsed.financialReason && { financialReason: parsed.financialReason }),
-      ...(parsed.workStyle && { workStyle: parsed.workStyle }),
-      ...(parsed.workReason && { workReason: parsed.workReason }),
-      ...(parsed.sleepSchedule && { sleepSchedule: parsed.sleepSchedule }),
-      ...(parsed.sleepReason && { sleepReason: parsed.sleepReason }),
-      ...(parsed.stressLevel && { stressLevel: parsed.stressLevel }),
-      ...(parsed.stressReason && { stressReason: parsed.stressReason }),
-      ...(parsed.socialLife && { socialLife: parsed.socialLife }),
-      ...(parsed.socialReason && { socialReason: parsed.socialReason }),
-      ...(parsed.likelyParent !== undefined && { likelyParent: parsed.likelyParent }),
-      ...(parsed.parentReason && { parentReason: parsed.parentReason }),
-      ...(parsed.petOwner !== undefined && { petOwner: parsed.petOwner }),
-      ...(parsed.petType && { petType: parsed.petType }),
-      ...(parsed.homeowner !== undefined && { homeowner: parsed.homeowner }),
-      ...(parsed.homeReason && { homeReason: parsed.homeReason }),
-      ...(parsed.carOwner !== undefined && { carOwner: parsed.carOwner }),
-      ...(parsed.carType && { carType: parsed.carType }),
-      ...(parsed.healthConscious !== undefined && { healthConscious: parsed.healthConscious }),
-      ...(parsed.healthReason && { healthReason: parsed.healthReason }),
-      ...(parsed.dietaryPreference && { dietaryPreference: parsed.dietaryPreference }),
-      ...(parsed.coffeeOrTea && { coffeeOrTea: parsed.coffeeOrTea }),
-      ...(parsed.drinksAlcohol !== undefined && { drinksAlcohol: parsed.drinksAlcohol }),
-      ...(parsed.smokes !== undefined && { smokes: parsed.smokes }),
-      ...(parsed.fitnessLevel && { fitnessLevel: parsed.fitnessLevel }),
-      ...(parsed.fitnessReason && { fitnessReason: parsed.fitnessReason }),
-      ...(parsed.lifeEvents && { lifeEvents: parsed.lifeEvents }),
-      ...(parsed.shoppingHabits && { shoppingHabits: parsed.shoppingHabits }),
-      ...(parsed.shoppingReason && { shoppingReason: parsed.shoppingReason }),
-      ...(parsed.brandPreference && { brandPreference: parsed.brandPreference }),
-      ...(parsed.streamingServices && { streamingServices: parsed.streamingServices }),
-      ...(parsed.musicTaste && { musicTaste: parsed.musicTaste }),
-      ...(parsed.travelFrequency && { travelFrequency: parsed.travelFrequency }),
-      ...(parsed.travelReason && { travelReason: parsed.travelReason }),
-      ...(parsed.creepyInsights && { creepyInsights: parsed.creepyInsights }),
-    } as UserProfile;
+    return validation;
   } catch (err) {
     console.error('Failed to parse AI response:', err);
     return null;
   }
 }
 
+/** Repairs listed back to the model when asking it to try again */
+const MAX_REPORTED_REPAIRS = 20;
+
+/**
+ * The original prompt plus what was wrong with the last answer
+ */
+function buildRetryPrompt(prompt: string, repairs: string[]): string {
+  const problems = repairs.slice(0, MAX_REPORTED_REPAIRS).map((r) => `- ${r}`).join('\n');
+  return `${prompt}
+
+Your previous answer did not match the required JSON format:
+${problems}
+
+Answer again with the complete JSON object, using exactly the field names and allowed values given above.`;
+}
+
+/**
+ * Turn a streaming answer into partial profiles, one each time another field completes
+ */
+function streamPartialProfiles(onPartial: (profile: Partial<UserProfile>) => void) {
+  let current: LLMProvider | null = null;
+  let sent = 0;
+
+  return (text: string, provider: LLMProvider) => {
+    // A provider that failed over starts the profile from scratch
+    if (provider !== current) {
+      current = provider;
+      sent = 0;
+    }
+    const fields = completedFields(text);
+    const count = Object.keys(fields).length;
+    if (count > sent) {
+      sent = count;
+      onPartial(repairProfileFields(fields));
+    }
+  };
+}
+
 /**
- * Generate AI profile for client info
+ * Generate AI profile for client info (with the server's network verdict when known).
+ * With onPartial the answer is streamed and onPartial gets the profile so far as it fills in.
  */
-export async function generateAIProfile(clientInfo: Partial<ClientInfo>, geo?: GeoData): Promise<{
+export async function generateAIProfile(
+  clientInfo: Partial<ClientInfo>,
+  geo?: GeoData,
+  network?: NetworkVerdict,
+  onPartial?: (profile: Partial<UserProfile>) => void
+): Promise<{
   profile: UserProfile | null;
   source: 'ai' | 'cache' | 'fallback';
   error?: string;
+  repairs?: string[]; // fixes applied to the model's answer
 }> {
   const fingerprintId = clientInfo.fingerprintId || 'unknown';
   const crossBrowserId = clientInfo.crossBrowserId || 'unknown';
@@ -774,176 +854,73 @@ export async function generateAIProfile(clientInfo: Partial<ClientInfo>, geo?: G
   }
 
   // If no AI available at all, use rule-based fallback
-  if (!GROK_API_KEY && !OPENROUTER_API_KEY) {
+  if (llmProviders.length === 0) {
     console.log('No AI configured - using rule-based fallback');
-    const fallbackProfile = generateFallbackProfile(clientInfo, geo);
+    const fallbackProfile = generateFallbackProfile(clientInfo, geo, network);
     return { profile: fallbackProfile, source: 'fallback', error: 'No AI configured' };
   }
 
+  // Today's AI budget is spent - fall back until it resets
+  if (await isAIBudgetExhausted()) {
+    const fallbackProfile = generateFallbackProfile(clientInfo, geo, network);
+    return { profile: fallbackProfile, source: 'fallback', error: 'AI budget exhausted' };
+  }
+
   // Check rate limit (per user)
   const userId = `${fingerprintId}:${crossBrowserId}`;
   if (!checkRateLimit(userId)) {
     console.log(`Rate limited user ${userId} - using rule-based fallback`);
-    const fallbackProfile = generateFallbackProfile(clientInfo, geo);
+    const fallbackProfile = generateFallbackProfile(clientInfo, geo, network);
     return { profile: fallbackProfile, source: 'fallback', error: 'Rate limited' };
   }
 
-  const prompt = buildPrompt(clientInfo, geo);
-  const systemMessage = 'You are a user profiling AI for an educational privacy demonstration. Analyze browser fingerprint data and infer personal details. Always respond with valid JSON only, no markdown.';
-
-  // Helper function to call MiMo via OpenRouter
-  async function tryMiMo(): Promise<{ profile: UserProfile | null; error?: string }> {
-    if (!OPENROUTER_API_KEY) {
-      return { profile: null, error: 'OpenRouter not configured' };
-    }
-
-    try {
-      console.log('Attempting MiMo fallback via OpenRouter...');
-      const mimoResponse = await fetch(OPENROUTER_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-          'HTTP-Referer': 'https://yourinfo.hsingh.app',
-          'X-Title': 'YourInfo Privacy Demo',
-        },
-        body: JSON.stringify({
-          model: MIMO_MODEL,
-          messages: [
-            { role: 'system', content: systemMessage },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 4096,
-          temperature: 0.5,
-          reasoning: { enabled: false }, // Disable reasoning for faster responses
-        }),
-      });
-
-      if (!mimoResponse.ok) {
-        const errorText = await mimoResponse.text();
-        console.error('MiMo API error:', mimoResponse.status, errorText);
-        return { profile: null, error: `MiMo API error: ${mimoResponse.status}` };
-      }
-
-      const mimoData = await mimoResponse.json();
-      const mimoText = mimoData.choices?.[0]?.message?.content;
-
-      if (!mimoText) {
-        return { profile: null, error: 'Empty MiMo response' };
-      }
-
-      const mimoProfile = parseAIResponse(mimoText);
-      if (mimoProfile) {
-        console.log('MiMo profile generated successfully');
-        (mimoProfile as UserProfile & { aiGenerated: boolean; aiSource: string }).aiGenerated = true;
-        (mimoProfile as UserProfile & { aiSource: string }).aiSource = 'mimo';
-        return { profile: mimoProfile };
-      }
-
-      return { profile: null, error: 'Failed to parse MiMo response' };
-    } catch (err) {
-      console.error('MiMo error:', err);
-      return { profile: null, error: String(err) };
+  const request = {
+    system: PROFILE_SYSTEM_MESSAGE,
+    prompt: buildPrompt(clientInfo, geo, network),
+    temperature: 0.5,
+  };
+  const { result, provider, errors, calls } = await completeWithChain(llmProviders, request, parseAIResponse, onPartial && streamPartialProfiles(onPartial));
+  await recordAIUsage(calls);
+  let validation = result;
+
+  // Too broken to repair - give the same model one chance to fix it
+  if (validation && provider && !validation.usable) {
+    console.warn(`AI profile from ${provider.name} failed validation (${validation.repairs.length} problems) - retrying`);
+    const retry = await completeWithChain(
+      [provider],
+      { ...request, prompt: buildRetryPrompt(request.prompt, validation.repairs) },
+      parseAIResponse,
+      onPartial && streamPartialProfiles(onPartial)
+    );
+    await recordAIUsage(retry.calls);
+    validation = retry.result;
+    if (!validation?.usable) {
+      errors.push(`${provider.name}: response failed validation`, ...retry.errors);
     }
   }
 
-  // If Grok is not configured, go straight to MiMo
-  if (!GROK_API_KEY) {
-    console.log('Grok not configured, using MiMo directly...');
-    const mimoResult = await tryMiMo();
-    if (mimoResult.profile) {
-      await cacheProfile(cacheKey, mimoResult.profile);
-      return { profile: mimoResult.profile, source: 'ai' as const };
-    }
-    const fallbackProfile = generateFallbackProfile(clientInfo, geo);
-    return { profile: fallbackProfile, source: 'fallback', error: mimoResult.error };
+  if (!validation?.usable || !provider) {
+    // Every provider failed - use rule-based fallback
+    const fallbackProfile = generateFallbackProfile(clientInfo, geo, network);
+    return { profile: fallbackProfile, source: 'fallback', error: errors.join(', ') };
   }
 
-  // Try Grok first (primary AI)
-  try {
-    const response = await fetch(GROK_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${GROK_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'grok-4-1-fast-reasoning',
-        messages: [
-          { role: 'system', content: systemMessage },
-          { role: 'user', content: prompt }
-        ],
-        stream: false,
-        temperature: 0.5,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Grok API error:', response.status, errorText);
-
-      // Try MiMo fallback before rule-based
-      const mimoResult = await tryMiMo();
-      if (mimoResult.profile) {
-        await cacheProfile(cacheKey, mimoResult.profile);
-        return { profile: mimoResult.profile, source: 'ai' as const };
-      }
-
-      // Use rule-based fallback if MiMo also fails
-      const fallbackProfile = generateFallbackProfile(clientInfo, geo);
-      return { profile: fallbackProfile, source: 'fallback', error: `Grok: ${response.status}, MiMo: ${mimoResult.error}` };
-    }
-
-    const data = await response.json();
-    const text = data.choices?.[0]?.message?.content;
-
-    if (!text) {
-      // Try MiMo fallback
-      const mimoResult = await tryMiMo();
-      if (mimoResult.profile) {
-        await cacheProfile(cacheKey, mimoResult.profile);
-        return { profile: mimoResult.profile, source: 'ai' as const };
-      }
-
-      const fallbackProfile = generateFallbackProfile(clientInfo, geo);
-      return { profile: fallbackProfile, source: 'fallback', error: 'Empty Grok response' };
-    }
-
-    const profile = parseAIResponse(text);
-    if (!profile) {
-      // Try MiMo fallback
-      const mimoResult = await tryMiMo();
-      if (mimoResult.profile) {
-        await cacheProfile(cacheKey, mimoResult.profile);
-        return { profile: mimoResult.profile, source: 'ai' as const };
-      }
-
-      const fallbackProfile = generateFallbackProfile(clientInfo, geo);
-      return { profile: fallbackProfile, source: 'fallback', error: 'Failed to parse Grok response' };
-    }
-
-    // Mark as AI-generated (Grok)
-    (profile as UserProfile & { aiGenerated: boolean; aiSource: string }).aiGenerated = true;
-    (profile as UserProfile & { aiSource: string }).aiSource = 'grok';
-
-    // Cache the result
-    await cacheProfile(cacheKey, profile);
+  const { profile, repairs } = validation;
+  if (repairs.length > 0) {
+    console.warn(`AI profile from ${provider.name} repaired:`, repairs);
+  }
 
-    return { profile, source: 'ai' };
-  } catch (err) {
-    console.error('Grok AI profiling error:', err);
+  // Mark as AI-generated, and by which provider, model and prompt
+  console.log(`AI profile generated by ${provider.name}`);
+  profile.aiGenerated = true;
+  profile.aiSource = provider.name;
+  profile.model = provider.model;
+  profile.promptVersion = PROMPT_VERSION;
 
-    // Try MiMo fallback before rule-based
-    const mimoResult = await tryMiMo();
-    if (mimoResult.profile) {
-      await cacheProfile(cacheKey, mimoResult.profile);
-      return { profile: mimoResult.profile, source: 'ai' as const };
-    }
+  // Cache the result
+  await cacheProfile(cacheKey, profile);
 
-    // Use rule-based fallback on any exception
-    const fallbackProfile = generateFallbackProfile(clientInfo, geo);
-    return { profile: fallbackProfile, source: 'fallback', error: `Grok: ${String(err)}, MiMo: ${mimoResult.error}` };
-  }
+  return { profile, source: 'ai', repairs };
 }
 
 /**
@@ -1034,7 +1011,7 @@ export async function getTotalUniqueVisitors(): Promise<number> {
 
 /**
  * AI-powered Ad Auction Generation
- * Uses Grok/MiMo to generate personalized bids based on user profile
+ * Uses the same LLM provider chain to generate personalized bids based on user profile
  */
 
 export interface AuctionBid {
@@ -1055,7 +1032,7 @@ export interface AuctionValueFactor {
 export interface AIAuctionResult {
   bids: AuctionBid[];
   valueFactors: AuctionValueFactor[];
-  source: 'grok' | 'mimo' | 'fallback';
+  source: string; // name of the LLM provider that generated the bids, or 'fallback'
 }
 
 function buildAuctionPrompt(profileSummary: string, country: string, countryCode: string): string {
@@ -1140,7 +1117,7 @@ function parseAuctionResponse(text: string): AIAuctionResult | null {
     return {
       bids: parsed.bids,
       valueFactors: parsed.valueFactors || [],
-      source: 'grok',
+      source: 'fallback', // replaced with the provider's name by the caller
     };
   } catch (err) {
     console.error('Failed to parse auction response:', err);
@@ -1194,107 +1171,26 @@ export async function generateAIAuction(
     return cached;
   }
 
-  const prompt = buildAuctionPrompt(profileSummary, country, countryCode);
-  const systemMessage = 'You are an ad auction simulator. Generate realistic RTB bids based on user profiles. Always respond with valid JSON only, no markdown.';
-
-  // Helper to call MiMo
-  async function tryMiMo(): Promise<AIAuctionResult | null> {
-    if (!OPENROUTER_API_KEY) return null;
-
-    try {
-      console.log('AI Auction: Trying MiMo...');
-      const response = await fetch(OPENROUTER_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-          'HTTP-Referer': 'https://yourinfo.hsingh.app',
-          'X-Title': 'YourInfo Privacy Demo',
-        },
-        body: JSON.stringify({
-          model: MIMO_MODEL,
-          messages: [
-            { role: 'system', content: systemMessage },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 4096,
-          temperature: 0.7,
-        }),
-      });
-
-      if (!response.ok) {
-        console.error('MiMo auction error:', response.status);
-        return null;
-      }
-
-      const data = await response.json();
-      const text = data.choices?.[0]?.message?.content;
-      if (!text) return null;
-
-      const result = parseAuctionResponse(text);
-      if (result) {
-        result.source = 'mimo';
-        return result;
-      }
-    } catch (err) {
-      console.error('MiMo auction error:', err);
-    }
-    return null;
+  const noBids: AIAuctionResult = { bids: [], valueFactors: [], source: 'fallback' };
+  if (await isAIBudgetExhausted()) {
+    return noBids;
   }
 
-  // Try Grok first
-  if (GROK_API_KEY) {
-    try {
-      console.log('AI Auction: Trying Grok...');
-      const response = await fetch(GROK_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${GROK_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: 'grok-4-1-fast-reasoning',
-          messages: [
-            { role: 'system', content: systemMessage },
-            { role: 'user', content: prompt }
-          ],
-          stream: false,
-          temperature: 0.7,
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const text = data.choices?.[0]?.message?.content;
-        if (text) {
-          const result = parseAuctionResponse(text);
-          if (result) {
-            console.log('AI Auction: Grok success');
-            result.source = 'grok';
-            await setAuctionCache(cacheKey, result);
-            return result;
-          }
-        }
-      }
-      console.error('Grok auction failed, trying MiMo...');
-    } catch (err) {
-      console.error('Grok auction error:', err);
-    }
-  }
-
-  // Try MiMo fallback
-  const mimoResult = await tryMiMo();
-  if (mimoResult) {
-    console.log('AI Auction: MiMo success');
-    await setAuctionCache(cacheKey, mimoResult);
-    return mimoResult;
+  const { result, provider, calls } = await completeWithChain(llmProviders, {
+    system: 'You are an ad auction simulator. Generate realistic RTB bids based on user profiles. Always respond with valid JSON only, no markdown.',
+    prompt: buildAuctionPrompt(profileSummary, country, countryCode),
+    temperature: 0.7,
+  }, parseAuctionResponse);
+  await recordAIUsage(calls);
+
+  if (result && provider) {
+    console.log(`AI Auction: generated by ${provider.name}`);
+    result.source = provider.name;
+    await setAuctionCache(cacheKey, result);
+    return result;
   }
 
   // Final fallback - return empty result (frontend will use calculated fallback)
   console.log('AI Auction: All AI failed, returning fallback signal');
-  return {
-    bids: [],
-    valueFactors: [],
-    source: 'fallback',
-  };
+  return noBids;
 }
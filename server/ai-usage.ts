@@ -0,0 +1,219 @@
+/**
+ * AI usage accounting and daily budget
+ * Every provider call adds its tokens, latency and estimated cost to counters
+ * for the current UTC day - in Redis when connected so all instances share
+ * one budget, in memory otherwise (an instance that loses Redis counts from
+ * zero). Once today's spend reaches AI_DAILY_BUDGET_USD, AI features stay off
+ * until the next day. Calls already in flight still finish, so the budget can
+ * be overshot by a few calls.
+ */
+
+import { getSharedClient } from './shared-visitors';
+import type { LLMCall } from './llm-providers';
+import type { AIBudgetStatus, AIProviderUsage, AIUsageReport } from '../src/types';
+
+/** Daily budget in USD (0 = unlimited) */
+const DAILY_BUDGET_USD = parseFloat(process.env.AI_DAILY_BUDGET_USD || '0');
+
+const KEY_PREFIX = 'yourinfo:ai-usage:';
+
+/** How long a day's counters are kept */
+const USAGE_TTL_SECONDS = 35 * 24 * 60 * 60;
+
+/** How often spend by other instances (and the day rolling over) is picked up */
+const BUDGET_REFRESH_MS = 60 * 1000;
+
+/** Counters kept per provider; cost is in micro-dollars so it can be incremented as an integer */
+type Counter = 'calls' | 'failures' | 'promptTokens' | 'completionTokens' | 'latencyMs' | 'costMicros';
+
+/** Local counters: day -> "provider:counter" -> value */
+const localUsage = new Map<string, Map<string, number>>();
+
+let budgetStatus: AIBudgetStatus = {
+  exhausted: false,
+  budgetUSD: DAILY_BUDGET_USD > 0 ? DAILY_BUDGET_USD : null,
+  spentUSD: 0,
+  resetsAt: nextDayStart(),
+};
+
+/** Whether today's shared spend has been read from Redis since this instance started */
+let sharedSpendRead = false;
+
+type BudgetListener = (status: AIBudgetStatus) => void;
+const budgetListeners: BudgetListener[] = [];
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function nextDayStart(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+}
+
+/** Increments a batch of calls adds, by "provider:counter" */
+function incrementsFor(calls: LLMCall[]): Map<string, number> {
+  const increments = new Map<string, number>();
+  const add = (provider: string, counter: Counter, value: number) => {
+    const field = `${provider}:${counter}`;
+    increments.set(field, (increments.get(field) || 0) + value);
+  };
+
+  for (const call of calls) {
+    add(call.provider, 'calls', 1);
+    add(call.provider, 'failures', call.ok ? 0 : 1);
+    add(call.provider, 'promptTokens', call.usage?.promptTokens ?? 0);
+    add(call.provider, 'completionTokens', call.usage?.completionTokens ?? 0);
+    add(call.provider, 'latencyMs', call.latencyMs);
+    add(call.provider, 'costMicros', Math.round(call.costUSD * 1_000_000));
+  }
+  return increments;
+}
+
+/**
+ * Today's raw counters, from Redis or the local fallback
+ */
+async function readCounters(): Promise<Map<string, number>> {
+  const client = getSharedClient();
+  if (client) {
+    try {
+      const fields = await client.hGetAll(KEY_PREFIX + today());
+      sharedSpendRead = true;
+      return new Map(Object.entries(fields).map(([field, value]) => [field, Number(value)]));
+    } catch (err) {
+      console.error('Reading AI usage from Redis failed, using local counters:', err);
+    }
+  }
+  return new Map(localUsage.get(today()));
+}
+
+/**
+ * Per-provider usage from raw counters
+ */
+function summarize(counters: Map<string, number>): Record<string, AIProviderUsage> {
+  const raw: Record<string, Record<Counter, number>> = {};
+  for (const [field, value] of counters) {
+    const split = field.lastIndexOf(':');
+    const provider = field.slice(0, split);
+    raw[provider] ??= { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0, costMicros: 0 };
+    raw[provider][field.slice(split + 1) as Counter] = value;
+  }
+
+  const providers: Record<string, AIProviderUsage> = {};
+  for (const [provider, c] of Object.entries(raw)) {
+    providers[provider] = {
+      calls: c.calls,
+      failures: c.failures,
+      promptTokens: c.promptTokens,
+      completionTokens: c.completionTokens,
+      avgLatencyMs: c.calls > 0 ? Math.round(c.latencyMs / c.calls) : 0,
+      costUSD: c.costMicros / 1_000_000,
+    };
+  }
+  return providers;
+}
+
+/**
+ * Update the budget state from today's usage and tell listeners if it flipped
+ */
+function applyUsage(providers: Record<string, AIProviderUsage>): AIBudgetStatus {
+  const spentUSD = Object.values(providers).reduce((sum, p) => sum + p.costUSD, 0);
+  const previous = budgetStatus;
+
+  budgetStatus = {
+    exhausted: DAILY_BUDGET_USD > 0 && spentUSD >= DAILY_BUDGET_USD,
+    budgetUSD: DAILY_BUDGET_USD > 0 ? DAILY_BUDGET_USD : null,
+    spentUSD,
+    resetsAt: nextDayStart(),
+  };
+
+  if (budgetStatus.exhausted !== previous.exhausted) {
+    console.log(budgetStatus.exhausted
+      ? `AI budget exhausted ($${spentUSD.toFixed(4)} of $${DAILY_BUDGET_USD}) - AI features off until ${new Date(budgetStatus.resetsAt).toISOString()}`
+      : 'AI budget available again');
+    for (const listener of budgetListeners) listener(budgetStatus);
+  }
+  return budgetStatus;
+}
+
+/**
+ * Re-read today's spend (other instances add to it too)
+ */
+async function refreshBudget(): Promise<AIBudgetStatus> {
+  return applyUsage(summarize(await readCounters()));
+}
+
+// Pick up what was already spent today, then other instances' spend and the day rolling over
+refreshBudget().catch((err) => console.error('AI budget refresh failed:', err));
+setInterval(() => {
+  refreshBudget().catch((err) => console.error('AI budget refresh failed:', err));
+}, BUDGET_REFRESH_MS);
+
+/**
+ * Add provider calls to today's usage
+ */
+export async function recordAIUsage(calls: LLMCall[]): Promise<void> {
+  if (calls.length === 0) return;
+  const increments = incrementsFor(calls);
+  const key = KEY_PREFIX + today();
+
+  let recorded = false;
+  const client = getSharedClient();
+  if (client) {
+    try {
+      const multi = client.multi();
+      for (const [field, value] of increments) {
+        if (value !== 0) multi.hIncrBy(key, field, value);
+      }
+      multi.expire(key, USAGE_TTL_SECONDS);
+      await multi.exec();
+      recorded = true;
+    } catch (err) {
+      console.error('Recording AI usage in Redis failed, using local counters:', err);
+    }
+  }
+
+  if (!recorded) {
+    const counters = localUsage.get(today()) ?? new Map<string, number>();
+    for (const [field, value] of increments) {
+      counters.set(field, (counters.get(field) || 0) + value);
+    }
+    // Only today is ever read locally
+    localUsage.clear();
+    localUsage.set(today(), counters);
+  }
+
+  await refreshBudget();
+}
+
+/**
+ * Whether today's budget is used up (as of the last recorded call or refresh).
+ * Until Redis has been read, this instance's own counters may be far behind
+ * the shared ones, so it reads them first.
+ */
+export async function isAIBudgetExhausted(): Promise<boolean> {
+  if (!sharedSpendRead) await refreshBudget();
+  return budgetStatus.exhausted && Date.now() < budgetStatus.resetsAt;
+}
+
+/**
+ * Current budget state
+ */
+export function getAIBudgetStatus(): AIBudgetStatus {
+  return budgetStatus;
+}
+
+/**
+ * Register a callback for when the budget runs out or becomes available again
+ */
+export function onAIBudgetChange(listener: BudgetListener): void {
+  budgetListeners.push(listener);
+}
+
+/**
+ * Today's usage by provider, with the budget state
+ */
+export async function getAIUsageReport(): Promise<AIUsageReport> {
+  const providers = summarize(await readCounters());
+  return { day: today(), budget: applyUsage(providers), providers };
+}
@@ -0,0 +1,121 @@
+/**
+ * What kind of network an ASN is
+ * Known hosting, mobile and education networks by ASN, with organization
+ * name patterns as a fallback. Operators can add hosting ASNs without a
+ * code change in data/hosting-asns.txt (one ASN per line, # for comments).
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { ConnectionKind } from '../src/types';
+
+/** Extra hosting ASNs, merged with the built-in list if present */
+const HOSTING_ASN_FILE = join(import.meta.dir, '../data/hosting-asns.txt');
+
+/** Cloud, datacenter and hosting providers (traffic from these is rarely a person at home) */
+const HOSTING_ASNS = new Set([
+  16509, 14618, 8987, // Amazon
+  15169, 396982, 19527, // Google
+  8075, 8068, // Microsoft
+  14061, 62567, 393406, 394362, // DigitalOcean
+  16276, // OVH
+  24940, 213230, // Hetzner
+  63949, // Linode (Akamai)
+  20473, // Vultr (Choopa)
+  13335, // Cloudflare
+  31898, // Oracle Cloud
+  45102, 37963, // Alibaba
+  132203, 45090, // Tencent
+  12876, // Scaleway
+  51167, // Contabo
+  60781, 16265, 30633, 28753, // Leaseweb
+  9009, // M247
+  60068, 212238, // Datacamp (CDN77)
+  199524, // G-Core Labs
+  8560, // IONOS
+  47583, // Hostinger
+  54113, // Fastly
+  21859, // Zenlayer
+  40676, // Psychz
+  8100, // QuadraNet
+  36352, // ColoCrossing
+  46606, // Unified Layer
+  26496, 398101, // GoDaddy
+  3223, // Voxility
+  62240, // Clouvider
+  197540, // netcup
+  49981, // WorldStream
+  32097, // WholeSale Internet
+]);
+
+/** Mobile carriers' cellular networks */
+const MOBILE_ASNS = new Set([
+  21928, // T-Mobile US
+  6167, 22394, // Verizon Wireless
+  20057, // AT&T Mobility
+  3209, // Vodafone Germany
+  12430, // Vodafone Spain
+  25135, // Vodafone UK
+  12576, // EE
+  206067, // Three UK
+  16135, // Turkcell
+  45609, // Bharti Airtel
+  55836, // Reliance Jio
+  9808, 24445, // China Mobile
+  26599, // TIM Brasil
+  28573, // Claro Brasil
+]);
+
+/** National research and education networks */
+const EDUCATION_ASNS = new Set([
+  11537, // Internet2
+  2152, // CENIC
+  786, // Jisc (JANET)
+  680, // DFN
+  1103, // SURF
+  2200, // RENATER
+  137, // GARR
+  766, // RedIRIS
+  20965, // GEANT
+  7575, // AARNet
+  2907, // SINET
+  4538, // CERNET
+  6509, // CANARIE
+]);
+
+/** Organization name patterns for ASNs not in the lists, checked in order */
+const NAME_PATTERNS: Array<[RegExp, ConnectionKind]> = [
+  [/universit|college|school|academ|institute of technology|education|research (and education )?network/i, 'education'],
+  [/mobile|wireless|cellular|\blte\b|\b5g\b/i, 'mobile'],
+  [/hosting|cloud|data ?cent(er|re)|\bservers?\b|\bvps\b|colocation|dedicated/i, 'hosting'],
+];
+
+function loadExtraHostingASNs(): void {
+  if (!existsSync(HOSTING_ASN_FILE)) return;
+  try {
+    let added = 0;
+    for (const line of readFileSync(HOSTING_ASN_FILE, 'utf8').split('\n')) {
+      const asn = parseInt(line.split('#')[0].trim().replace(/^AS/i, ''), 10);
+      if (Number.isInteger(asn) && asn > 0) {
+        HOSTING_ASNS.add(asn);
+        added++;
+      }
+    }
+    console.log(`Loaded ${added} extra hosting ASNs`);
+  } catch (error) {
+    console.error('Failed to load hosting ASN list:', error);
+  }
+}
+
+loadExtraHostingASNs();
+
+/**
+ * Classify a network by ASN, falling back to its organization name.
+ * Anything that doesn't look like hosting, mobile or education is residential.
+ */
+export function classifyConnection(asn: number, asnOrg: string): ConnectionKind {
+  if (HOSTING_ASNS.has(asn)) return 'hosting';
+  if (MOBILE_ASNS.has(asn)) return 'mobile';
+  if (EDUCATION_ASNS.has(asn)) return 'education';
+  return NAME_PATTERNS.find(([pattern]) => pattern.test(asnOrg))?.[1] ?? 'residential';
+}
@@ -0,0 +1,135 @@
+/**
+ * Collector health aggregation
+ * Collects per-probe timing and failure telemetry from clients, grouped by
+ * browser family, so slow or broken fingerprinting probes stand out
+ */
+
+import type {
+  CollectorTelemetry,
+  CollectorStatus,
+  CollectorHealth,
+  CollectorHealthReport,
+} from '../src/types';
+import { COLLECTOR_IDS } from '../src/utils/collectors';
+import { parseBrowserInfo } from '../src/utils/browserInfo';
+
+/** Recent error messages kept per collector */
+const MAX_RECENT_ERRORS = 5;
+
+/** Max length of a stored error message */
+const MAX_ERROR_LENGTH = 200;
+
+const STATUSES: CollectorStatus[] = ['ok', 'timeout', 'error', 'unsupported'];
+
+const KNOWN_COLLECTORS = new Set<string>(COLLECTOR_IDS);
+
+interface CollectorStats {
+  runs: number;
+  statuses: Record<CollectorStatus, number>;
+  totalDurationMs: number;
+  maxDurationMs: number;
+  timeoutMs: number;
+  recentErrors: string[];
+}
+
+interface BrowserStats {
+  samples: number;
+  collectors: Map<string, CollectorStats>;
+}
+
+/** Browser family -> per-collector stats */
+const browsers = new Map<string, BrowserStats>();
+
+function createStats(timeoutMs: number): CollectorStats {
+  return {
+    runs: 0,
+    statuses: { ok: 0, timeout: 0, error: 0, unsupported: 0 },
+    totalDurationMs: 0,
+    maxDurationMs: 0,
+    timeoutMs,
+    recentErrors: [],
+  };
+}
+
+/**
+ * Check that an untrusted telemetry entry has the expected shape
+ */
+function isValidTelemetry(entry: unknown): entry is CollectorTelemetry {
+  if (!entry || typeof entry !== 'object') return false;
+  const t = entry as Record<string, unknown>;
+  return typeof t.id === 'string' && KNOWN_COLLECTORS.has(t.id)
+    && STATUSES.includes(t.status as CollectorStatus)
+    && typeof t.durationMs === 'number' && Number.isFinite(t.durationMs) && t.durationMs >= 0
+    && typeof t.timeoutMs === 'number' && Number.isFinite(t.timeoutMs);
+}
+
+/**
+ * Record one client's collector run. The browser family comes from the
+ * User-Agent the server received, not from anything the client reports.
+ */
+export function recordCollectorTelemetry(userAgent: string, telemetry: unknown): void {
+  if (!Array.isArray(telemetry)) return;
+
+  const family = parseBrowserInfo(userAgent).browserName;
+  let browser = browsers.get(family);
+  if (!browser) {
+    browser = { samples: 0, collectors: new Map() };
+    browsers.set(family, browser);
+  }
+  browser.samples++;
+
+  for (const entry of telemetry) {
+    if (!isValidTelemetry(entry)) continue;
+
+    let stats = browser.collectors.get(entry.id);
+    if (!stats) {
+      stats = createStats(entry.timeoutMs);
+      browser.collectors.set(entry.id, stats);
+    }
+
+    stats.runs++;
+    stats.statuses[entry.status]++;
+    stats.timeoutMs = entry.timeoutMs;
+
+    // Unsupported probes never ran, so they don't count towards timing
+    if (entry.status !== 'unsupported') {
+      stats.totalDurationMs += entry.durationMs;
+      stats.maxDurationMs = Math.max(stats.maxDurationMs, entry.durationMs);
+    }
+
+    if (entry.status === 'error' && typeof entry.error === 'string') {
+      stats.recentErrors.push(entry.error.slice(0, MAX_ERROR_LENGTH));
+      if (stats.recentErrors.length > MAX_RECENT_ERRORS) {
+        stats.recentErrors.shift();
+      }
+    }
+  }
+}
+
+/**
+ * Build the health report, slowest collectors first
+ */
+export function getCollectorHealthReport(): CollectorHealthReport {
+  const report: CollectorHealthReport = { generatedAt: Date.now(), browsers: {} };
+
+  for (const [family, browser] of browsers) {
+    const collectors: CollectorHealth[] = [];
+    for (const [id, stats] of browser.collectors) {
+      const timedRuns = stats.runs - stats.statuses.unsupported;
+      collectors.push({
+        id,
+        runs: stats.runs,
+        statuses: { ...stats.statuses },
+        failureRate: stats.runs > 0 ? (stats.statuses.timeout + stats.statuses.error) / stats.runs : 0,
+        avgDurationMs: timedRuns > 0 ? Math.round(stats.totalDurationMs / timedRuns) : 0,
+        maxDurationMs: Math.round(stats.maxDurationMs),
+        timeoutMs: stats.timeoutMs,
+        recentErrors: [...stats.recentErrors],
+      });
+    }
+    collectors.sort((a, b) => b.avgDurationMs - a.avgDurationMs);
+    report.browsers[family] = { samples: browser.samples, collectors };
+  }
+
+  return report;
+}
@@ -0,0 +1,182 @@
+/**
+ * Consistency engine (lie detection)
+ * The client can claim anything in ClientInfo, so we check its claims against
+ * what the server saw and against each other. Spoofing tools and
+ * anti-fingerprinting extensions change some values but rarely all the ones
+ * that should agree - which makes the tools themselves detectable.
+ */
+
+import type { ClientInfo, ConsistencyCheck, ConsistencyReport, ServerInfo, SpoofingSignal } from '../src/types';
+import { parseBrowserInfo } from '../src/utils/browserInfo';
+import { parseUserAgent } from './user-agent';
+import { parseAcceptLanguage, utcOffsetMinutes, formatOffset } from './network-verdict';
+import { getStabilityReport } from './stability';
+
+/** The visit being checked */
+interface Visit {
+  visitorId: string;
+  deviceId: string;
+}
+
+/** A check returns what contradicts, or null when one side has nothing to compare */
+type Check = (server: ServerInfo, client: ClientInfo, visit: Visit) => string[] | null;
+
+/** Fingerprints that should repeat exactly on the same device */
+const NOISE_PROBES: Array<[keyof ClientInfo, string]> = [
+  ['canvasFingerprint', 'Canvas'],
+  ['audioFingerprint', 'Audio'],
+  ['webglFingerprint', 'WebGL'],
+];
+
+/** Components that stay put on one device - if they changed, it isn't one device */
+const HARDWARE_COMPONENTS: Array<keyof ClientInfo> = ['screenWidth', 'screenHeight', 'hardwareConcurrency', 'webglRenderer'];
+
+/** Repeat visits needed before calling a probe noisy */
+const MIN_NOISE_COMPARISONS = 2;
+
+/** Timezones that privacy browsers report regardless of where you are */
+const UTC_ZONES = ['UTC', 'Etc/UTC', 'Etc/GMT', 'GMT'];
+
+/** GPUs by the platforms they exist on */
+const GPU_PLATFORMS: Array<[RegExp, string, string[]]> = [
+  [/\bApple (M\d|GPU)\b/i, 'an Apple GPU', ['macOS', 'iOS']],
+  [/\bMetal\b/i, 'a Metal renderer', ['macOS', 'iOS']],
+  [/Direct3D|\bD3D\d+/i, 'a Direct3D renderer', ['Windows']],
+  [/\b(Mali|PowerVR)\b/i, 'a mobile GPU', ['Android', 'Linux', 'Chrome OS', 'iOS']],
+];
+
+/** Renderers that mean no real GPU: a VM, a headless browser or a blocked GPU */
+const SOFTWARE_RENDERERS = /SwiftShader|llvmpipe|softpipe|Microsoft Basic Render/i;
+
+/** OS implied by navigator.platform (Linux-like platforms are ambiguous) */
+function osFromNavigatorPlatform(platform: string): string | null {
+  if (/^Win/i.test(platform)) return 'Windows';
+  if (/^Mac/i.test(platform)) return 'macOS';
+  if (/^(iPhone|iPad|iPod)/i.test(platform)) return 'iOS';
+  if (/Linux|Android|CrOS/i.test(platform)) return 'Linux-like';
+  return null;
+}
+
+const CHECKS: Record<ConsistencyCheck, Check> = {
+  user_agent: (server, client) => {
+    if (!server.userAgent || server.userAgent === 'Unknown' || client.browserName === 'Unknown') return null;
+    const sent = parseBrowserInfo(server.userAgent);
+    if (sent.browserName !== client.browserName) {
+      return [`JavaScript says ${client.browserName} but the User-Agent header says ${sent.browserName}`];
+    }
+    if (sent.browserVersion !== client.browserVersion) {
+      return [`JavaScript says ${client.browserName} ${client.browserVersion} but the User-Agent header says ${sent.browserVersion}`];
+    }
+    return [];
+  },
+
+  platform: (server, client) => {
+    const claimed = parseUserAgent(server.userAgent).os;
+    const reported = osFromNavigatorPlatform(client.platform);
+    if (claimed === 'Unknown' || !reported) return null;
+    const compatible = reported === 'Linux-like'
+      ? ['Linux', 'Android', 'Chrome OS'].includes(claimed)
+      : reported === claimed;
+    return compatible ? [] : [`User-Agent says ${claimed} but navigator.platform is "${client.platform}"`];
+  },
+
+  client_hints: (server, client) => {
+    if (!client.clientHints || !server.headerFingerprint.clientHints['sec-ch-ua']) return null;
+    return server.headerFingerprint.inconsistencies
+      .filter((i) => i.source === 'client')
+      .map((i) => i.detail);
+  },
+
+  timezone: (server, client) => {
+    if (!client.timezone) return null;
+    const found: string[] = [];
+    const now = new Date();
+    const intlOffset = utcOffsetMinutes(client.timezone, now);
+
+    // Spoofers often override Intl but not Date (or the other way round)
+    if (intlOffset !== null && intlOffset !== -client.timezoneOffset) {
+      found.push(`Intl says ${client.timezone} (${formatOffset(intlOffset)}) but Date says ${formatOffset(-client.timezoneOffset)}`);
+    }
+
+    const geoTimezone = server.geo?.timezone;
+    const geoOffset = geoTimezone ? utcOffsetMinutes(geoTimezone, now) : null;
+    if (geoTimezone && geoOffset !== null && intlOffset !== null && geoOffset !== intlOffset) {
+      found.push(UTC_ZONES.includes(client.timezone)
+        ? `Clock reports UTC while the IP is in ${geoTimezone} (${formatOffset(geoOffset)}) - Tor Browser and Firefox's resistFingerprinting do this`
+        : `Browser says ${client.timezone} but the IP is in ${geoTimezone} (a VPN, or a spoofed timezone)`);
+    }
+    return found;
+  },
+
+  languages: (server, client) => {
+    const header = server.headers['accept-language'];
+    if (!header || client.languages.length === 0) return null;
+    const found: string[] = [];
+    const primary = client.languages[0].toLowerCase();
+
+    if (client.language && client.language.toLowerCase() !== primary) {
+      found.push(`navigator.language is ${client.language} but navigator.languages starts with ${client.languages[0]}`);
+    }
+    // Browsers build Accept-Language from the same list (some send only its first entry)
+    const sent = parseAcceptLanguage(header)[0];
+    if (sent && sent !== primary) {
+      found.push(`JavaScript prefers ${client.languages[0]} but Accept-Language prefers ${sent}`);
+    }
+    return found;
+  },
+
+  webgl_platform: (server, client) => {
+    if (!client.webglRenderer) return null;
+    const os = parseUserAgent(server.userAgent).os;
+    const found: string[] = [];
+
+    const gpu = GPU_PLATFORMS.find(([pattern]) => pattern.test(client.webglRenderer ?? ''));
+    if (gpu && os !== 'Unknown' && !gpu[2].includes(os)) {
+      found.push(`WebGL reports ${gpu[1]} (${client.webglRenderer}) on ${os}`);
+    }
+    if (SOFTWARE_RENDERERS.test(client.webglRenderer)) {
+      found.push(`WebGL runs on a software renderer (${client.webglRenderer}) - a VM, headless browser or blocked GPU`);
+    }
+    return found;
+  },
+
+  fingerprint_noise: (_server, _client, { visitorId, deviceId }) => {
+    const report = getStabilityReport(visitorId, deviceId);
+    if (!report) return null;
+    const byComponent = new Map(report.components.map((c) => [c.component, c]));
+
+    // Only meaningful if the hardware itself stayed the same
+    if (HARDWARE_COMPONENTS.some((component) => (byComponent.get(component)?.changes ?? 0) > 0)) return null;
+
+    const found: string[] = [];
+    for (const [component, label] of NOISE_PROBES) {
+      const stability = byComponent.get(component);
+      if (stability && stability.comparisons >= MIN_NOISE_COMPARISONS && stability.changes === stability.comparisons) {
+        found.push(`${label} output changed on every visit (${stability.changes} of ${stability.comparisons}) on the same hardware - a noise-injecting extension like CanvasBlocker is randomizing it`);
+      }
+    }
+    return found;
+  },
+};
+
+/**
+ * Run every consistency check for a visitor
+ */
+export function getConsistencyReport(
+  visitorId: string,
+  deviceId: string,
+  server: ServerInfo,
+  client: ClientInfo
+): ConsistencyReport {
+  const checked: ConsistencyCheck[] = [];
+  const signals: SpoofingSignal[] = [];
+
+  for (const [check, run] of Object.entries(CHECKS) as Array<[ConsistencyCheck, Check]>) {
+    const found = run(server, client, { visitorId, deviceId });
+    if (found === null) continue;
+    checked.push(check);
+    signals.push(...found.map((detail) => ({ check, detail })));
+  }
+
+  return { visitorId, checked, signals };
+}
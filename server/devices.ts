@@ -0,0 +1,43 @@
+/**
+ * Server-issued device ids
+ * fingerprintId and crossBrowserId are computed by the client and can be
+ * copied by anyone who learns them, so history kept per device is keyed by a
+ * random id the server sets in an HttpOnly cookie on the WebSocket upgrade.
+ */
+
+/** Cookie holding the device id */
+const DEVICE_COOKIE = 'yourinfo_device';
+
+/** How long a device id is kept without visits (1 year, in seconds) */
+const DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+/** Device ids are 16 random bytes, hex encoded */
+const DEVICE_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * The device id a request carries, if it is one we could have issued
+ */
+export function readDeviceId(req: Request): string | null {
+  for (const cookie of (req.headers.get('cookie') ?? '').split(';')) {
+    const [name, value] = cookie.trim().split('=');
+    if (name === DEVICE_COOKIE && value && DEVICE_ID_PATTERN.test(value)) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Mint a new unguessable device id
+ */
+export function issueDeviceId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Set-Cookie value that stores a device id (sent on every upgrade so it keeps rolling)
+ */
+export function deviceCookie(deviceId: string): string {
+  return `${DEVICE_COOKIE}=${deviceId}; Path=/; Max-Age=${DEVICE_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax`;
+}
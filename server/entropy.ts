@@ -0,0 +1,192 @@
+/**
+ * Fingerprint entropy scoring
+ * Tracks how often each ClientInfo attribute value is seen across visitors
+ * so we can tell people how identifying their browser actually is
+ */
+
+import { createHash } from 'crypto';
+import type { ClientInfo, AttributeEntropy, EntropyReport } from '../src/types';
+
+/** Max identities kept in the population (oldest are evicted first) */
+const MAX_POPULATION = 50000;
+
+/**
+ * Attributes scored for entropy and how to turn each into a comparable value.
+ * Volatile fields (behavior, battery level, window size, profile) are left out
+ * because they change within a session and would inflate the numbers.
+ */
+const ATTRIBUTE_EXTRACTORS: Partial<Record<keyof ClientInfo, (c: ClientInfo) => unknown>> = {
+  screenWidth: (c) => c.screenWidth,
+  screenHeight: (c) => c.screenHeight,
+  screenColorDepth: (c) => c.screenColorDepth,
+  devicePixelRatio: (c) => c.devicePixelRatio,
+  platform: (c) => c.platform,
+  language: (c) => c.language,
+  languages: (c) => c.languages.join(','),
+  timezone: (c) => c.timezone,
+  hardwareConcurrency: (c) => c.hardwareConcurrency,
+  deviceMemory: (c) => c.deviceMemory,
+  maxTouchPoints: (c) => c.maxTouchPoints,
+  webglVendor: (c) => c.webglVendor,
+  webglRenderer: (c) => c.webglRenderer,
+  webglExtensions: (c) => c.webglExtensions,
+  doNotTrack: (c) => c.doNotTrack,
+  globalPrivacyControl: (c) => c.globalPrivacyControl,
+  pdfViewerEnabled: (c) => c.pdfViewerEnabled,
+  canvasFingerprint: (c) => c.canvasFingerprint,
+  audioFingerprint: (c) => c.audioFingerprint,
+  webglFingerprint: (c) => c.webglFingerprint,
+  fontsDetected: (c) => [...c.fontsDetected].sort().join(','),
+  mediaDevices: (c) => c.mediaDevices
+    ? `${c.mediaDevices.audioinput}/${c.mediaDevices.videoinput}/${c.mediaDevices.audiooutput}`
+    : null,
+  speechVoicesHash: (c) => c.speechVoicesHash,
+  storageQuota: (c) => c.storageQuota?.quota ?? null,
+  adBlockerDetected: (c) => c.adBlockerDetected,
+  prefersColorScheme: (c) => c.prefersColorScheme,
+  colorGamut: (c) => c.colorGamut,
+  hdrSupported: (c) => c.hdrSupported,
+  browserName: (c) => c.browserName,
+  browserVersion: (c) => c.browserVersion,
+  videoCodecs: (c) => c.videoCodecs.join(','),
+  audioCodecs: (c) => c.audioCodecs.join(','),
+  mathFingerprint: (c) => c.mathFingerprint,
+  errorFingerprint: (c) => c.errorFingerprint,
+  navigatorPropsCount: (c) => c.navigatorPropsCount,
+  windowPropsCount: (c) => c.windowPropsCount,
+  hardwareFamily: (c) => c.hardwareFamily,
+  extensionsDetected: (c) => [...c.extensionsDetected].sort().join(','),
+  installedApps: (c) => [...c.installedApps].sort().join(','),
+  cryptoWallets: (c) => [...c.cryptoWallets].sort().join(','),
+  wasmFingerprint: (c) => c.wasmFingerprint?.fingerprintHash ?? null,
+  webgpuFingerprint: (c) => c.webgpuFingerprint?.fingerprintHash ?? null,
+};
+
+/** Attribute -> (value -> number of identities with that value) */
+const frequencies = new Map<string, Map<string, number>>();
+
+/** Identity -> attribute values last recorded for it */
+const population = new Map<string, Record<string, string>>();
+
+/** Hash of every scored value together -> number of identities with exactly those values */
+const combinations = new Map<string, number>();
+
+/**
+ * Turn a ClientInfo into its scored attribute values
+ */
+function extractAttributes(clientInfo: ClientInfo): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [attribute, extract] of Object.entries(ATTRIBUTE_EXTRACTORS)) {
+    try {
+      const value = extract(clientInfo);
+      values[attribute] = value === null || value === undefined ? 'N/A' : String(value);
+    } catch {
+      values[attribute] = 'N/A';
+    }
+  }
+  return values;
+}
+
+/**
+ * One key for a full set of attribute values, so identical browsers can be counted without comparing each one
+ */
+function combinationOf(values: Record<string, string>): string {
+  return createHash('sha256').update(JSON.stringify(values)).digest('base64');
+}
+
+/**
+ * Identity used to count each browser once, however often it reports
+ */
+function getIdentity(clientInfo: ClientInfo): string {
+  return `${clientInfo.fingerprintId}:${clientInfo.crossBrowserId}`;
+}
+
+function adjustCount(attribute: string, value: string, delta: number): void {
+  let counts = frequencies.get(attribute);
+  if (!counts) {
+    counts = new Map();
+    frequencies.set(attribute, counts);
+  }
+  const next = (counts.get(value) || 0) + delta;
+  if (next > 0) {
+    counts.set(value, next);
+  } else {
+    counts.delete(value);
+  }
+}
+
+function forget(identity: string): void {
+  const previous = population.get(identity);
+  if (!previous) return;
+  for (const [attribute, value] of Object.entries(previous)) {
+    adjustCount(attribute, value, -1);
+  }
+  const combination = combinationOf(previous);
+  const remaining = (combinations.get(combination) || 0) - 1;
+  if (remaining > 0) {
+    combinations.set(combination, remaining);
+  } else {
+    combinations.delete(combination);
+  }
+  population.delete(identity);
+}
+
+/**
+ * Record a visitor's client info in the population.
+ * Repeat reports from the same identity replace its previous values.
+ */
+export function recordClientInfo(clientInfo: ClientInfo): void {
+  if (!clientInfo.fingerprintId) return;
+
+  const identity = getIdentity(clientInfo);
+  forget(identity);
+
+  // Evict the oldest identity once we hit the cap (Map keeps insertion order)
+  if (population.size >= MAX_POPULATION) {
+    const oldest = population.keys().next().value;
+    if (oldest !== undefined) forget(oldest);
+  }
+
+  const values = extractAttributes(clientInfo);
+  for (const [attribute, value] of Object.entries(values)) {
+    adjustCount(attribute, value, 1);
+  }
+  const combination = combinationOf(values);
+  combinations.set(combination, (combinations.get(combination) || 0) + 1);
+  population.set(identity, values);
+}
+
+/**
+ * Compute per-attribute surprisal and anonymity set size for a visitor
+ */
+export function getEntropyReport(visitorId: string, clientInfo: ClientInfo): EntropyReport {
+  const values = extractAttributes(clientInfo);
+  // The visitor always counts themselves, even before their info is recorded
+  const recorded = population.has(getIdentity(clientInfo));
+  const sampleSize = population.size + (recorded ? 0 : 1);
+
+  const attributes: AttributeEntropy[] = Object.entries(values).map(([attribute, value]) => {
+    const sharedBy = Math.max(1, (frequencies.get(attribute)?.get(value) || 0) + (recorded ? 0 : 1));
+    return {
+      attribute: attribute as keyof ClientInfo,
+      value,
+      sharedBy,
+      bits: Math.log2(sampleSize / sharedBy),
+      oneIn: sampleSize / sharedBy,
+    };
+  });
+
+  // How many recorded identities match on every scored attribute
+  const anonymitySet = Math.max(1, (combinations.get(combinationOf(values)) || 0) + (recorded ? 0 : 1));
+
+  return {
+    visitorId,
+    sampleSize,
+    attributes: attributes.sort((a, b) => b.bits - a.bits),
+    totalBits: Math.log2(sampleSize / anonymitySet),
+    summedBits: attributes.reduce((sum, a) => sum + a.bits, 0),
+    anonymitySet,
+    oneIn: sampleSize / anonymitySet,
+  };
+}
+
@@ -0,0 +1,36 @@
+/**
+ * Geolocation providers
+ * Anything that can turn an IP into a GeoLocation implements GeoProvider.
+ * Providers are tried in order and the first one that knows the IP wins,
+ * so a partial source (a static range file) can sit in front of or behind
+ * a complete one (MaxMind).
+ */
+
+import type { GeoLocation } from '../src/types';
+
+export interface GeoProvider {
+  name: string;
+  /** Location for a public IP, or null if this provider has no data for it */
+  lookup(ip: string): Promise<GeoLocation | null>;
+}
+
+/**
+ * Combine providers into one that falls through on misses.
+ * A provider that throws counts as a miss so one bad source can't break lookups.
+ */
+export function createProviderChain(providers: GeoProvider[]): GeoProvider {
+  return {
+    name: providers.map((p) => p.name).join(' > '),
+    async lookup(ip: string): Promise<GeoLocation | null> {
+      for (const provider of providers) {
+        try {
+          const geo = await provider.lookup(ip);
+          if (geo) return geo;
+        } catch (error) {
+          console.error(`Geo provider ${provider.name} failed for ${ip}:`, error);
+        }
+      }
+      return null;
+    },
+  };
+}
@@ -1,58 +1,197 @@
 /**
- * IP Geolocation service using local MaxMind GeoLite2 database
+ * IP Geolocation service using local MaxMind GeoLite2 databases
  * No API rate limits - unlimited lookups!
+ * GeoLite2-ASN is optional; when present it fills in the network owner
+ * (GeoLite2-City has no ISP data) and what kind of network it is.
+ * The data/ directory is watched so weekly database updates are picked up
+ * without a restart: a changed file is opened, checked with a test lookup
+ * and only then swapped in, so lookups never see a broken database.
+ * Lookups go through a chain of providers (GEO_PROVIDERS) with an LRU cache
+ * in front, so the same IP isn't looked up twice per connection, and
+ * concurrent lookups of one IP share a single provider call.
  */
 
-import { Reader } from '@maxmind/geoip2-node';
+import { Reader, type ReaderModel } from '@maxmind/geoip2-node';
+import { Reader as MmdbReader } from 'maxmind';
 import type { GeoLocation } from '../src/types';
-import { join } from 'path';
+import { existsSync, watch } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { classifyIP } from './ip';
+import { classifyConnection } from './asn';
+import { createProviderChain, type GeoProvider } from './geo-provider';
+import { createStaticGeoProvider } from './static-geo';
+import { LRUCache } from './lru-cache';
 
-/** Path to GeoLite2 database */
-const DB_PATH = join(import.meta.dir, '../data/GeoLite2-City.mmdb');
+/** Directory holding the databases */
+const DATA_DIR = join(import.meta.dir, '../data');
 
-/** MaxMind reader instance */
-let reader: Reader | null = null;
+/** Wait for writes to settle before reloading a changed database (ms) */
+const RELOAD_DEBOUNCE_MS = 2000;
 
-/** Initialize the database reader */
-async function initReader(): Promise<Reader | null> {
-  if (reader) return reader;
+/** Recent lookups by IP (null = no provider knew it) */
+const geoCache = new LRUCache<string, GeoLocation | null>(
+  parseInt(process.env.GEO_CACHE_SIZE || '10000', 10) || 10000,
+  parseInt(process.env.GEO_CACHE_TTL_MS || '3600000', 10) || 3600000
+);
+
+/** Lookups still running by IP, so concurrent connections from one IP share a lookup */
+const inFlightLookups = new Map<string, Promise<GeoLocation | null>>();
+
+/** Bumped whenever a database is swapped in; lookups started before that aren't cached */
+let databaseGeneration = 0;
+
+/** Public IP every GeoLite2 edition has an entry for, used to check a database before using it */
+const VALIDATION_IP = '8.8.8.8';
+
+/** A loaded database and where it came from */
+interface GeoDatabase {
+  file: string;
+  kind: 'city' | 'asn';
+  required: boolean; // missing required databases are logged as errors
+  reader: ReaderModel | null;
+  buildDate: string | null; // ISO date the database was built
+  loadedAt: number | null;
+}
+
+/** What /health reports for a database */
+export interface GeoDatabaseStatus {
+  loaded: boolean;
+  buildDate: string | null;
+  loadedAt: number | null;
+}
+
+/** GeoLite2-City (locations) and the optional GeoLite2-ASN (network owners) */
+const databases: Record<'city' | 'asn', GeoDatabase> = {
+  city: { file: 'GeoLite2-City.mmdb', kind: 'city', required: true, reader: null, buildDate: null, loadedAt: null },
+  asn: { file: 'GeoLite2-ASN.mmdb', kind: 'asn', required: false, reader: null, buildDate: null, loadedAt: null },
+};
+
+/**
+ * Open a database file and swap it in if it passes a test lookup.
+ * On any failure the previously loaded reader stays in place.
+ */
+async function loadDatabase(db: GeoDatabase): Promise<void> {
+  const path = join(DATA_DIR, db.file);
+  if (!existsSync(path)) {
+    if (db.required) {
+      console.error(`${db.file} not found - geolocation disabled`);
+    } else {
+      console.log(`${db.file} not found - ${db.kind.toUpperCase()} enrichment disabled`);
+    }
+    return;
+  }
 
   try {
-    reader = await Reader.open(DB_PATH);
-    console.log('GeoLite2 database loaded successfully');
-    return reader;
+    const buffer = await readFile(path);
+    const { metadata } = new MmdbReader(buffer);
+    const expectedType = db.kind === 'city' ? 'City' : 'ASN';
+    if (!metadata.databaseType.includes(expectedType)) {
+      throw new Error(`expected a ${expectedType} database, got ${metadata.databaseType}`);
+    }
+
+    const reader = Reader.openBuffer(buffer);
+    if (db.kind === 'city') {
+      reader.city(VALIDATION_IP);
+    } else {
+      reader.asn(VALIDATION_IP);
+    }
+
+    const replaced = db.reader !== null;
+    db.reader = reader;
+    db.buildDate = metadata.buildEpoch.toISOString();
+    db.loadedAt = Date.now();
+    // Cached and running lookups may come from the old version
+    databaseGeneration++;
+    geoCache.clear();
+    inFlightLookups.clear();
+    console.log(`${db.file} ${replaced ? 'reloaded' : 'loaded'} (built ${db.buildDate.slice(0, 10)})`);
   } catch (error) {
-    console.error('Failed to load GeoLite2 database:', error);
-    return null;
+    console.error(`Failed to load ${db.file}${db.reader ? ' - keeping the previous version' : ''}:`, error);
   }
 }
 
-// Initialize on startup
-initReader();
+/**
+ * Reload databases when their files change. Updaters usually write a temp
+ * file and rename it over the old one, so events are debounced per file.
+ */
+function watchDatabases(): void {
+  if (!existsSync(DATA_DIR)) return;
+
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+  try {
+    watch(DATA_DIR, (_event, filename) => {
+      const db = filename ? Object.values(databases).find((d) => d.file === basename(filename)) : undefined;
+      if (!db) return;
+      clearTimeout(pending.get(db.file));
+      pending.set(db.file, setTimeout(() => {
+        pending.delete(db.file);
+        loadDatabase(db);
+      }, RELOAD_DEBOUNCE_MS));
+    });
+  } catch (error) {
+    console.error('Failed to watch GeoLite2 databases for updates:', error);
+  }
+}
 
 /**
- * Look up geolocation data for an IP address
- * Uses local MaxMind database - no rate limits!
+ * Network owner for an IP, if the ASN database knows it
  */
-export async function getGeolocation(ip: string): Promise<GeoLocation | null> {
-  // Skip localhost/private IPs
-  if (isPrivateIP(ip)) {
+function lookupASN(ip: string): { asn: number; asnOrg: string } | null {
+  const asnReader = databases.asn.reader;
+  if (!asnReader) return null;
+  try {
+    const result = asnReader.asn(ip);
+    if (!result.autonomousSystemNumber) return null;
+    return {
+      asn: result.autonomousSystemNumber,
+      asnOrg: result.autonomousSystemOrganization || 'Unknown',
+    };
+  } catch {
+    // Not in the database
     return null;
   }
+}
 
-  try {
-    const db = await initReader();
+/**
+ * Which databases are loaded and when they were built
+ */
+export function getGeoDatabaseStatus(): Record<'city' | 'asn', GeoDatabaseStatus> {
+  const status = (db: GeoDatabase): GeoDatabaseStatus => ({
+    loaded: db.reader !== null,
+    buildDate: db.buildDate,
+    loadedAt: db.loadedAt,
+  });
+  return { city: status(databases.city), asn: status(databases.asn) };
+}
+
+// Initialize on startup and pick up updates from then on
+const initialized = Promise.all([loadDatabase(databases.city), loadDatabase(databases.asn)]);
+watchDatabases();
+
+/**
+ * MaxMind GeoLite2 provider (City, enriched from ASN when loaded)
+ */
+export const maxMindProvider: GeoProvider = {
+  name: 'maxmind',
+  async lookup(ip: string): Promise<GeoLocation | null> {
+    await initialized;
+    const db = databases.city.reader;
     if (!db) {
       return null;
     }
 
-    const result = db.city(ip);
-
-    if (!result) {
+    let result;
+    try {
+      result = db.city(ip);
+    } catch {
+      // Not in the database
       return null;
     }
 
-    const geo: GeoLocation = {
+    const network = lookupASN(ip);
+
+    return {
       lat: result.location?.latitude || 0,
       lng: result.location?.longitude || 0,
       city: result.city?.names?.en || 'Unknown',
@@ -60,54 +199,74 @@ export async function getGeolocation(ip: string): Promise<GeoLocation | null> {
       country: result.country?.names?.en || 'Unknown',
       countryCode: result.country?.isoCode || 'XX',
       timezone: result.location?.timeZone || 'UTC',
-      isp: result.traits?.isp || result.traits?.organization || 'Unknown',
-      org: result.traits?.organization || 'Unknown',
-      as: result.traits?.autonomousSystemOrganization || 'Unknown',
+      isp: result.traits?.isp || result.traits?.organization || network?.asnOrg || 'Unknown',
+      org: result.traits?.organization || network?.asnOrg || 'Unknown',
+      as: result.traits?.autonomousSystemOrganization || network?.asnOrg || 'Unknown',
+      asn: network?.asn ?? null,
+      asnOrg: network?.asnOrg ?? null,
+      connectionKind: network ? classifyConnection(network.asn, network.asnOrg) : null,
     };
+  },
+};
 
-    return geo;
-  } catch (error) {
-    // Silently handle lookup errors (invalid IPs, etc.)
-    return null;
+/**
+ * Providers to consult, in order, from GEO_PROVIDERS (default: maxmind).
+ * `static` reads STATIC_GEO_FILE (default data/geo-ranges.json).
+ */
+function buildProviderChain(): GeoProvider {
+  const available: Record<string, () => GeoProvider> = {
+    maxmind: () => maxMindProvider,
+    static: () => createStaticGeoProvider(process.env.STATIC_GEO_FILE || join(DATA_DIR, 'geo-ranges.json')),
+  };
+
+  const providers: GeoProvider[] = [];
+  for (const name of (process.env.GEO_PROVIDERS || 'maxmind').split(',').map((n) => n.trim().toLowerCase())) {
+    const create = available[name];
+    if (create) {
+      providers.push(create());
+    } else if (name) {
+      console.warn(`Unknown geo provider "${name}" (available: ${Object.keys(available).join(', ')})`);
+    }
   }
+  if (providers.length === 0) providers.push(maxMindProvider);
+
+  const chain = createProviderChain(providers);
+  console.log(`Geolocation providers: ${chain.name}`);
+  return chain;
 }
 
+const geoProvider = buildProviderChain();
+
 /**
- * Check if an IP is private/localhost
+ * Look up geolocation data for an IP address
+ * Uses local databases - no rate limits! Results (including misses) are cached.
  */
-function isPrivateIP(ip: string): boolean {
-  // IPv4 private ranges
-  if (
-    ip === '127.0.0.1' ||
-    ip === 'localhost' ||
-    ip === 'unknown' ||
-    ip.startsWith('10.') ||
-    ip.startsWith('172.16.') ||
-    ip.startsWith('172.17.') ||
-    ip.startsWith('172.18.') ||
-    ip.startsWith('172.19.') ||
-    ip.startsWith('172.20.') ||
-    ip.startsWith('172.21.') ||
-    ip.startsWith('172.22.') ||
-    ip.startsWith('172.23.') ||
-    ip.startsWith('172.24.') ||
-    ip.startsWith('172.25.') ||
-    ip.startsWith('172.26.') ||
-    ip.startsWith('172.27.') ||
-    ip.startsWith('172.28.') ||
-    ip.startsWith('172.29.') ||
-    ip.startsWith('172.30.') ||
-    ip.startsWith('172.31.') ||
-    ip.startsWith('192.168.') ||
-    ip.startsWith('169.254.')
-  ) {
-    return true;
+export async function getGeolocation(ip: string): Promise<GeoLocation | null> {
+  // Skip loopback, private and reserved IPs
+  if (classifyIP(ip)) {
+    return null;
+  }
+
+  const cached = geoCache.get(ip);
+  if (cached !== undefined) {
+    return cached && { ...cached };
   }
 
-  // IPv6 localhost
-  if (ip === '::1' || ip === '::ffff:127.0.0.1') {
-    return true;
+  let lookup = inFlightLookups.get(ip);
+  if (!lookup) {
+    const generation = databaseGeneration;
+    const started = geoProvider.lookup(ip)
+      .then((geo) => {
+        if (generation === databaseGeneration) geoCache.set(ip, geo);
+        return geo;
+      })
+      .finally(() => {
+        if (inFlightLookups.get(ip) === started) inFlightLookups.delete(ip);
+      });
+    inFlightLookups.set(ip, started);
+    lookup = started;
   }
 
-  return false;
+  const geo = await lookup;
+  return geo && { ...geo };
 }
@@ -0,0 +1,204 @@
+/**
+ * Passive HTTP header fingerprinting
+ * Every browser build sends its headers in a fixed order with fixed Accept and
+ * Accept-Encoding values, so those alone identify the client software - and a
+ * tool that rewrites the User-Agent rarely rewrites the rest to match.
+ * Bun hands us header names already lowercased, so casing can't be observed
+ * here (HTTP/2 lowercases them on the wire anyway); order is kept.
+ */
+
+import { createHash } from 'crypto';
+import type { ClientInfo, HeaderFingerprint, HeaderInconsistency, ServerInfo } from '../src/types';
+import { parseUserAgent } from './user-agent';
+
+/** Set by our own proxies rather than the browser */
+const PROXY_ADDED_HEADERS = new Set(['host', 'connection', 'upgrade', 'x-real-ip', 'forwarded', 'via']);
+const PROXY_ADDED_PREFIXES = ['x-forwarded-', 'cf-'];
+
+/** Present or absent depending on the visit rather than the browser */
+const VOLATILE_HEADERS = new Set(['cookie', 'authorization', 'referer', 'content-length', 'if-none-match', 'if-modified-since']);
+
+/** sec-ch-ua-platform values by the OS name parseUserAgent gives */
+const PLATFORM_HINTS: Record<string, string> = {
+  Windows: 'Windows',
+  macOS: 'macOS',
+  Linux: 'Linux',
+  Android: 'Android',
+  'Chrome OS': 'Chrome OS',
+};
+
+/** First Chromium release that sends sec-ch-ua by default */
+const CLIENT_HINTS_SINCE = 89;
+
+/** Brands from a sec-ch-ua header: "Chromium";v="124", "Google Chrome";v="124" */
+function parseBrands(header: string): Map<string, string> {
+  const brands = new Map<string, string>();
+  for (const match of header.matchAll(/"([^"]*)"\s*;\s*v="([^"]*)"/g)) {
+    brands.set(match[1], match[2]);
+  }
+  return brands;
+}
+
+/** Brands from the client's fullVersionList: "Google Chrome 124.0.6367.91, Chromium 124.0.6367.91" */
+function parseFullVersionList(list: string): Map<string, string> {
+  const brands = new Map<string, string>();
+  for (const entry of list.split(', ')) {
+    const space = entry.lastIndexOf(' ');
+    if (space > 0) brands.set(entry.slice(0, space), entry.slice(space + 1));
+  }
+  return brands;
+}
+
+/** GREASE brands are deliberately random noise */
+const isGreaseBrand = (brand: string): boolean => /not.?a.?brand/i.test(brand);
+
+const majorOf = (version: string): string => version.split('.')[0];
+
+/** Structured-header strings arrive quoted ("Windows") */
+const unquote = (value: string): string => value.replace(/^"|"$/g, '');
+
+/**
+ * Whether the page talking to us is a secure context (client hints and
+ * fetch metadata are only sent from those). WebSocket upgrades and API
+ * calls both carry the page's Origin.
+ */
+function isSecureOrigin(req: Request): boolean {
+  const origin = req.headers.get('origin');
+  if (!origin) return false;
+  try {
+    const url = new URL(origin);
+    return url.protocol === 'https:' || ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Contradictions within the request's own headers
+ */
+function findRequestInconsistencies(req: Request, clientHints: Record<string, string>): HeaderInconsistency[] {
+  const found: string[] = [];
+  const ua = parseUserAgent(req.headers.get('user-agent') || '');
+  const claimed = ua.browser === 'Unknown' ? 'an unknown browser' : `${ua.browser}${ua.majorVersion ? ` ${ua.majorVersion}` : ''}`;
+  const secCHUA = clientHints['sec-ch-ua'];
+  const secure = isSecureOrigin(req);
+
+  if (ua.engine === 'blink' && !secCHUA && secure && req.headers.has('sec-fetch-mode') && (ua.majorVersion ?? 0) >= CLIENT_HINTS_SINCE) {
+    found.push(`User-Agent says ${claimed} but no sec-ch-ua header was sent (Chromium always sends it)`);
+  }
+  if (secCHUA && (ua.engine === 'gecko' || ua.engine === 'webkit')) {
+    found.push(`User-Agent says ${claimed} but the request carries Chromium's sec-ch-ua`);
+  }
+
+  if (secCHUA && ua.engine === 'blink' && ua.majorVersion !== null) {
+    const chromium = parseBrands(secCHUA).get('Chromium');
+    if (chromium && Number(majorOf(chromium)) !== ua.majorVersion) {
+      found.push(`User-Agent says version ${ua.majorVersion} but sec-ch-ua says Chromium ${chromium}`);
+    }
+  }
+
+  const mobileHint = clientHints['sec-ch-ua-mobile'];
+  if (mobileHint && (mobileHint === '?1') !== ua.mobile) {
+    found.push(`User-Agent says ${ua.mobile ? 'mobile' : 'desktop'} but sec-ch-ua-mobile says ${mobileHint === '?1' ? 'mobile' : 'desktop'}`);
+  }
+
+  const platformHint = clientHints['sec-ch-ua-platform'] && unquote(clientHints['sec-ch-ua-platform']);
+  const expectedPlatform = PLATFORM_HINTS[ua.os];
+  if (platformHint && expectedPlatform && platformHint !== expectedPlatform) {
+    found.push(`User-Agent says ${ua.os} but sec-ch-ua-platform says ${platformHint}`);
+  }
+
+  const acceptEncoding = req.headers.get('accept-encoding');
+  if (ua.engine !== 'unknown' && !acceptEncoding) {
+    found.push(`User-Agent says ${claimed} but no Accept-Encoding header was sent`);
+  } else if (acceptEncoding && secure && (ua.engine === 'blink' || ua.engine === 'gecko') && !/\bbr\b/.test(acceptEncoding)) {
+    found.push(`${claimed} offers Brotli over HTTPS, but Accept-Encoding is "${acceptEncoding}"`);
+  }
+
+  return found.map((detail) => ({ source: 'request', detail }));
+}
+
+/**
+ * Contradictions between the sec-ch-ua headers and the client hints
+ * JavaScript reported (navigator.userAgentData)
+ */
+function findClientInconsistencies(fingerprint: HeaderFingerprint, client: Partial<ClientInfo>): HeaderInconsistency[] {
+  const found: string[] = [];
+  const reported = client.clientHints;
+  const secCHUA = fingerprint.clientHints['sec-ch-ua'];
+  if (!reported) return [];
+
+  if (reported.fullVersionList && secCHUA) {
+    const headerBrands = parseBrands(secCHUA);
+    const reportedBrands = parseFullVersionList(reported.fullVersionList);
+    for (const [brand, version] of headerBrands) {
+      if (isGreaseBrand(brand)) continue;
+      const reportedVersion = reportedBrands.get(brand);
+      if (reportedVersion === undefined) {
+        found.push(`sec-ch-ua lists ${brand} but JavaScript doesn't`);
+      } else if (majorOf(reportedVersion) !== majorOf(version)) {
+        found.push(`sec-ch-ua says ${brand} ${version} but JavaScript says ${reportedVersion}`);
+      }
+    }
+    for (const brand of reportedBrands.keys()) {
+      if (!isGreaseBrand(brand) && !headerBrands.has(brand)) {
+        found.push(`JavaScript lists ${brand} but sec-ch-ua doesn't`);
+      }
+    }
+  }
+
+  const mobileHint = fingerprint.clientHints['sec-ch-ua-mobile'];
+  if (mobileHint && reported.mobile !== null && (mobileHint === '?1') !== reported.mobile) {
+    found.push(`sec-ch-ua-mobile says ${mobileHint === '?1' ? 'mobile' : 'desktop'} but JavaScript says ${reported.mobile ? 'mobile' : 'desktop'}`);
+  }
+
+  return found.map((detail) => ({ source: 'client', detail }));
+}
+
+/**
+ * Fingerprint a request by its headers
+ */
+export function fingerprintHeaders(req: Request): HeaderFingerprint {
+  // Bun's toJSON keeps the order headers arrived in; iterating Headers sorts them
+  const names = Object.keys((req.headers as Headers & { toJSON(): Record<string, string> }).toJSON());
+  const order = names.filter((name) =>
+    !PROXY_ADDED_HEADERS.has(name) &&
+    !VOLATILE_HEADERS.has(name) &&
+    !PROXY_ADDED_PREFIXES.some((prefix) => name.startsWith(prefix)));
+
+  const clientHints: Record<string, string> = {};
+  for (const name of names.filter((n) => n.startsWith('sec-ch-ua'))) {
+    clientHints[name] = (req.headers.get(name) || '').slice(0, 500);
+  }
+
+  const accept = req.headers.get('accept') || '';
+  const acceptEncoding = req.headers.get('accept-encoding') || '';
+  const hash = createHash('sha256')
+    .update(JSON.stringify([order, accept, acceptEncoding]))
+    .digest('hex')
+    .slice(0, 16);
+
+  return {
+    hash,
+    order,
+    accept,
+    acceptEncoding,
+    clientHints,
+    inconsistencies: findRequestInconsistencies(req, clientHints),
+  };
+}
+
+/**
+ * Re-check a visitor's header fingerprint against (new) client-reported data,
+ * replacing the findings from an earlier report
+ */
+export function withClientHintChecks(server: ServerInfo, client: Partial<ClientInfo>): HeaderFingerprint {
+  const fingerprint = server.headerFingerprint;
+  return {
+    ...fingerprint,
+    inconsistencies: [
+      ...fingerprint.inconsistencies.filter((i) => i.source === 'request'),
+      ...findClientInconsistencies(fingerprint, client),
+    ],
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Fuzzy identity matching
+ * fingerprintId changes when any single component changes, so instead we
+ * compare component vectors with weighted similarity and link a new visit to
+ * the closest known identity when it scores above a threshold
+ */
+
+import type { ClientInfo, ComponentMatch, IdentityMatch } from '../src/types';
+
+/** Minimum weighted similarity (0-1) to link a visit to a known identity */
+const MATCH_THRESHOLD = (() => {
+  const value = parseFloat(process.env.IDENTITY_MATCH_THRESHOLD || '');
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : 0.85;
+})();
+
+/** Max identities kept (least recently seen are evicted first) */
+const MAX_IDENTITIES = 20000;
+
+/** How one component is extracted and compared */
+interface WeightedComponent {
+  weight: number;
+  extract: (c: ClientInfo) => string | string[] | null;
+}
+
+/**
+ * Components compared and how much each counts. Hardware-level signals weigh
+ * most; list-valued components score partial overlap so one new font or
+ * extension only costs a fraction of their weight.
+ */
+const COMPONENTS: Record<string, WeightedComponent> = {
+  canvasFingerprint: { weight: 3, extract: (c) => c.canvasFingerprint },
+  webglRenderer: { weight: 3, extract: (c) => c.webglRenderer },
+  webglFingerprint: { weight: 2, extract: (c) => c.webglFingerprint },
+  audioFingerprint: { weight: 2, extract: (c) => c.audioFingerprint },
+  fontsDetected: { weight: 3, extract: (c) => c.fontsDetected },
+  mathFingerprint: { weight: 2, extract: (c) => c.mathFingerprint },
+  platform: { weight: 2, extract: (c) => c.platform },
+  speechVoicesHash: { weight: 2, extract: (c) => c.speechVoicesHash },
+  webglVendor: { weight: 1, extract: (c) => c.webglVendor },
+  hardwareConcurrency: { weight: 1, extract: (c) => String(c.hardwareConcurrency) },
+  deviceMemory: { weight: 1, extract: (c) => (c.deviceMemory === null ? null : String(c.deviceMemory)) },
+  screenResolution: {
+    weight: 1,
+    extract: (c) => `${c.screenWidth}x${c.screenHeight}@${c.devicePixelRatio}`,
+  },
+  screenColorDepth: { weight: 1, extract: (c) => String(c.screenColorDepth) },
+  timezone: { weight: 1, extract: (c) => c.timezone },
+  languages: { weight: 1, extract: (c) => c.languages },
+  errorFingerprint: { weight: 1, extract: (c) => c.errorFingerprint },
+  browserName: { weight: 1, extract: (c) => c.browserName },
+  extensionsDetected: { weight: 1, extract: (c) => c.extensionsDetected },
+};
+
+type ComponentVector = Record<string, string | string[] | null>;
+
+/** A known identity and the latest components seen for it */
+interface Identity {
+  id: string;
+  components: ComponentVector;
+  firstSeen: number;
+  lastSeen: number;
+  visits: number;
+}
+
+/** Identity id -> identity, ordered by last seen */
+const identities = new Map<string, Identity>();
+
+/**
+ * Bucket key -> ids of the identities in it. Only identities on the same
+ * platform and GPU are scored against a visit; a device that changed either
+ * would lose too much weight to reach the threshold anyway.
+ */
+const buckets = new Map<string, Set<string>>();
+
+/** Visitor (connection) id -> match result for that visit */
+const visitorMatches = new Map<string, IdentityMatch>();
+
+function extractVector(clientInfo: ClientInfo): ComponentVector {
+  const vector: ComponentVector = {};
+  for (const [component, { extract }] of Object.entries(COMPONENTS)) {
+    try {
+      vector[component] = extract(clientInfo);
+    } catch {
+      vector[component] = null;
+    }
+  }
+  return vector;
+}
+
+function bucketOf(vector: ComponentVector): string {
+  return `${vector.platform}|${vector.webglRenderer}`;
+}
+
+function addToBucket(identity: Identity): void {
+  const key = bucketOf(identity.components);
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new Set();
+    buckets.set(key, bucket);
+  }
+  bucket.add(identity.id);
+}
+
+function removeFromBucket(identity: Identity): void {
+  const key = bucketOf(identity.components);
+  const bucket = buckets.get(key);
+  if (!bucket) return;
+  bucket.delete(identity.id);
+  if (bucket.size === 0) buckets.delete(key);
+}
+
+/**
+ * Similarity of two component values (0-1), or null if either is unknown
+ */
+function similarity(a: string | string[] | null, b: string | string[] | null): number | null {
+  if (a === null || b === null || a === 'unavailable' || b === 'unavailable') return null;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    // Jaccard overlap; two empty lists are identical
+    const setA = new Set(a);
+    const setB = new Set(b);
+    const union = new Set([...setA, ...setB]);
+    if (union.size === 0) return 1;
+    let shared = 0;
+    for (const item of setA) {
+      if (setB.has(item)) shared++;
+    }
+    return shared / union.size;
+  }
+
+  return a === b ? 1 : 0;
+}
+
+/**
+ * Weighted similarity between two vectors, ignoring components unknown on either side
+ */
+function compareVectors(a: ComponentVector, b: ComponentVector): { score: number; components: ComponentMatch[] } {
+  const components: ComponentMatch[] = [];
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const [component, { weight }] of Object.entries(COMPONENTS)) {
+    const sim = similarity(a[component] ?? null, b[component] ?? null);
+    if (sim === null) continue;
+    weighted += sim * weight;
+    totalWeight += weight;
+    components.push({ component, weight, similarity: sim });
+  }
+
+  return { score: totalWeight > 0 ? weighted / totalWeight : 0, components };
+}
+
+function generateIdentityId(): string {
+  return 'id_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 9);
+}
+
+function touch(identity: Identity, components: ComponentVector): void {
+  removeFromBucket(identity);
+  identity.components = components;
+  addToBucket(identity);
+  identity.lastSeen = Date.now();
+  // Re-insert so the Map stays ordered by last seen
+  identities.delete(identity.id);
+  identities.set(identity.id, identity);
+}
+
+function buildMatch(
+  visitorId: string,
+  identity: Identity,
+  score: number,
+  linked: boolean,
+  components: ComponentMatch[]
+): IdentityMatch {
+  return {
+    visitorId,
+    identityId: identity.id,
+    score,
+    threshold: MATCH_THRESHOLD,
+    linked,
+    visits: identity.visits,
+    firstSeen: identity.firstSeen,
+    components: components.sort((x, y) => x.similarity - y.similarity || y.weight - x.weight),
+    matchedComponents: components.filter((c) => c.similarity === 1).map((c) => c.component),
+  };
+}
+
+/**
+ * Link a visit to the most similar known identity, or start a new one.
+ * Repeat reports from the same visit keep the identity chosen first.
+ */
+export function linkVisit(visitorId: string, clientInfo: ClientInfo): IdentityMatch {
+  const vector = extractVector(clientInfo);
+
+  const existing = visitorMatches.get(visitorId);
+  const existingIdentity = existing && identities.get(existing.identityId);
+  if (existing && existingIdentity) {
+    touch(existingIdentity, vector);
+    const match = { ...existing, visits: existingIdentity.visits };
+    visitorMatches.set(visitorId, match);
+    return match;
+  }
+
+  let best: { identity: Identity; score: number; components: ComponentMatch[] } | null = null;
+  for (const id of buckets.get(bucketOf(vector)) ?? []) {
+    const identity = identities.get(id);
+    if (!identity) continue;
+    const { score, components } = compareVectors(vector, identity.components);
+    if (!best || score > best.score) {
+      best = { identity, score, components };
+    }
+  }
+
+  let match: IdentityMatch;
+  if (best && best.score >= MATCH_THRESHOLD) {
+    best.identity.visits++;
+    touch(best.identity, vector);
+    match = buildMatch(visitorId, best.identity, best.score, true, best.components);
+  } else {
+    if (identities.size >= MAX_IDENTITIES) {
+      const oldest = identities.values().next().value;
+      if (oldest !== undefined) {
+        identities.delete(oldest.id);
+        removeFromBucket(oldest);
+      }
+    }
+    const now = Date.now();
+    const identity: Identity = { id: generateIdentityId(), components: vector, firstSeen: now, lastSeen: now, visits: 1 };
+    identities.set(identity.id, identity);
+    addToBucket(identity);
+    // Report the closest miss so visitors can see how near they came
+    match = buildMatch(visitorId, identity, best?.score ?? 0, false, best?.components ?? []);
+  }
+
+  visitorMatches.set(visitorId, match);
+  return match;
+}
+
+/**
+ * Match result for a visit, if it has been linked
+ */
+export function getIdentityMatch(visitorId: string): IdentityMatch | null {
+  return visitorMatches.get(visitorId) ?? null;
+}
+
+/**
+ * Forget a visit's match once the visitor disconnects
+ */
+export function forgetVisit(visitorId: string): void {
+  visitorMatches.delete(visitorId);
+}
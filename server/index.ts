@@ -4,10 +4,38 @@
  * Supports multiple instances with shared visitor state via Redis
  */
 
+import { timingSafeEqual } from 'crypto';
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { getGeolocation } from './geolocation';
-import { generateAIProfile, generateAIAuction, trackUniqueVisitor, getTotalUniqueVisitors, type GeoData } from './ai-profiler';
+import { getGeolocation, getGeoDatabaseStatus } from './geolocation';
+import {
+  generateAIProfile,
+  generateAIAuction,
+  trackUniqueVisitor,
+  getTotalUniqueVisitors,
+  listProfileCacheVersions,
+  listProfileCacheEntries,
+  purgeProfileCache,
+  PROMPT_VERSION,
+  type GeoData,
+} from './ai-profiler';
+import { recordClientInfo, getEntropyReport } from './entropy';
+import { recordCollectorTelemetry, getCollectorHealthReport } from './collector-health';
+import { recordVisit, getStabilityReport, getStabilityOverview } from './stability';
+import { linkVisit, getIdentityMatch, forgetVisit } from './identity';
+import { parseInboundMessage, PROTOCOL_INFO } from './protocol';
+import { WS_SUBPROTOCOL, RESUME_SUBPROTOCOL_PREFIX } from '../src/utils/protocol';
+import { toPublicSummary } from '../src/utils/visitorSummary';
+import { toVisitorDetail } from '../src/utils/visitorDetail';
+import { trackVisitor, nextVisitorUpdate, getVisitorSeq, getResyncPayload, untrackVisitor } from './visitor-deltas';
+import { issueResumeToken, issueApiToken, parkSession, claimSession, expireSession, RESUME_GRACE_MS } from './sessions';
+import { readDeviceId, issueDeviceId, deviceCookie } from './devices';
+import { resolveClientIP, classifyIP } from './ip';
+import { consumeToken, consumeLocalToken, MAX_CONNECTIONS_PER_IP, type RateLimitName } from './rate-limit';
+import { assessRequest, assessClient, buildNetworkVerdict, withClientEvidence } from './network-verdict';
+import { fingerprintHeaders, withClientHintChecks } from './header-fingerprint';
+import { getConsistencyReport } from './consistency';
+import { getAIUsageReport, getAIBudgetStatus, onAIBudgetChange } from './ai-usage';
 import {
   initSharedVisitors,
   onVisitorEvent,
@@ -22,13 +50,25 @@ import type {
   VisitorInfo,
   ServerInfo,
   ClientInfo,
+  GeoLocation,
   WSMessage,
   WelcomePayload,
   VisitorEventPayload,
   ClientInfoPayload,
+  ResyncPayload,
+  BehaviorUpdatePayload,
+  PublicVisitorSummary,
+  VisitorDetailRequestPayload,
+  VisitorDetailPayload,
+  ProfilePartialPayload,
+  ProfileCompletePayload,
+  ErrorPayload,
 } from '../src/types';
 
-const app = new Hono();
+/** Per-request values passed from Bun.serve to Hono routes */
+type Bindings = { ip: string };
+
+const app = new Hono<{ Bindings: Bindings }>();
 const PORT = parseInt(process.env.PORT || '3020', 10);
 
 /** Local visitors map (this instance only) */
@@ -40,6 +80,33 @@ const allVisitors = new Map<string, VisitorInfo>();
 /** WebSocket connections map (local only) */
 const connections = new Map<string, WebSocket>();
 
+/** Minimum time between accepted behavior updates from one visitor */
+const BEHAVIOR_UPDATE_INTERVAL = 2000;
+
+/** Visitor ID -> when its last behavior update was accepted (local only) */
+const lastBehaviorUpdate = new Map<string, number>();
+
+/** Visitor ID -> timer that ends its resume grace window (local only) */
+const pendingLeaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+/** IP -> open or upgrading WebSocket connections from it (local only) */
+const connectionsPerIP = new Map<string, number>();
+
+/** Visitors whose AI profile is being streamed to them (local only) */
+const profileStreams = new Set<string>();
+
+/** API routes with their own (stricter) limit; everything else under /api uses 'api' */
+const ROUTE_LIMITS: Record<string, RateLimitName> = {
+  '/api/profile': 'profile',
+  '/api/ai-auction': 'auction',
+};
+
+/** Bearer token for /api/admin routes (unset disables them) */
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+
+/** Close codes that mean the client left on purpose - no point waiting for it to resume */
+const FINAL_CLOSE_CODES = new Set([1000, 1001]);
+
 // Initialize shared visitors via Redis
 initSharedVisitors().then((connected) => {
   if (connected) {
@@ -49,23 +116,29 @@ initSharedVisitors().then((connected) => {
     onVisitorEvent((event) => {
       if (event.type === 'joined') {
         allVisitors.set(event.visitor.id, event.visitor);
+        const summary = summarizeVisitor(event.visitor);
+        const seq = trackVisitor(summary);
         // Broadcast to local websockets
         broadcast({
           type: 'visitor_joined',
-          payload: { visitor: redactVisitorInfo(event.visitor) } as VisitorEventPayload,
+          payload: { visitor: summary, seq } as VisitorEventPayload,
         });
       } else if (event.type === 'left') {
         allVisitors.delete(event.visitor.id);
+        untrackVisitor(event.visitor.id);
         broadcast({
           type: 'visitor_left',
-          payload: { visitor: redactVisitorInfo(event.visitor) } as VisitorEventPayload,
+          payload: { visitor: summarizeVisitor(event.visitor) } as VisitorEventPayload,
         });
       } else if (event.type === 'updated') {
         allVisitors.set(event.visitor.id, event.visitor);
-        broadcast({
-          type: 'visitor_updated',
-          payload: { visitor: redactVisitorInfo(event.visitor) } as VisitorEventPayload,
-        });
+        const update = nextVisitorUpdate(summarizeVisitor(event.visitor));
+        if (update.summary) {
+          broadcast({
+            type: 'visitor_updated',
+            payload: update.summary,
+          });
+        }
       }
     });
   } else {
@@ -73,9 +146,64 @@ initSharedVisitors().then((connected) => {
   }
 });
 
+// Tell everyone when AI features switch off for the day (or come back)
+onAIBudgetChange((status) => {
+  broadcast({ type: 'ai_budget', payload: status });
+});
+
 // Enable CORS for development
 app.use('*', cors());
 
+// Rate limit each API route per client IP (parameters don't get their own bucket)
+app.use('/api/*', async (c, next) => {
+  const route = c.req.path.split('/').slice(0, 3).join('/');
+  const limit = await consumeToken(ROUTE_LIMITS[route] || 'api', c.env.ip, route);
+  if (!limit.allowed) {
+    return c.json(
+      { error: 'Too many requests', retryAfter: limit.retryAfter },
+      429,
+      { 'Retry-After': String(limit.retryAfter) }
+    );
+  }
+  await next();
+});
+
+/**
+ * Whether an Authorization header carries the expected bearer token (compared in constant time)
+ */
+function hasBearerToken(authorization: string | undefined, expected: string): boolean {
+  const given = Buffer.from(authorization?.replace(/^Bearer\s+/i, '') ?? '');
+  const wanted = Buffer.from(expected);
+  return expected.length > 0 && given.length === wanted.length && timingSafeEqual(given, wanted);
+}
+
+/**
+ * A visitor connected to this instance, if the request comes from it.
+ * Visitor ids are broadcast to everyone, so the request must carry the
+ * connection's API token - which only its own welcome was sent.
+ */
+function ownVisitor(authorization: string | undefined, visitorId: string): VisitorInfo | null {
+  const session = connections.get(visitorId) as unknown as { apiToken?: string } | undefined;
+  if (!session?.apiToken || !hasBearerToken(authorization, session.apiToken)) return null;
+  return localVisitors.get(visitorId) ?? null;
+}
+
+/**
+ * Server-issued device id of a visitor connected to this instance
+ */
+function deviceIdOf(visitorId: string): string | null {
+  const session = connections.get(visitorId) as unknown as { data?: { deviceId?: string } } | undefined;
+  return session?.data?.deviceId ?? null;
+}
+
+// Admin routes need the admin token
+app.use('/api/admin/*', async (c, next) => {
+  if (!hasBearerToken(c.req.header('authorization'), ADMIN_TOKEN)) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+  await next();
+});
+
 /** Health check endpoint */
 app.get('/health', async (c) => {
   const sharedCount = await getSharedOnlineCount();
@@ -84,6 +212,7 @@ app.get('/health', async (c) => {
     localVisitors: localVisitors.size,
     totalOnline: sharedCount || allVisitors.size,
     redisConnected: isSharedVisitorsConnected(),
+    geoDatabases: getGeoDatabaseStatus(),
   });
 });
 
@@ -94,7 +223,7 @@ app.get('/api/visitor/:id', (c) => {
   if (!visitor) {
     return c.json({ error: 'Visitor not found' }, 404);
   }
-  return c.json(visitor);
+  return c.json(redactVisitorInfo(visitor));
 });
 
 /** Get all visitors */
@@ -102,10 +231,10 @@ app.get('/api/visitors', async (c) => {
   // Try to get from Redis first (shared across instances)
   if (isSharedVisitorsConnected()) {
     const shared = await getAllSharedVisitors();
-    return c.json(shared);
+    return c.json(shared.map(redactVisitorInfo));
   }
   // Fallback to local + known remote visitors
-  return c.json(Array.from(allVisitors.values()));
+  return c.json(Array.from(allVisitors.values(), redactVisitorInfo));
 });
 
 /** Get stats */
@@ -118,6 +247,105 @@ app.get('/api/stats', async (c) => {
   });
 });
 
+/** Fuzzy identity match for the requesting visitor (?visitorId=...) */
+app.get('/api/identity/match', (c) => {
+  const visitorId = c.req.query('visitorId');
+  if (!visitorId) return c.json({ error: 'visitorId is required' }, 400);
+  if (!ownVisitor(c.req.header('authorization'), visitorId)) return c.json({ error: 'Visitor not found' }, 404);
+  const match = getIdentityMatch(visitorId);
+  if (!match) return c.json({ error: 'No identity match for this visitor' }, 404);
+  return c.json(match);
+});
+
+/** Fingerprint stability history for the requesting visitor's device */
+app.get('/api/stability/:visitorId', (c) => {
+  const visitorId = c.req.param('visitorId');
+  const visitor = ownVisitor(c.req.header('authorization'), visitorId);
+  const deviceId = deviceIdOf(visitorId);
+  if (!visitor || !deviceId) return c.json({ error: 'Visitor not found' }, 404);
+  if (!visitor.client) return c.json({ error: 'Client info not received yet' }, 409);
+  const report = getStabilityReport(visitorId, deviceId);
+  if (!report) return c.json({ error: 'No history for this device' }, 404);
+  return c.json(report);
+});
+
+/** Which fingerprint components drift between visits, per browser family */
+app.get('/api/stability', (c) => {
+  return c.json(getStabilityOverview());
+});
+
+/** Per-collector timing and failure rates, grouped by browser family */
+app.get('/api/collectors/health', (c) => {
+  return c.json(getCollectorHealthReport());
+});
+
+/** Spoofing signals from cross-checking the requesting visitor's claims against what the server saw */
+app.get('/api/consistency/:visitorId', (c) => {
+  const visitorId = c.req.param('visitorId');
+  const visitor = ownVisitor(c.req.header('authorization'), visitorId);
+  const deviceId = deviceIdOf(visitorId);
+  if (!visitor || !deviceId) return c.json({ error: 'Visitor not found' }, 404);
+  if (!visitor.client) return c.json({ error: 'Client info not received yet' }, 409);
+  return c.json(getConsistencyReport(visitorId, deviceId, visitor.server, visitor.client));
+});
+
+/** Today's AI token usage and cost by provider, with the daily budget */
+app.get('/api/ai/usage', async (c) => {
+  return c.json(await getAIUsageReport());
+});
+
+/** Fingerprint entropy report for the requesting visitor */
+app.get('/api/entropy/:visitorId', (c) => {
+  const visitorId = c.req.param('visitorId');
+  const visitor = ownVisitor(c.req.header('authorization'), visitorId);
+  if (!visitor) {
+    return c.json({ error: 'Visitor not found' }, 404);
+  }
+  if (!visitor.client) {
+    return c.json({ error: 'Client info not received yet' }, 409);
+  }
+  return c.json(getEntropyReport(visitorId, visitor.client));
+});
+
+/** Cached AI profiles by prompt version, or one version's entries with ?version= */
+app.get('/api/admin/profile-cache', async (c) => {
+  const version = c.req.query('version');
+  if (version) {
+    const entries = await listProfileCacheEntries(version);
+    if (!entries) {
+      return c.json({ error: 'Redis not available' }, 503);
+    }
+    return c.json({ currentVersion: PROMPT_VERSION, version, entries });
+  }
+
+  const versions = await listProfileCacheVersions();
+  if (!versions) {
+    return c.json({ error: 'Redis not available' }, 503);
+  }
+  return c.json({ currentVersion: PROMPT_VERSION, versions });
+});
+
+/**
+ * Purge cached AI profiles of one prompt version (?version=stale for every old one),
+ * written by one model (?model=), or both
+ */
+app.delete('/api/admin/profile-cache', async (c) => {
+  const version = c.req.query('version');
+  const model = c.req.query('model');
+  if (!version && !model) {
+    return c.json({ error: 'version or model required' }, 400);
+  }
+
+  const matchesVersion = !version ? () => true
+    : version === 'stale' ? (v: string) => v !== PROMPT_VERSION
+    : (v: string) => v === version;
+  const purged = await purgeProfileCache(matchesVersion, model);
+  if (purged === null) {
+    return c.json({ error: 'Redis not available' }, 503);
+  }
+  return c.json({ version: version ?? null, model: model ?? null, purged });
+});
+
 /** AI-powered user profiling endpoint */
 app.post('/api/profile', async (c) => {
   try {
@@ -128,25 +356,22 @@ app.post('/api/profile', async (c) => {
       return c.json({ error: 'clientInfo required' }, 400);
     }
 
-    // Get IP and geo data for more accurate profiling
-    const forwarded = c.req.header('x-forwarded-for');
-    const ip = forwarded?.split(',')[0].trim() || c.req.header('x-real-ip') || 'unknown';
-    const geoResult = await getGeolocation(ip);
+    // Get geo data for more accurate profiling
+    const geoResult = await getGeolocation(c.env.ip);
+    const geo = toProfileGeo(geoResult);
 
-    const geo: GeoData | undefined = geoResult ? {
-      city: geoResult.city,
-      region: geoResult.region,
-      country: geoResult.country,
-      isp: geoResult.isp,
-      timezone: geoResult.timezone,
-    } : undefined;
+    const networkVerdict = buildNetworkVerdict([
+      ...assessRequest(c.req.raw, geoResult),
+      ...assessClient(c.env.ip, geoResult, clientInfo),
+    ]);
 
-    const result = await generateAIProfile(clientInfo, geo);
+    const result = await generateAIProfile(clientInfo, geo, networkVerdict);
 
     return c.json({
       profile: result.profile,
       source: result.source,
       error: result.error,
+      repairs: result.repairs,
     });
   } catch (err) {
     console.error('Profile endpoint error:', err);
@@ -206,44 +431,101 @@ function redactVisitorInfo(visitor: VisitorInfo): VisitorInfo {
         lng: Math.round(visitor.server.geo.lng),
         isp: '••••••',
         org: '••••••',
+        as: '••••••',
+        asn: null,
+        asnOrg: visitor.server.geo.asnOrg ? '••••••' : null,
       } : null,
+      // The evidence names the network and addresses - others only see the score
+      networkVerdict: { ...visitor.server.networkVerdict, evidence: [] },
     },
+    client: visitor.client ? {
+      ...visitor.client,
+      // STUN-reflected addresses are the real IP behind any VPN
+      webrtcLocalIPs: [],
+      webrtcPublicIPs: [],
+      // The ids (and the factors crossBrowserId hashes) would let others pose as this device
+      fingerprintId: '••••••',
+      crossBrowserId: '••••••',
+      crossBrowserFactors: [],
+    } : null,
   };
 }
 
 /**
- * Redact all visitors except the specified one
+ * Public summary of a visitor for everyone but its owner (built from redacted info)
  */
-function redactVisitorsExcept(allVisitors: VisitorInfo[], currentId: string): VisitorInfo[] {
-  return allVisitors.map(v => v.id === currentId ? v : redactVisitorInfo(v));
+function summarizeVisitor(visitor: VisitorInfo): PublicVisitorSummary {
+  return toPublicSummary(redactVisitorInfo(visitor));
 }
 
 /**
- * Extract real IP from request (handles Cloudflare, nginx proxies)
+ * Summarize all visitors; the current visitor keeps its exact pin position
  */
-function getRealIP(req: Request, server: { requestIP?: (req: Request) => { address: string } | null }): string {
-  // Cloudflare
-  const cfIP = req.headers.get('cf-connecting-ip');
-  if (cfIP) return cfIP;
-
-  // X-Forwarded-For (first IP in chain)
-  const xff = req.headers.get('x-forwarded-for');
-  if (xff) {
-    const firstIP = xff.split(',')[0].trim();
-    if (firstIP) return firstIP;
-  }
+function summarizeVisitorsFor(allVisitors: VisitorInfo[], currentId: string): PublicVisitorSummary[] {
+  return allVisitors.map(v => v.id === currentId ? toPublicSummary(v) : summarizeVisitor(v));
+}
 
-  // X-Real-IP (nginx)
-  const realIP = req.headers.get('x-real-ip');
-  if (realIP) return realIP;
+/**
+ * Count a connection from an IP, unless it already has the maximum open
+ */
+function reserveConnection(ip: string): boolean {
+  const open = connectionsPerIP.get(ip) || 0;
+  if (open >= MAX_CONNECTIONS_PER_IP) return false;
+  connectionsPerIP.set(ip, open + 1);
+  return true;
+}
 
-  // Bun's requestIP
-  if (server.requestIP) {
-    const addr = server.requestIP(req);
-    if (addr) return addr.address;
+/**
+ * Give back a connection counted by reserveConnection
+ */
+function releaseConnection(ip: string): void {
+  const open = (connectionsPerIP.get(ip) || 0) - 1;
+  if (open > 0) {
+    connectionsPerIP.set(ip, open);
+  } else {
+    connectionsPerIP.delete(ip);
   }
+}
 
-  return '127.0.0.1';
+/**
+ * 429 response with Retry-After, for requests outside Hono
+ */
+function tooManyRequests(retryAfter: number): Response {
+  return new Response(JSON.stringify({ error: 'Too many requests', retryAfter }), {
+    status: 429,
+    headers: {
+      'Content-Type': 'application/json',
+      'Retry-After': String(retryAfter),
+    },
+  });
+}
+
+/**
+ * Drop a visitor that has left for good and tell everyone
+ */
+function removeVisitor(visitor: VisitorInfo): void {
+  allVisitors.delete(visitor.id);
+  forgetVisit(visitor.id);
+  untrackVisitor(visitor.id);
+  lastBehaviorUpdate.delete(visitor.id);
+
+  // Publish to other instances
+  publishVisitorLeft(visitor);
+
+  // Broadcast visitor left to local websockets
+  broadcast({
+    type: 'visitor_left',
+    payload: { visitor: summarizeVisitor(visitor) } as VisitorEventPayload,
+  });
+}
+
+/**
+ * Extract real IP from request (forwarding headers count only from trusted proxies)
+ */
+function getRealIP(req: Request, server: { requestIP?: (req: Request) => { address: string } | null }): string {
+  // Bun's requestIP is the connecting peer - the proxy, if there is one
+  const peer = server.requestIP?.(req)?.address ?? null;
+  return resolveClientIP(req, peer);
 }
 
 /**
@@ -280,6 +562,10 @@ async function buildServerInfo(req: Request, ip: string): Promise<ServerInfo> {
   return {
     ip,
     geo,
+    reservedIPReason: classifyIP(ip),
+    // Client-side signals are added once the client reports in
+    networkVerdict: buildNetworkVerdict(assessRequest(req, geo)),
+    headerFingerprint: fingerprintHeaders(req),
     userAgent: req.headers.get('user-agent') || 'Unknown',
     acceptLanguage: req.headers.get('accept-language') || 'Unknown',
     referer: req.headers.get('referer') || 'Direct',
@@ -299,27 +585,113 @@ function broadcast(message: WSMessage, excludeId?: string): void {
   }
 }
 
+/**
+ * Send a message to one visitor on whichever socket it has now (it may have resumed on a new one)
+ */
+function sendToVisitor(visitorId: string, message: WSMessage): void {
+  const ws = connections.get(visitorId);
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * The location details the AI profiler uses
+ */
+function toProfileGeo(geo: GeoLocation | null): GeoData | undefined {
+  return geo ? {
+    city: geo.city,
+    region: geo.region,
+    country: geo.country,
+    isp: geo.isp,
+    timezone: geo.timezone,
+  } : undefined;
+}
+
+/**
+ * Generate a visitor's AI profile, pushing it over the socket field by field as the model writes it
+ */
+async function streamProfile(visitor: VisitorInfo, client: ClientInfo, ip: string): Promise<void> {
+  // Same budget as /api/profile
+  const limit = await consumeToken('profile', ip, '/api/profile');
+  if (!limit.allowed) {
+    sendToVisitor(visitor.id, {
+      type: 'error',
+      payload: {
+        code: 'rate_limited',
+        message: 'Too many profile requests - slow down',
+        requestType: 'request_profile',
+        retryAfter: limit.retryAfter,
+      } as ErrorPayload,
+    });
+    return;
+  }
+
+  profileStreams.add(visitor.id);
+  try {
+    const result = await generateAIProfile(client, toProfileGeo(visitor.server.geo), visitor.server.networkVerdict, (profile) => {
+      sendToVisitor(visitor.id, {
+        type: 'profile_partial',
+        payload: { profile } as ProfilePartialPayload,
+      });
+    });
+    sendToVisitor(visitor.id, {
+      type: 'profile_complete',
+      payload: {
+        profile: result.profile,
+        source: result.source,
+        error: result.error,
+        repairs: result.repairs,
+      } as ProfileCompletePayload,
+    });
+  } finally {
+    profileStreams.delete(visitor.id);
+  }
+}
+
 /**
  * Handle WebSocket upgrade
  */
 const server = Bun.serve({
   port: PORT,
-  fetch(req, server) {
+  async fetch(req, server) {
     const url = new URL(req.url);
 
     // WebSocket upgrade
     if (url.pathname === '/ws') {
       const ip = getRealIP(req, server);
+      // Take the slot before anything async so concurrent upgrades can't all pass the check
+      if (!reserveConnection(ip)) {
+        return tooManyRequests(60);
+      }
+      const limit = await consumeToken('connect', ip);
+      if (!limit.allowed) {
+        releaseConnection(ip);
+        return tooManyRequests(limit.retryAfter);
+      }
+      // Per-device history is keyed by our own id rather than the client's fingerprint
+      const deviceId = readDeviceId(req) ?? issueDeviceId();
+      // The resume token comes as a subprotocol so it stays out of URLs (and request logs)
+      const subprotocols = (req.headers.get('sec-websocket-protocol') ?? '').split(',').map((p) => p.trim());
+      const resumeToken = subprotocols
+        .find((p) => p.startsWith(RESUME_SUBPROTOCOL_PREFIX))
+        ?.slice(RESUME_SUBPROTOCOL_PREFIX.length) ?? null;
+      const headers: Record<string, string> = { 'Set-Cookie': deviceCookie(deviceId) };
+      if (subprotocols.includes(WS_SUBPROTOCOL)) {
+        headers['Sec-WebSocket-Protocol'] = WS_SUBPROTOCOL;
+      }
       const upgraded = server.upgrade(req, {
-        data: { ip, req },
+        headers,
+        data: { ip, req, resumeToken, deviceId },
       });
       if (upgraded) return undefined;
+      releaseConnection(ip);
       return new Response('WebSocket upgrade failed', { status: 400 });
     }
 
     // Handle Hono routes (API, health, etc.)
     if (url.pathname.startsWith('/api') || url.pathname === '/health') {
-      return app.fetch(req);
+      return app.fetch(req, { ip: getRealIP(req, server) } satisfies Bindings);
     }
 
     // Serve static files from dist folder
@@ -356,17 +728,34 @@ const server = Bun.serve({
 
   websocket: {
     async open(ws) {
-      const { ip, req } = ws.data as { ip: string; req: Request };
-      const id = generateId();
+      const { ip, req, resumeToken } = ws.data as { ip: string; req: Request; resumeToken: string | null };
+
+      // A client reconnecting within the grace window gets its previous visitor back
+      const resumed = resumeToken ? await claimSession(resumeToken) : null;
+      const id = resumed?.id ?? generateId();
+      const pendingLeave = pendingLeaves.get(id);
+      if (pendingLeave) {
+        clearTimeout(pendingLeave);
+        pendingLeaves.delete(id);
+      }
 
-      // Build visitor info
+      // Build visitor info (a resumed visitor keeps everything but its network details)
       const serverInfo = await buildServerInfo(req, ip);
-      const visitor: VisitorInfo = {
-        id,
-        server: serverInfo,
-        client: null,
-        connectedAt: Date.now(),
-      };
+      if (resumed?.client) {
+        serverInfo.networkVerdict = withClientEvidence(serverInfo, resumed.client);
+        serverInfo.headerFingerprint = withClientHintChecks(serverInfo, resumed.client);
+      }
+      const visitor: VisitorInfo = resumed
+        ? { ...resumed, server: serverInfo }
+        : {
+            id,
+            server: serverInfo,
+            client: null,
+            connectedAt: Date.now(),
+          };
+
+      // Others only need an update if they still have this visitor from before the drop
+      const alreadyShown = resumed !== null && allVisitors.has(id);
 
       // Store visitor locally and in shared state
       localVisitors.set(id, visitor);
@@ -374,10 +763,24 @@ const server = Bun.serve({
       connections.set(id, ws as unknown as WebSocket);
 
       // Publish to other instances via Redis
-      publishVisitorJoined(visitor);
+      if (resumed) {
+        publishVisitorUpdated(visitor);
+      } else {
+        publishVisitorJoined(visitor);
+      }
 
-      // Attach ID to websocket for later reference
-      (ws as unknown as { visitorId: string }).visitorId = id;
+      // The resumed visit may have been linked on another instance
+      if (visitor.client && !getIdentityMatch(id)) {
+        linkVisit(id, visitor.client);
+      }
+
+      // Attach ID, the token for the next reconnect and the API token to websocket for later reference
+      const nextResumeToken = issueResumeToken();
+      const apiToken = issueApiToken();
+      const session = ws as unknown as { visitorId: string; resumeToken: string; apiToken: string };
+      session.visitorId = id;
+      session.resumeToken = nextResumeToken;
+      session.apiToken = apiToken;
 
       // Get all visitors (local + shared from Redis)
       let allVisitorsList: VisitorInfo[];
@@ -387,11 +790,23 @@ const server = Bun.serve({
         allVisitorsList = Array.from(allVisitors.values());
       }
 
+      // Start this visitor's update sequence, or continue it after a resume
+      const summary = summarizeVisitor(visitor);
+      const seq = alreadyShown ? null : trackVisitor(summary, visitor);
+      // The owner gets the new state in the welcome; others get a delta if anything changed
+      const resumeUpdate = alreadyShown ? nextVisitorUpdate(summary, visitor) : null;
+
       // Send welcome message with visitor's own info and all current visitors
       // Redact other visitors' sensitive info
       const welcomePayload: WelcomePayload = {
         visitor,
-        visitors: redactVisitorsExcept(allVisitorsList, id),
+        visitors: summarizeVisitorsFor(allVisitorsList, id),
+        seqs: Object.fromEntries(allVisitorsList.map((v) => [v.id, getVisitorSeq(v.id, v.id === id)])),
+        protocol: PROTOCOL_INFO,
+        resumeToken: nextResumeToken,
+        apiToken,
+        resumed: resumed !== null,
+        aiBudget: getAIBudgetStatus(),
       };
 
       ws.send(JSON.stringify({
@@ -400,20 +815,54 @@ const server = Bun.serve({
       } as WSMessage));
 
       // Broadcast new visitor to local websockets (other instances get via Redis pub/sub)
-      broadcast(
-        {
-          type: 'visitor_joined',
-          payload: { visitor: redactVisitorInfo(visitor) } as VisitorEventPayload,
-        },
-        id
-      );
+      if (seq !== null) {
+        broadcast(
+          {
+            type: 'visitor_joined',
+            payload: { visitor: summary, seq } as VisitorEventPayload,
+          },
+          id
+        );
+      } else if (resumeUpdate?.summary) {
+        broadcast(
+          {
+            type: 'visitor_updated',
+            payload: resumeUpdate.summary,
+          },
+          id
+        );
+      }
 
-      console.log(`Visitor connected: ${id} from ${ip} (${serverInfo.geo?.city || 'Unknown'})`);
+      console.log(`Visitor ${resumed ? 'resumed' : 'connected'}: ${id} from ${ip} (${serverInfo.geo?.city || 'Unknown'})`);
     },
 
     message(ws, message) {
       try {
-        const data = JSON.parse(message.toString()) as WSMessage;
+        const { ip, deviceId } = ws.data as { ip: string; deviceId: string };
+        const limit = consumeLocalToken('message', ip);
+        if (!limit.allowed) {
+          ws.send(JSON.stringify({
+            type: 'error',
+            payload: {
+              code: 'rate_limited',
+              message: 'Too many messages - slow down',
+              retryAfter: limit.retryAfter,
+            } as ErrorPayload,
+          } as WSMessage));
+          return;
+        }
+
+        const parsed = parseInboundMessage(message);
+        if (!parsed.ok) {
+          console.warn(`Rejected WebSocket message (${parsed.error.code}): ${parsed.error.message}`);
+          ws.send(JSON.stringify({
+            type: 'error',
+            payload: parsed.error,
+          } as WSMessage));
+          return;
+        }
+
+        const data = parsed.message;
         const visitorId = (ws as unknown as { visitorId: string }).visitorId;
 
         if (data.type === 'client_info') {
@@ -421,32 +870,126 @@ const server = Bun.serve({
           const visitor = localVisitors.get(visitorId);
           if (visitor) {
             const payload = data.payload as ClientInfoPayload;
+            const firstReport = visitor.client === null;
+            // Resent client info carries the behavior snapshot from collection time - keep the streamed one
+            if (visitor.client && lastBehaviorUpdate.has(visitorId)) {
+              payload.clientInfo.behavior = visitor.client.behavior;
+              payload.clientInfo.advancedBehavior = visitor.client.advancedBehavior;
+            }
             visitor.client = payload.clientInfo;
+            visitor.server.networkVerdict = withClientEvidence(visitor.server, payload.clientInfo);
+            visitor.server.headerFingerprint = withClientHintChecks(visitor.server, payload.clientInfo);
             localVisitors.set(visitorId, visitor);
             allVisitors.set(visitorId, visitor);
 
             // Publish update to other instances
             publishVisitorUpdated(visitor);
 
+            // Feed the entropy population
+            recordClientInfo(payload.clientInfo);
+
+            // Add this visit to the device's stability history
+            recordVisit(visitorId, deviceId, payload.clientInfo);
+
+            // Link this visit to a known identity by fuzzy matching
+            linkVisit(visitorId, payload.clientInfo);
+
+            // Aggregate collector telemetry (once per visitor, however often it resends)
+            if (firstReport && payload.collectors) {
+              recordCollectorTelemetry(visitor.server.userAgent, payload.collectors);
+            }
+
             // Track unique visitor
             if (payload.clientInfo.fingerprintId && payload.clientInfo.crossBrowserId) {
               trackUniqueVisitor(payload.clientInfo.fingerprintId, payload.clientInfo.crossBrowserId);
             }
 
+            // Diff against what each audience last received
+            const update = nextVisitorUpdate(summarizeVisitor(visitor), visitor);
+
             // Send full info back to the visitor
             const currentWs = connections.get(visitorId);
-            if (currentWs && currentWs.readyState === WebSocket.OPEN) {
+            if (currentWs && currentWs.readyState === WebSocket.OPEN && update.full) {
               currentWs.send(JSON.stringify({
                 type: 'visitor_updated',
-                payload: { visitor } as VisitorEventPayload,
-              }));
+                payload: update.full,
+              } as WSMessage));
+            }
+
+            // Broadcast the public summary to local websockets
+            if (update.summary) {
+              broadcast({
+                type: 'visitor_updated',
+                payload: update.summary,
+              }, visitorId);
             }
+          }
+        } else if (data.type === 'behavior_update') {
+          const visitor = localVisitors.get(visitorId);
+          const now = Date.now();
+          // Behavior belongs to client info, and clients are throttled - drop anything faster
+          if (visitor?.client && now - (lastBehaviorUpdate.get(visitorId) || 0) >= BEHAVIOR_UPDATE_INTERVAL) {
+            lastBehaviorUpdate.set(visitorId, now);
+            const payload = data.payload as BehaviorUpdatePayload;
+            visitor.client.behavior = payload.behavior;
+            visitor.client.advancedBehavior = payload.advancedBehavior;
+            allVisitors.set(visitorId, visitor);
 
-            // Broadcast redacted info to local websockets
-            broadcast({
+            // Publish update to other instances (local sockets need nothing: the owner
+            // already has this and public summaries don't include behavior)
+            publishVisitorUpdated(visitor);
+          }
+        } else if (data.type === 'resync') {
+          // Client missed a delta - send the latest full state
+          const { visitorId: targetId } = data.payload as ResyncPayload;
+          const payload = getResyncPayload(targetId, targetId === visitorId);
+          if (payload) {
+            ws.send(JSON.stringify({
               type: 'visitor_updated',
-              payload: { visitor: redactVisitorInfo(visitor) } as VisitorEventPayload,
-            }, visitorId);
+              payload,
+            } as WSMessage));
+          }
+        } else if (data.type === 'request_profile') {
+          // Profile the client info we already have, streaming the result back
+          const visitor = localVisitors.get(visitorId);
+          if (!visitor?.client) {
+            ws.send(JSON.stringify({
+              type: 'error',
+              payload: {
+                code: 'client_info_required',
+                message: 'Send client_info before requesting a profile',
+                requestType: data.type,
+              } as ErrorPayload,
+            } as WSMessage));
+          } else if (!profileStreams.has(visitorId)) {
+            streamProfile(visitor, visitor.client, ip).catch((err) => {
+              console.error('Profile stream error:', err);
+              sendToVisitor(visitorId, {
+                type: 'profile_complete',
+                payload: { profile: null, source: 'fallback', error: 'Internal server error' } as ProfileCompletePayload,
+              });
+            });
+          }
+        } else if (data.type === 'request_visitor_detail') {
+          // Someone clicked a pin - send that visitor's details (all of them only to the visitor itself)
+          const { visitorId: targetId } = data.payload as VisitorDetailRequestPayload;
+          const target = allVisitors.get(targetId);
+          if (target) {
+            ws.send(JSON.stringify({
+              type: 'visitor_detail',
+              payload: {
+                visitor: targetId === visitorId ? target : toVisitorDetail(redactVisitorInfo(target)),
+              } as VisitorDetailPayload,
+            } as WSMessage));
+          } else {
+            ws.send(JSON.stringify({
+              type: 'error',
+              payload: {
+                code: 'visitor_not_found',
+                message: 'That visitor is no longer online',
+                requestType: data.type,
+              } as ErrorPayload,
+            } as WSMessage));
           }
         }
       } catch (error) {
@@ -454,24 +997,43 @@ const server = Bun.serve({
       }
     },
 
-    close(ws) {
-      const visitorId = (ws as unknown as { visitorId: string }).visitorId;
+    async close(ws, code) {
+      const { visitorId, resumeToken } = ws as unknown as { visitorId?: string; resumeToken?: string };
+      const { ip } = ws.data as { ip: string };
+      releaseConnection(ip);
 
       if (visitorId) {
         const visitor = localVisitors.get(visitorId);
         localVisitors.delete(visitorId);
-        allVisitors.delete(visitorId);
         connections.delete(visitorId);
 
-        if (visitor) {
-          // Publish to other instances
-          publishVisitorLeft(visitor);
+        // Dropped connection - keep showing the visitor for a while in case it comes back
+        if (visitor && resumeToken && RESUME_GRACE_MS > 0 && !FINAL_CLOSE_CODES.has(code)) {
+          await parkSession(resumeToken, visitor);
+          clearTimeout(pendingLeaves.get(visitorId));
+          pendingLeaves.set(visitorId, setTimeout(async () => {
+            pendingLeaves.delete(visitorId);
+            // Resumed here while the session was still being parked
+            if (connections.has(visitorId)) return;
+            if (await expireSession(resumeToken)) {
+              removeVisitor(visitor);
+            } else {
+              // Resumed on another instance - it only stays here as a remote visitor
+              forgetVisit(visitorId);
+              lastBehaviorUpdate.delete(visitorId);
+            }
+          }, RESUME_GRACE_MS));
+          console.log(`Visitor disconnected: ${visitorId} (resumable for ${RESUME_GRACE_MS / 1000}s)`);
+          return;
+        }
 
-          // Broadcast visitor left to local websockets
-          broadcast({
-            type: 'visitor_left',
-            payload: { visitor: redactVisitorInfo(visitor) } as VisitorEventPayload,
-          });
+        if (visitor) {
+          removeVisitor(visitor);
+        } else {
+          allVisitors.delete(visitorId);
+          forgetVisit(visitorId);
+          untrackVisitor(visitorId);
+          lastBehaviorUpdate.delete(visitorId);
         }
 
         console.log(`Visitor disconnected: ${visitorId}`);
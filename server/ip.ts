@@ -0,0 +1,256 @@
+/**
+ * Client IP resolution and classification
+ * Forwarding headers are only believed when the connection comes from a
+ * trusted proxy (TRUSTED_PROXIES, a comma-separated CIDR list), and
+ * X-Forwarded-For is walked right to left past trusted hops, so a client
+ * talking to the origin directly can't choose its own IP.
+ * Addresses can also be classified as loopback, private, CGNAT, link-local
+ * or reserved. Handles IPv4, IPv6 and IPv4-mapped IPv6 addresses.
+ */
+
+import type { ReservedIPReason } from '../src/types';
+
+/** A parsed address: IPv4 as 32 bits, IPv6 as 128 */
+export interface ParsedIP {
+  version: 4 | 6;
+  value: bigint;
+}
+
+/** A parsed CIDR range (base address already masked) */
+export interface CIDR {
+  version: 4 | 6;
+  base: bigint;
+  prefix: number;
+}
+
+const BITS = { 4: 32, 6: 128 } as const;
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  // Embedded IPv4 tail (::ffff:1.2.3.4) becomes two groups
+  let address = ip;
+  const lastColon = address.lastIndexOf(':');
+  if (address.includes('.', lastColon)) {
+    const v4 = parseIPv4(address.slice(lastColon + 1));
+    if (v4 === null) return null;
+    address = `${address.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  let value = 0n;
+  for (const group of [...head, ...Array<string>(missing).fill('0'), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/**
+ * Parse an address. IPv4-mapped IPv6 (::ffff:a.b.c.d) is treated as IPv4;
+ * IPv6 zone ids (%eth0) are ignored.
+ */
+export function parseIP(ip: string): ParsedIP | null {
+  const trimmed = ip.trim();
+  if (trimmed.includes(':')) {
+    const value = parseIPv6(trimmed.split('%')[0]);
+    if (value === null) return null;
+    if (value >> 32n === 0xffffn) {
+      return { version: 4, value: value & 0xffffffffn };
+    }
+    return { version: 6, value };
+  }
+  const value = parseIPv4(trimmed);
+  return value === null ? null : { version: 4, value };
+}
+
+/**
+ * Canonical text for an address (IPv4-mapped IPv6 becomes dotted IPv4), or null if invalid
+ */
+export function normalizeIP(ip: string): string | null {
+  const parsed = parseIP(ip);
+  if (!parsed) return null;
+  if (parsed.version === 4) {
+    return [24n, 16n, 8n, 0n].map((shift) => String((parsed.value >> shift) & 0xffn)).join('.');
+  }
+  const groups: string[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    groups.push(((parsed.value >> shift) & 0xffffn).toString(16));
+  }
+  // Compress the longest run of zero groups (RFC 5952)
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < groups.length; i++) {
+    let j = i;
+    while (j < groups.length && groups[j] === '0') j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+  if (bestStart === -1) return groups.join(':');
+  return `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`;
+}
+
+/**
+ * Parse "10.0.0.0/8", "2001:db8::/32" or a bare address (a single-address range)
+ */
+export function parseCIDR(cidr: string): CIDR | null {
+  const [address, prefixText, ...rest] = cidr.trim().split('/');
+  if (rest.length > 0) return null;
+  const parsed = parseIP(address);
+  if (!parsed) return null;
+
+  const bits = BITS[parsed.version];
+  // A mapped range (::ffff:10.0.0.0/104) counts in IPv6 bits
+  const offset = address.includes(':') && parsed.version === 4 ? 96 : 0;
+  if (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText)) return null;
+  const prefix = prefixText === undefined ? bits + offset : Number(prefixText);
+  if (prefix < offset || prefix > bits + offset) return null;
+
+  const hostBits = BigInt(bits - (prefix - offset));
+  return { version: parsed.version, base: (parsed.value >> hostBits) << hostBits, prefix: prefix - offset };
+}
+
+/**
+ * Whether an address falls inside a range
+ */
+export function isInCIDR(ip: ParsedIP, cidr: CIDR): boolean {
+  if (ip.version !== cidr.version) return false;
+  const hostBits = BigInt(BITS[cidr.version] - cidr.prefix);
+  return (ip.value >> hostBits) << hostBits === cidr.base;
+}
+
+/**
+ * Parse a comma-separated CIDR list, warning about (and skipping) bad entries
+ */
+export function parseCIDRList(list: string, source: string): CIDR[] {
+  const ranges: CIDR[] = [];
+  for (const entry of list.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const cidr = parseCIDR(entry);
+    if (cidr) {
+      ranges.push(cidr);
+    } else {
+      console.warn(`Ignoring invalid CIDR in ${source}: ${entry}`);
+    }
+  }
+  return ranges;
+}
+
+/** Non-public ranges and what they are, most specific first (IPv4-mapped IPv6 is matched as IPv4) */
+const RESERVED_RANGES: Array<[string, ReservedIPReason]> = [
+  // IPv4
+  ['127.0.0.0/8', 'loopback'],
+  ['10.0.0.0/8', 'private'],
+  ['172.16.0.0/12', 'private'],
+  ['192.168.0.0/16', 'private'],
+  ['100.64.0.0/10', 'cgnat'],
+  ['169.254.0.0/16', 'link-local'],
+  ['0.0.0.0/8', 'reserved'], // "this network"
+  ['192.0.0.0/24', 'reserved'], // IETF protocol assignments
+  ['192.0.2.0/24', 'reserved'], // documentation (TEST-NET-1)
+  ['198.51.100.0/24', 'reserved'], // documentation (TEST-NET-2)
+  ['203.0.113.0/24', 'reserved'], // documentation (TEST-NET-3)
+  ['198.18.0.0/15', 'reserved'], // benchmarking
+  ['192.88.99.0/24', 'reserved'], // 6to4 relay anycast (deprecated)
+  ['224.0.0.0/4', 'reserved'], // multicast
+  ['240.0.0.0/4', 'reserved'], // future use and broadcast
+  // IPv6
+  ['::1/128', 'loopback'],
+  ['fc00::/7', 'private'], // unique local
+  ['fe80::/10', 'link-local'],
+  ['::/128', 'reserved'], // unspecified
+  ['100::/64', 'reserved'], // discard-only
+  ['2001:db8::/32', 'reserved'], // documentation
+  ['3fff::/20', 'reserved'], // documentation
+  ['fec0::/10', 'reserved'], // site-local (deprecated)
+  ['ff00::/8', 'reserved'], // multicast
+];
+
+const RESERVED_CIDRS = RESERVED_RANGES.map(([range, reason]) => {
+  const cidr = parseCIDR(range);
+  if (!cidr) throw new Error(`Invalid built-in CIDR: ${range}`);
+  return { cidr, reason };
+});
+
+/**
+ * Why an address isn't publicly routable, or null if it is.
+ * Unparseable input counts as reserved - there is nothing to look up.
+ */
+export function classifyIP(ip: string): ReservedIPReason | null {
+  const parsed = parseIP(ip);
+  if (!parsed) return 'reserved';
+  return RESERVED_CIDRS.find(({ cidr }) => isInCIDR(parsed, cidr))?.reason ?? null;
+}
+
+/** Proxies whose forwarding headers are believed (default: loopback only) */
+const TRUSTED_PROXIES = parseCIDRList(process.env.TRUSTED_PROXIES || '127.0.0.0/8,::1/128', 'TRUSTED_PROXIES');
+
+/**
+ * Header a trusted proxy puts the client IP in. X-Forwarded-For is walked as
+ * a chain; any other header (x-real-ip, cf-connecting-ip) is read as one address.
+ */
+const CLIENT_IP_HEADER = (process.env.CLIENT_IP_HEADER || 'x-forwarded-for').toLowerCase();
+
+function isTrustedProxy(ip: ParsedIP): boolean {
+  return TRUSTED_PROXIES.some((cidr) => isInCIDR(ip, cidr));
+}
+
+/** Strip a port and brackets from one forwarding hop ("1.2.3.4:80", "[::1]:80") */
+function stripPort(hop: string): string {
+  const trimmed = hop.trim().replace(/^"|"$/g, '');
+  const bracketed = trimmed.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) return bracketed[1];
+  const v4WithPort = trimmed.match(/^([\d.]+):\d+$/);
+  return v4WithPort ? v4WithPort[1] : trimmed;
+}
+
+/**
+ * Walk X-Forwarded-For from the right: each trusted hop vouches for the one
+ * to its left, and the first untrusted hop is the client. An unreadable hop
+ * ends the walk at the last address we could trust.
+ */
+function walkForwardedFor(header: string, peer: string): string {
+  let client = peer;
+  for (const hop of header.split(',').reverse()) {
+    const address = normalizeIP(stripPort(hop));
+    const parsed = address && parseIP(address);
+    if (!address || !parsed) break;
+    client = address;
+    if (!isTrustedProxy(parsed)) break;
+  }
+  return client;
+}
+
+/**
+ * Resolve the client IP for a request given the address of the connecting peer
+ */
+export function resolveClientIP(req: Request, peerAddress: string | null): string {
+  const peer = (peerAddress && normalizeIP(peerAddress)) || '127.0.0.1';
+  const parsedPeer = parseIP(peer);
+  if (!parsedPeer || !isTrustedProxy(parsedPeer)) return peer;
+
+  const header = req.headers.get(CLIENT_IP_HEADER);
+  if (!header) return peer;
+
+  if (CLIENT_IP_HEADER === 'x-forwarded-for') {
+    return walkForwardedFor(header, peer);
+  }
+  return normalizeIP(stripPort(header)) || peer;
+}
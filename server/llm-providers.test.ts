@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { completeWithChain, type LLMProvider, type LLMRequest } from './llm-providers';
+
+const request: LLMRequest = { system: 'system', prompt: 'prompt', temperature: 0 };
+
+/** Provider that answers with `text`, or throws when given an Error; records that it was called */
+function provider(name: string, answer: string | Error, called: string[]): LLMProvider {
+  return {
+    name,
+    model: `${name}-model`,
+    pricing: { prompt: 1, completion: 2 },
+    async complete(_request, onText) {
+      called.push(name);
+      if (answer instanceof Error) throw answer;
+      onText?.(answer);
+      return { text: answer, usage: { promptTokens: 1000, completionTokens: 500, estimated: false } };
+    },
+  };
+}
+
+const parseJSON = (text: string): { ok: boolean } | null => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+describe('completeWithChain', () => {
+  test('stops at the first provider whose answer parses', async () => {
+    const called: string[] = [];
+    const chain = [provider('a', '{"ok":true}', called), provider('b', '{"ok":true}', called)];
+
+    const { result, provider: used, errors, calls } = await completeWithChain(chain, request, parseJSON);
+
+    expect(result).toEqual({ ok: true });
+    expect(used?.name).toBe('a');
+    expect(called).toEqual(['a']);
+    expect(errors).toEqual([]);
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({ provider: 'a', model: 'a-model', ok: true, costUSD: 0.002 });
+  });
+
+  test('falls back in order past providers that throw or answer unparseably', async () => {
+    const called: string[] = [];
+    const chain = [
+      provider('a', new Error('HTTP 500: down'), called),
+      provider('b', 'not json', called),
+      provider('c', '{"ok":true}', called),
+      provider('d', '{"ok":true}', called),
+    ];
+
+    const { provider: used, errors, calls } = await completeWithChain(chain, request, parseJSON);
+
+    expect(used?.name).toBe('c');
+    expect(called).toEqual(['a', 'b', 'c']);
+    expect(errors).toEqual(['a: HTTP 500: down', 'b: unparseable response']);
+    expect(calls.map((call) => [call.provider, call.ok])).toEqual([['a', false], ['b', false], ['c', true]]);
+    // A provider that threw never reported usage; one that answered is still billed
+    expect(calls[0].usage).toBeNull();
+    expect(calls[1].costUSD).toBe(0.002);
+  });
+
+  test('reports every failure when no provider succeeds', async () => {
+    const called: string[] = [];
+    const chain = [provider('a', 'nope', called), provider('b', new Error('timeout'), called)];
+
+    const { result, provider: used, errors, calls } = await completeWithChain(chain, request, parseJSON);
+
+    expect(result).toBeNull();
+    expect(used).toBeNull();
+    expect(errors).toEqual(['a: unparseable response', 'b: timeout']);
+    expect(calls).toHaveLength(2);
+  });
+
+  test('streams text tagged with the provider producing it', async () => {
+    const called: string[] = [];
+    const chain = [provider('a', 'partial', called), provider('b', '{"ok":true}', called)];
+    const streamed: string[] = [];
+
+    await completeWithChain(chain, request, parseJSON, (text, from) => streamed.push(`${from.name}:${text}`));
+
+    expect(streamed).toEqual(['a:partial', 'b:{"ok":true}']);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * LLM providers
+ * Anything that can complete a chat prompt implements LLMProvider. Providers
+ * are tried in the order given by LLM_PROVIDERS and the first one whose
+ * answer parses wins. Grok, OpenRouter and any other OpenAI-compatible
+ * server (llama.cpp, Ollama, vLLM, a mock in tests) share one implementation.
+ */
+
+export interface LLMRequest {
+  system: string;
+  prompt: string;
+  temperature: number;
+}
+
+/** Tokens one call used */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // the server didn't report usage, so it was estimated from the text
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage: LLMUsage;
+}
+
+/** Prices in USD per million tokens */
+export interface LLMPricing {
+  prompt: number;
+  completion: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  pricing: LLMPricing;
+  /**
+   * Completion for a prompt; throws on network, HTTP or empty responses.
+   * With onText the answer is streamed and onText gets the text so far after every chunk.
+   */
+  complete(request: LLMRequest, onText?: (text: string) => void): Promise<LLMCompletion>;
+}
+
+/** Settings for an OpenAI-compatible chat completions endpoint */
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string; // up to and including /v1
+  model: string;
+  apiKey?: string;
+  pricing?: LLMPricing; // defaults to free
+  maxTokens?: number;
+  headers?: Record<string, string>;
+  extraBody?: Record<string, unknown>; // provider-specific request fields
+}
+
+/** How long one provider gets to answer before the next is tried (ms) */
+const LLM_TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '60000', 10);
+
+/** Rough characters per token, for servers that don't report usage */
+const CHARS_PER_TOKEN = 4;
+
+/** Usage as reported in an OpenAI-style response, if it was */
+function readUsage(usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): LLMUsage | null {
+  if (typeof usage?.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') return null;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, estimated: false };
+}
+
+function estimateUsage(request: LLMRequest, text: string): LLMUsage {
+  return {
+    promptTokens: Math.ceil((request.system.length + request.prompt.length) / CHARS_PER_TOKEN),
+    completionTokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+    estimated: true,
+  };
+}
+
+/**
+ * Accumulate a streamed (server-sent events) chat completion, with the usage
+ * the last chunk reports if the server supports stream_options
+ */
+async function readStream(
+  body: ReadableStream<Uint8Array>,
+  onText: (text: string) => void
+): Promise<{ text: string; usage: LLMUsage | null }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+  let usage: LLMUsage | null = null;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+
+    for (const line of lines) {
+      // Anything else is a keep-alive comment or an event we don't use
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') {
+        reader.cancel().catch(() => {});
+        return { text, usage };
+      }
+
+      let delta: string | undefined;
+      try {
+        const chunk = JSON.parse(data);
+        delta = chunk.choices?.[0]?.delta?.content;
+        usage = readUsage(chunk.usage) ?? usage;
+      } catch {
+        continue;
+      }
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return { text, usage };
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: config.name,
+    model: config.model,
+    pricing: config.pricing ?? { prompt: 0, completion: 0 },
+    async complete(request: LLMRequest, onText?: (text: string) => void): Promise<LLMCompletion> {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          ...config.headers,
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.prompt },
+          ],
+          stream: Boolean(onText),
+          ...(onText ? { stream_options: { include_usage: true } } : {}),
+          temperature: request.temperature,
+          ...(config.maxTokens ? { max_tokens: config.maxTokens } : {}),
+          ...config.extraBody,
+        }),
+        signal: AbortSignal.timeout(LLM_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText.slice(0, 200)}`);
+      }
+
+      let text: string | undefined;
+      let usage: LLMUsage | null;
+      if (onText && response.body) {
+        ({ text, usage } = await readStream(response.body, onText));
+      } else {
+        const data = await response.json();
+        text = data.choices?.[0]?.message?.content;
+        usage = readUsage(data.usage);
+      }
+      if (!text) {
+        throw new Error('Empty response');
+      }
+      return { text, usage: usage ?? estimateUsage(request, text) };
+    },
+  };
+}
+
+/**
+ * Prices from LLM_PRICES ("name:prompt:completion,..." in USD per million tokens)
+ */
+function priceOverride(name: string): LLMPricing | undefined {
+  for (const entry of (process.env.LLM_PRICES || '').split(',')) {
+    const [provider, prompt, completion] = entry.trim().split(':');
+    if (provider === name && Number.isFinite(Number(prompt)) && Number.isFinite(Number(completion))) {
+      return { prompt: Number(prompt), completion: Number(completion) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Built-in providers by name. Each returns null when it isn't configured,
+ * so the default chain only contains what has credentials.
+ */
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider | null> = {
+  grok: () => process.env.GROK_API_KEY ? createOpenAICompatibleProvider({
+    name: 'grok',
+    baseUrl: 'https://api.x.ai/v1',
+    model: process.env.GROK_MODEL || 'grok-4-1-fast-reasoning',
+    apiKey: process.env.GROK_API_KEY,
+    pricing: priceOverride('grok') ?? { prompt: 0.2, completion: 0.5 },
+  }) : null,
+
+  openrouter: () => process.env.OPENROUTER_API_KEY ? createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    model: process.env.OPENROUTER_MODEL || 'xiaomi/mimo-v2-flash:free',
+    apiKey: process.env.OPENROUTER_API_KEY,
+    pricing: priceOverride('openrouter'), // the default model is free
+    maxTokens: 4096,
+    headers: {
+      'HTTP-Referer': 'https://yourinfo.hsingh.app',
+      'X-Title': 'YourInfo Privacy Demo',
+    },
+    extraBody: { reasoning: { enabled: false } }, // Disable reasoning for faster responses
+  }) : null,
+
+  // Any OpenAI-compatible server, e.g. a local llama.cpp or Ollama
+  custom: () => process.env.LLM_BASE_URL ? createOpenAICompatibleProvider({
+    name: 'custom',
+    baseUrl: process.env.LLM_BASE_URL,
+    model: process.env.LLM_MODEL || 'default',
+    apiKey: process.env.LLM_API_KEY,
+    pricing: priceOverride('custom'),
+    maxTokens: 4096,
+  }) : null,
+};
+
+/**
+ * Build the provider chain from LLM_PROVIDERS (comma-separated names, in order)
+ */
+function buildProviderChain(): LLMProvider[] {
+  const names = (process.env.LLM_PROVIDERS || 'grok,openrouter,custom').split(',').map((n) => n.trim()).filter(Boolean);
+  const providers: LLMProvider[] = [];
+
+  for (const name of names) {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`Unknown LLM provider in LLM_PROVIDERS: ${name}`);
+      continue;
+    }
+    const provider = factory();
+    if (provider) {
+      providers.push(provider);
+    } else {
+      console.warn(`LLM provider ${name} not configured - skipping`);
+    }
+  }
+
+  if (providers.length > 0) {
+    console.log(`LLM providers: ${providers.map((p) => `${p.name} (${p.model})`).join(' > ')}`);
+  } else {
+    console.warn('No LLM providers configured - AI features use rule-based fallbacks');
+  }
+  return providers;
+}
+
+/** The configured chain, in order */
+export const llmProviders = buildProviderChain();
+
+/** One provider call, for usage accounting */
+export interface LLMCall {
+  provider: string;
+  model: string;
+  usage: LLMUsage | null; // null when the call failed before answering
+  latencyMs: number;
+  costUSD: number;
+  ok: boolean; // answered with something parseable
+}
+
+/** Outcome of running a prompt down the chain */
+export interface LLMChainResult<T> {
+  result: T | null;
+  provider: LLMProvider | null; // the one that produced result
+  errors: string[]; // one per provider that failed, in order
+  calls: LLMCall[]; // every provider tried, in order
+}
+
+/** Estimated price of a call */
+function costOf(pricing: LLMPricing, usage: LLMUsage): number {
+  return (usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion) / 1_000_000;
+}
+
+/**
+ * Try each provider in turn until one returns text that `parse` accepts.
+ * A provider that throws or answers unparseably counts as a failure.
+ * With onText every provider streams; a failed provider's partial text is
+ * simply superseded by the next one's.
+ */
+export async function completeWithChain<T>(
+  providers: LLMProvider[],
+  request: LLMRequest,
+  parse: (text: string) => T | null,
+  onText?: (text: string, provider: LLMProvider) => void
+): Promise<LLMChainResult<T>> {
+  const errors: string[] = [];
+  const calls: LLMCall[] = [];
+
+  for (const provider of providers) {
+    const startedAt = Date.now();
+    const call: LLMCall = { provider: provider.name, model: provider.model, usage: null, latencyMs: 0, costUSD: 0, ok: false };
+    calls.push(call);
+    try {
+      const completion = await provider.complete(request, onText && ((text) => onText(text, provider)));
+      call.latencyMs = Date.now() - startedAt;
+      call.usage = completion.usage;
+      call.costUSD = costOf(provider.pricing, completion.usage);
+
+      const result = parse(completion.text);
+      if (result) {
+        call.ok = true;
+        return { result, provider, errors, calls };
+      }
+      errors.push(`${provider.name}: unparseable response`);
+    } catch (err) {
+      call.latencyMs = Date.now() - startedAt;
+      console.error(`LLM provider ${provider.name} failed:`, err);
+      errors.push(`${provider.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return { result: null, provider: null, errors, calls };
+}
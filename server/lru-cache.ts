@@ -0,0 +1,52 @@
+/**
+ * Small LRU cache with a per-entry TTL
+ * Map iteration order doubles as recency order: reads re-insert the entry,
+ * so the first key is always the least recently used.
+ */
+
+export class LRUCache<K, V> {
+  private entries = new Map<K, { value: V; expiresAt: number }>();
+  private readonly maxSize: number;
+  private readonly ttlMs: number;
+
+  constructor(maxSize: number, ttlMs: number) {
+    this.maxSize = maxSize;
+    this.ttlMs = ttlMs;
+  }
+
+  /** Whether a live entry exists (null and undefined are valid cached values) */
+  has(key: K): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  get(key: K): V | undefined {
+    if (!this.has(key)) return undefined;
+    const entry = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxSize) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) this.entries.delete(oldest.value);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
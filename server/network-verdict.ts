@@ -0,0 +1,186 @@
+/**
+ * VPN and proxy verdict
+ * Combines independent signals into one score with itemized evidence:
+ * a hosting ASN, proxy headers and an Accept-Language that doesn't fit the
+ * IP's country can be read off the request; a browser clock in another
+ * timezone and WebRTC revealing a different public IP need the client's report.
+ * No single signal is proof - travellers, expats and corporate networks trip
+ * some of them - so the verdict only leans one way once several agree.
+ */
+
+import type { ClientInfo, GeoLocation, NetworkEvidence, NetworkSignal, NetworkVerdict, ServerInfo } from '../src/types';
+import { classifyIP, normalizeIP, parseIP } from './ip';
+
+/** Points each signal adds to the score */
+const SIGNAL_WEIGHTS: Record<NetworkSignal, number> = {
+  hosting_asn: 40,
+  timezone_mismatch: 25,
+  language_country_mismatch: 10,
+  webrtc_ip_mismatch: 35,
+  header_anomaly: 15,
+};
+
+/** Score from which a visitor is reported as likely behind a VPN or proxy */
+const LIKELY_THRESHOLD = 40;
+
+/** Signals that come from the client's report rather than the request */
+const CLIENT_SIGNALS: NetworkSignal[] = ['timezone_mismatch', 'webrtc_ip_mismatch'];
+
+/**
+ * Headers added by forward proxies (never sent by browsers themselves).
+ * Via and Forwarded aren't among them: our own reverse proxy or CDN adds those.
+ */
+const PROXY_HEADERS = ['proxy-connection', 'x-proxy-id', 'x-bluecoat-via'];
+
+/** Languages commonly used in a country, by ISO country code */
+const COUNTRY_LANGUAGES: Record<string, string[]> = {
+  US: ['en', 'es'], GB: ['en'], IE: ['en', 'ga'], CA: ['en', 'fr'], AU: ['en'], NZ: ['en', 'mi'],
+  DE: ['de'], AT: ['de'], CH: ['de', 'fr', 'it'], FR: ['fr'], BE: ['nl', 'fr', 'de'], NL: ['nl'],
+  LU: ['lb', 'fr', 'de'], ES: ['es', 'ca', 'eu', 'gl'], PT: ['pt'], IT: ['it'], GR: ['el'],
+  SE: ['sv'], NO: ['no', 'nb', 'nn'], DK: ['da'], FI: ['fi', 'sv'], IS: ['is'],
+  PL: ['pl'], CZ: ['cs'], SK: ['sk'], HU: ['hu'], RO: ['ro'], BG: ['bg'], HR: ['hr'], SI: ['sl'],
+  RS: ['sr'], UA: ['uk', 'ru'], RU: ['ru'], BY: ['be', 'ru'], LT: ['lt'], LV: ['lv'], EE: ['et'],
+  TR: ['tr'], IL: ['he', 'ar'], SA: ['ar'], AE: ['ar'], EG: ['ar'], MA: ['ar', 'fr'], IR: ['fa'],
+  IN: ['hi', 'en', 'bn', 'ta', 'te', 'mr'], PK: ['ur', 'en'], BD: ['bn'],
+  CN: ['zh'], TW: ['zh'], HK: ['zh', 'en'], JP: ['ja'], KR: ['ko'],
+  TH: ['th'], VN: ['vi'], ID: ['id'], MY: ['ms', 'en'], PH: ['fil', 'tl', 'en'], SG: ['en', 'zh', 'ms'],
+  MX: ['es'], AR: ['es'], CL: ['es'], CO: ['es'], PE: ['es'], VE: ['es'], BR: ['pt'],
+  ZA: ['en', 'af', 'zu'], NG: ['en'], KE: ['en', 'sw'],
+};
+
+function evidence(signal: NetworkSignal, detail: string): NetworkEvidence {
+  return { signal, weight: SIGNAL_WEIGHTS[signal], detail };
+}
+
+/** Language tags from an Accept-Language header, most preferred first (q=0 dropped) */
+export function parseAcceptLanguage(header: string): string[] {
+  return header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((p) => p.trim().match(/^q=([\d.]+)$/)?.[1]).find(Boolean);
+      return { tag: tag.trim().toLowerCase(), q: q === undefined ? 1 : Number(q) };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Whether any preferred language fits the country, by region subtag (en-GB)
+ * or by a language spoken there. Null when we can't tell.
+ */
+function languageFitsCountry(tags: string[], countryCode: string): boolean | null {
+  const country = countryCode.toUpperCase();
+  const regions = tags.map((tag) => tag.split('-').find((sub, i) => i > 0 && /^[a-z]{2}$/.test(sub))?.toUpperCase());
+  if (regions.includes(country)) return true;
+
+  const spoken = COUNTRY_LANGUAGES[country];
+  if (!spoken) return null;
+  return tags.some((tag) => spoken.includes(tag.split('-')[0]));
+}
+
+/** Current UTC offset of an IANA timezone in minutes, or null if unknown */
+export function utcOffsetMinutes(timeZone: string, at: Date): number | null {
+  try {
+    const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+      .formatToParts(at)
+      .find((part) => part.type === 'timeZoneName')?.value;
+    const match = name?.match(/^GMT(?:([+-])(\d{1,2}):?(\d{2})?)?$/);
+    if (!match) return null;
+    if (!match[1]) return 0;
+    const minutes = Number(match[2]) * 60 + Number(match[3] || 0);
+    return match[1] === '-' ? -minutes : minutes;
+  } catch {
+    return null;
+  }
+}
+
+/** "UTC+5:30" style label for an offset in minutes */
+export function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `UTC${sign}${Math.floor(abs / 60)}${abs % 60 ? `:${String(abs % 60).padStart(2, '0')}` : ''}`;
+}
+
+/**
+ * Evidence readable from the request alone (available as soon as the socket opens)
+ */
+export function assessRequest(req: Request, geo: GeoLocation | null): NetworkEvidence[] {
+  const found: NetworkEvidence[] = [];
+
+  if (geo?.connectionKind === 'hosting') {
+    found.push(evidence('hosting_asn', `IP belongs to a hosting provider (${geo.asnOrg || geo.org || `AS${geo.asn}`})`));
+  }
+
+  const acceptLanguage = req.headers.get('accept-language');
+  if (!acceptLanguage) {
+    found.push(evidence('header_anomaly', 'No Accept-Language header (every browser sends one)'));
+  } else if (geo?.countryCode) {
+    const tags = parseAcceptLanguage(acceptLanguage);
+    if (tags.length > 0 && languageFitsCountry(tags, geo.countryCode) === false) {
+      found.push(evidence('language_country_mismatch', `Browser asks for ${tags.slice(0, 3).join(', ')} but the IP is in ${geo.country}`));
+    }
+  }
+
+  for (const name of PROXY_HEADERS) {
+    const value = req.headers.get(name);
+    if (value) {
+      found.push(evidence('header_anomaly', `Request passed through a proxy (${name}: ${value.slice(0, 100)})`));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Evidence from the client's report: its clock's timezone and the public
+ * addresses WebRTC saw through STUN
+ */
+export function assessClient(ip: string, geo: GeoLocation | null, client: Partial<ClientInfo>): NetworkEvidence[] {
+  const found: NetworkEvidence[] = [];
+
+  // Compare offsets, not names - Europe/Berlin and Europe/Paris are the same clock
+  if (geo?.timezone && client.timezone && geo.timezone !== client.timezone) {
+    const now = new Date();
+    const ipOffset = utcOffsetMinutes(geo.timezone, now);
+    const clientOffset = utcOffsetMinutes(client.timezone, now);
+    if (ipOffset !== null && clientOffset !== null && ipOffset !== clientOffset) {
+      found.push(evidence(
+        'timezone_mismatch',
+        `Browser clock is in ${client.timezone} (${formatOffset(clientOffset)}) but the IP is in ${geo.timezone} (${formatOffset(ipOffset)})`,
+      ));
+    }
+  }
+
+  // Only same-family addresses are comparable: dual-stack hosts reach STUN over IPv6 and us over IPv4
+  const requestIP = normalizeIP(ip);
+  const version = requestIP ? parseIP(requestIP)?.version : undefined;
+  if (requestIP && classifyIP(requestIP) === null) {
+    const candidates = (client.webrtcPublicIPs ?? [])
+      .map((candidate) => normalizeIP(candidate))
+      .filter((candidate): candidate is string =>
+        candidate !== null && classifyIP(candidate) === null && parseIP(candidate)?.version === version);
+    if (candidates.length > 0 && !candidates.includes(requestIP)) {
+      found.push(evidence('webrtc_ip_mismatch', `WebRTC reveals ${candidates.join(', ')} but the connection came from ${requestIP}`));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Score a set of evidence
+ */
+export function buildNetworkVerdict(found: NetworkEvidence[]): NetworkVerdict {
+  const score = Math.min(100, found.reduce((sum, e) => sum + e.weight, 0));
+  return { score, likelyVPNOrProxy: score >= LIKELY_THRESHOLD, evidence: found };
+}
+
+/**
+ * Re-score a visitor's verdict with (new) client evidence, replacing any from an earlier report
+ */
+export function withClientEvidence(server: ServerInfo, client: Partial<ClientInfo>): NetworkVerdict {
+  const requestEvidence = server.networkVerdict.evidence.filter((e) => !CLIENT_SIGNALS.includes(e.signal));
+  return buildNetworkVerdict([...requestEvidence, ...assessClient(server.ip, server.geo, client)]);
+}
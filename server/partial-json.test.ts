@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { completedFields } from './partial-json';
+
+describe('completedFields', () => {
+  test('reads every field of a finished object', () => {
+    expect(completedFields('{"a": 1, "b": "two", "c": [1, {"d": null}], "e": true}')).toEqual({
+      a: 1,
+      b: 'two',
+      c: [1, { d: null }],
+      e: true,
+    });
+  });
+
+  test('skips anything before the opening brace', () => {
+    expect(completedFields('```json\n{"a": 1, "b": 2}\n```')).toEqual({ a: 1, b: 2 });
+  });
+
+  test('returns nothing before the object starts', () => {
+    expect(completedFields('')).toEqual({});
+    expect(completedFields('Here is the profile')).toEqual({});
+  });
+
+  test('leaves out a value that is still being written', () => {
+    expect(completedFields('{"a": "done", "b": "half')).toEqual({ a: 'done' });
+    expect(completedFields('{"a": "done", "b": [1, 2')).toEqual({ a: 'done' });
+    expect(completedFields('{"a": "done", "b": {"c": 1')).toEqual({ a: 'done' });
+    expect(completedFields('{"a": "done", "b":')).toEqual({ a: 'done' });
+    expect(completedFields('{"a": "done", "b')).toEqual({ a: 'done' });
+  });
+
+  test('waits for what follows a number or literal, which may still grow', () => {
+    expect(completedFields('{"score": 12')).toEqual({});
+    expect(completedFields('{"score": 12,')).toEqual({ score: 12 });
+    expect(completedFields('{"flag": tru')).toEqual({});
+    expect(completedFields('{"flag": true}')).toEqual({ flag: true });
+  });
+
+  test('is not fooled by brackets and escaped quotes inside strings', () => {
+    expect(completedFields('{"a": "x } ] \\" {", "b": ["]", "\\"["], "c": 1')).toEqual({
+      a: 'x } ] " {',
+      b: [']', '"['],
+    });
+  });
+
+  test('stops at the first thing that does not parse', () => {
+    expect(completedFields('{"a": 1, "b": nope, "c": 3}')).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Incremental JSON reading
+ * A streamed answer isn't valid JSON until its last token arrives, but the
+ * top-level fields already written out in full can be read long before that.
+ */
+
+/** Index just past the string starting at `start`, or -1 if it isn't closed yet */
+function endOfString(text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '"') return i + 1;
+  }
+  return -1;
+}
+
+/** Index just past the value starting at `start`, or -1 if it may not be complete */
+function endOfValue(text: string, start: number): number {
+  const first = text[start];
+  if (first === '"') return endOfString(text, start);
+
+  if (first === '{' || first === '[') {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '"') {
+        i = endOfString(text, i) - 1;
+        if (i < 0) return -1;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 0) return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  // Numbers and literals: "12" may still become "125", so wait for what follows
+  const match = text.slice(start).match(/^[^,}\]\s]+(?=[,}\]\s])/);
+  return match ? start + match[0].length : -1;
+}
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
+
+/**
+ * Top-level fields of a possibly unfinished JSON object whose values are
+ * complete. Anything before the opening brace (a markdown fence) is skipped;
+ * reading stops at the first thing that doesn't parse.
+ */
+export function completedFields(text: string): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const open = text.indexOf('{');
+  if (open === -1) return fields;
+
+  let i = open + 1;
+  for (;;) {
+    i = skipWhitespace(text, i);
+    if (text[i] === ',') i = skipWhitespace(text, i + 1);
+    if (text[i] !== '"') break;
+
+    const keyEnd = endOfString(text, i);
+    if (keyEnd === -1) break;
+    const colon = skipWhitespace(text, keyEnd);
+    if (text[colon] !== ':') break;
+    const valueStart = skipWhitespace(text, colon + 1);
+    const valueEnd = endOfValue(text, valueStart);
+    if (valueEnd === -1) break;
+
+    try {
+      fields[JSON.parse(text.slice(i, keyEnd))] = JSON.parse(text.slice(valueStart, valueEnd));
+    } catch {
+      break;
+    }
+    i = valueEnd;
+  }
+
+  return fields;
+}
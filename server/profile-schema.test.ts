@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test';
+import { validateProfile, repairProfileFields } from './profile-schema';
+
+/** An answer with every required field present and valid */
+function validAnswer(): Record<string, unknown> {
+  return {
+    likelyDeveloper: true,
+    developerScore: 80,
+    likelyGamer: false,
+    gamerScore: 10,
+    likelyDesigner: false,
+    designerScore: 5,
+    likelyPowerUser: true,
+    powerUserScore: 70,
+    privacyConscious: false,
+    privacyScore: 20,
+    deviceTier: 'high-end',
+    estimatedDeviceValue: '$2000',
+    deviceAge: 'recent',
+    humanScore: 95,
+    botIndicators: [],
+    likelyTechSavvy: true,
+    likelyMobile: false,
+    likelyWorkDevice: true,
+    likelyCountry: 'Germany',
+    inferredInterests: ['programming'],
+    fraudRiskScore: 3,
+    fraudIndicators: [],
+  };
+}
+
+describe('validateProfile', () => {
+  test('accepts a valid answer unchanged', () => {
+    const result = validateProfile(validAnswer());
+    expect(result?.usable).toBe(true);
+    expect(result?.repairs).toEqual([]);
+    expect(result?.profile).toEqual(validAnswer() as never);
+  });
+
+  test('rejects anything that is not an object', () => {
+    expect(validateProfile(null)).toBeNull();
+    expect(validateProfile([])).toBeNull();
+    expect(validateProfile('profile')).toBeNull();
+  });
+
+  test('maps enum synonyms to their allowed value', () => {
+    const result = validateProfile({
+      ...validAnswer(),
+      deviceTier: 'flagship',
+      incomeLevel: 'upper-middle',
+      educationLevel: "Bachelor's",
+      workStyle: 'WFH',
+      stressLevel: 'burned out',
+    });
+    expect(result?.profile).toMatchObject({
+      deviceTier: 'premium',
+      incomeLevel: 'high',
+      educationLevel: 'bachelors',
+      workStyle: 'remote',
+      stressLevel: 'burnout',
+    });
+    expect(result?.repairs).toContain('deviceTier: "flagship" is not one of budget, mid-range, high-end, premium - used premium');
+  });
+
+  test('normalizes case and separators before matching', () => {
+    const result = validateProfile({ ...validAnswer(), incomeLevel: 'Very High', sleepSchedule: 'night_owl' });
+    expect(result?.profile).toMatchObject({ incomeLevel: 'very-high', sleepSchedule: 'night-owl' });
+  });
+
+  test('reduces a value containing exactly one allowed word to it', () => {
+    const result = validateProfile({ ...validAnswer(), deviceTier: 'high-end gaming rig', coffeeOrTea: 'mostly coffee' });
+    expect(result?.profile).toMatchObject({ deviceTier: 'high-end', coffeeOrTea: 'coffee' });
+  });
+
+  test('drops a value containing several allowed words or only part of one', () => {
+    const result = validateProfile({ ...validAnswer(), stressLevel: 'low to high', coffeeOrTea: 'coffees' });
+    expect(result?.profile.stressLevel).toBeUndefined();
+    expect(result?.profile.coffeeOrTea).toBeUndefined();
+    expect(result?.repairs).toContain('stressLevel: "low to high" is not one of low, moderate, high, burnout - dropped');
+  });
+
+  test('defaults an unusable required enum and counts it', () => {
+    const result = validateProfile({ ...validAnswer(), deviceTier: 'budget or premium' });
+    expect(result?.profile.deviceTier).toBe('mid-range');
+    expect(result?.repairs).toContain('deviceTier: unusable - used "mid-range"');
+    expect(result?.usable).toBe(true);
+  });
+
+  test('stays usable with up to three required fields defaulted', () => {
+    const answer = validAnswer();
+    delete answer.likelyDeveloper;
+    delete answer.developerScore;
+    delete answer.likelyCountry;
+
+    const result = validateProfile(answer);
+    expect(result?.usable).toBe(true);
+    expect(result?.profile).toMatchObject({ likelyDeveloper: false, developerScore: 0, likelyCountry: 'Unknown' });
+  });
+
+  test('is unusable once a fourth required field is defaulted', () => {
+    const answer = validAnswer();
+    delete answer.likelyDeveloper;
+    delete answer.developerScore;
+    delete answer.likelyCountry;
+    answer.humanScore = 'very human';
+
+    const result = validateProfile(answer);
+    expect(result?.usable).toBe(false);
+    expect(result?.profile.humanScore).toBe(100);
+  });
+
+  test('does not count missing optional fields', () => {
+    const result = validateProfile({ ...validAnswer(), incomeLevel: 'not sure', petType: null });
+    expect(result?.usable).toBe(true);
+    expect(result?.profile.incomeLevel).toBeUndefined();
+    expect(result?.profile.petType).toBeNull();
+  });
+
+  test('reports unknown fields, including inherited property names, and drops them', () => {
+    const answer = JSON.parse('{"constructor": 1, "favoriteColor": "blue"}');
+    const result = validateProfile({ ...validAnswer(), ...answer });
+    expect(result?.repairs).toEqual(['constructor: unknown field - dropped', 'favoriteColor: unknown field - dropped']);
+    expect(Object.hasOwn(result!.profile, 'constructor')).toBe(false);
+  });
+
+  test('ignores fields only the server sets', () => {
+    const result = validateProfile({ ...validAnswer(), aiGenerated: true, model: 'gpt' });
+    expect(result?.profile.aiGenerated).toBeUndefined();
+    expect(result?.profile.model).toBeUndefined();
+  });
+});
+
+describe('repairProfileFields', () => {
+  test('repairs the fields present without defaulting the rest', () => {
+    expect(repairProfileFields({ deviceTier: 'flagship', developerScore: '150' })).toEqual({
+      deviceTier: 'premium',
+      developerScore: 100,
+    });
+  });
+
+  test('skips unknown and inherited keys', () => {
+    expect(repairProfileFields(JSON.parse('{"constructor": 1, "toString": "x", "likelyGamer": "yes"}'))).toEqual({
+      likelyGamer: true,
+    });
+  });
+});
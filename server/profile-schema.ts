@@ -0,0 +1,284 @@
+/**
+ * Runtime schema for AI-generated profiles
+ * Models answer with almost-right JSON: a score of 150, "upper-middle" for an
+ * enum, a paragraph where a phrase was asked for. Each field is repaired
+ * toward UserProfile instead of rejecting the whole answer, and every repair
+ * is reported - when too many required fields are unusable the answer is
+ * treated as failed and the list goes back to the model.
+ */
+
+import type { UserProfile } from '../src/types';
+
+/** Length limits for free-text fields */
+const MAX_SHORT = 100;
+const MAX_REASON = 300;
+const MAX_ITEM = 100;
+const MAX_ITEMS = 10;
+
+/** Required fields that may be defaulted before the answer counts as failed */
+const MAX_DEFAULTED = 3;
+
+interface RepairContext {
+  repairs: string[];
+  defaulted: number; // required fields that were missing or unusable
+}
+
+/** Returns the repaired value, or undefined to drop it (noting why if it was present) */
+type Repair = (value: unknown, path: string, ctx: RepairContext) => unknown;
+
+/** A repair for every key of T - adding a field to the type without one fails to compile */
+type Schema<T> = { [K in keyof T]-?: Repair };
+
+/** Outcome of validating a model's answer */
+export interface ProfileValidation {
+  profile: UserProfile;
+  repairs: string[]; // what was changed, in field order
+  usable: boolean; // false when so much was defaulted the answer should be regenerated
+}
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** 0-100 integer; numeric strings are accepted */
+const score: Repair = (value, path, ctx) => {
+  if (value === undefined || value === null) return undefined;
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) {
+    ctx.repairs.push(`${path}: expected a number 0-100, got ${describe(value)} - dropped`);
+    return undefined;
+  }
+  const clamped = Math.round(Math.min(100, Math.max(0, n)));
+  if (clamped !== value) ctx.repairs.push(`${path}: ${JSON.stringify(value)} is not an integer 0-100 - used ${clamped}`);
+  return clamped;
+};
+
+/** Boolean; "true"/"yes" and "false"/"no" strings are accepted */
+const bool: Repair = (value, path, ctx) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'boolean') return value;
+  const answer = String(value).trim().toLowerCase();
+  if (['true', 'yes', 'false', 'no'].includes(answer)) {
+    const coerced = answer === 'true' || answer === 'yes';
+    ctx.repairs.push(`${path}: ${JSON.stringify(value)} is not a boolean - used ${coerced}`);
+    return coerced;
+  }
+  ctx.repairs.push(`${path}: expected boolean, got ${describe(value)} - dropped`);
+  return undefined;
+};
+
+/** Trimmed, non-empty string cut to `max` characters; numbers are stringified */
+const text = (max: number): Repair => (value, path, ctx) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    ctx.repairs.push(`${path}: expected string, got ${describe(value)} - dropped`);
+    return undefined;
+  }
+  const trimmed = String(value).trim();
+  if (!trimmed) return undefined;
+  if (trimmed.length > max) {
+    ctx.repairs.push(`${path}: longer than ${max} characters - truncated`);
+    return `${trimmed.slice(0, max - 1)}…`;
+  }
+  return trimmed;
+};
+
+/** Like text, but an explicit null is kept (for "no pet" and the like) */
+const nullableText = (max: number): Repair => (value, path, ctx) =>
+  value === null ? null : text(max)(value, path, ctx);
+
+/**
+ * One of `allowed`. Case and separators are normalized ("Very High" is
+ * very-high), known synonyms are mapped, and a value containing exactly one
+ * allowed word ("high-end gaming rig") is reduced to it; anything else is dropped.
+ */
+const oneOf = (allowed: string[], aliases: Record<string, string> = {}): Repair => (value, path, ctx) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string' && allowed.includes(value)) return value;
+
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s_]+/g, '-') : '';
+  const contained = allowed.filter((option) => `-${normalized}-`.includes(`-${option}-`));
+  const coerced = allowed.includes(normalized)
+    ? normalized
+    : aliases[normalized] ?? (contained.length === 1 ? contained[0] : undefined);
+
+  if (coerced) {
+    ctx.repairs.push(`${path}: ${JSON.stringify(value)} is not one of ${allowed.join(', ')} - used ${coerced}`);
+  } else {
+    ctx.repairs.push(`${path}: ${JSON.stringify(value)} is not one of ${allowed.join(', ')} - dropped`);
+  }
+  return coerced;
+};
+
+/** List of short strings; a comma-separated string is split into one */
+const list: Repair = (value, path, ctx) => {
+  if (value === undefined || value === null) return undefined;
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if (typeof value === 'string') {
+    ctx.repairs.push(`${path}: expected a list, got a string - split on commas`);
+    items = value.split(',');
+  } else {
+    ctx.repairs.push(`${path}: expected a list, got ${describe(value)} - dropped`);
+    return undefined;
+  }
+
+  const repaired = items
+    .map((item, i) => text(MAX_ITEM)(item, `${path}[${i}]`, ctx))
+    .filter((item): item is string => item !== undefined);
+  if (repaired.length > MAX_ITEMS) {
+    ctx.repairs.push(`${path}: more than ${MAX_ITEMS} items - kept the first ${MAX_ITEMS}`);
+    return repaired.slice(0, MAX_ITEMS);
+  }
+  return repaired;
+};
+
+/** Set by the server, never taken from the model */
+const serverOnly: Repair = () => undefined;
+
+/** A field every profile has: missing or unusable values fall back to `fallback` */
+const required = (repair: Repair, fallback: unknown): Repair => (value, path, ctx) => {
+  const repaired = repair(value, path, ctx);
+  if (repaired !== undefined && repaired !== null) return repaired;
+  ctx.repairs.push(`${path}: ${value === undefined || value === null ? 'missing' : 'unusable'} - used ${JSON.stringify(fallback)}`);
+  ctx.defaulted++;
+  return fallback;
+};
+
+const reason = text(MAX_REASON);
+
+const profileSchema: Schema<UserProfile> = {
+  likelyDeveloper: required(bool, false),
+  developerScore: required(score, 0),
+  developerReason: reason,
+  likelyGamer: required(bool, false),
+  gamerScore: required(score, 0),
+  gamerReason: reason,
+  likelyDesigner: required(bool, false),
+  designerScore: required(score, 0),
+  designerReason: reason,
+  likelyPowerUser: required(bool, false),
+  powerUserScore: required(score, 0),
+  powerUserReason: reason,
+  privacyConscious: required(bool, false),
+  privacyScore: required(score, 0),
+  privacyReason: reason,
+
+  deviceTier: required(oneOf(['budget', 'mid-range', 'high-end', 'premium'], { mid: 'mid-range', midrange: 'mid-range', low: 'budget', 'low-end': 'budget', flagship: 'premium' }), 'mid-range'),
+  estimatedDeviceValue: required(text(MAX_SHORT), 'Unknown'),
+  deviceAge: required(oneOf(['new', 'recent', 'older', 'old']), 'recent'),
+
+  humanScore: required(score, 100),
+  botIndicators: required(list, []),
+
+  likelyTechSavvy: required(bool, false),
+  likelyMobile: required(bool, false),
+  likelyWorkDevice: required(bool, false),
+  likelyCountry: required(text(MAX_SHORT), 'Unknown'),
+
+  inferredInterests: required(list, []),
+
+  fraudRiskScore: required(score, 0),
+  fraudIndicators: required(list, []),
+
+  aiGenerated: serverOnly,
+  aiSource: serverOnly,
+  model: serverOnly,
+  promptVersion: serverOnly,
+  personalityTraits: list,
+  incomeLevel: oneOf(['low', 'medium', 'high', 'very-high'], {
+    'lower-middle': 'medium', middle: 'medium', 'middle-class': 'medium', 'upper-middle': 'high', upper: 'very-high', wealthy: 'very-high',
+  }),
+  ageRange: text(MAX_SHORT),
+  occupation: text(MAX_SHORT),
+
+  relationshipStatus: oneOf(['single', 'in-relationship', 'married', 'unknown'], { relationship: 'in-relationship', dating: 'in-relationship', engaged: 'in-relationship' }),
+  relationshipReason: reason,
+  educationLevel: oneOf(['high-school', 'some-college', 'bachelors', 'masters', 'phd', 'unknown'], {
+    "bachelor's": 'bachelors', bachelor: 'bachelors', "master's": 'masters', master: 'masters', doctorate: 'phd', college: 'some-college',
+  }),
+  educationReason: reason,
+  politicalLeaning: oneOf(['liberal', 'moderate', 'conservative', 'unknown'], { progressive: 'liberal', centrist: 'moderate', center: 'moderate' }),
+  politicalReason: reason,
+  lifeSituation: reason,
+  financialHealth: oneOf(['struggling', 'stable', 'comfortable', 'wealthy']),
+  financialReason: reason,
+  workStyle: oneOf(['remote', 'office', 'hybrid', 'freelance', 'unemployed', 'student'], { 'in-office': 'office', 'work-from-home': 'remote', wfh: 'remote' }),
+  workReason: reason,
+  sleepSchedule: oneOf(['early-bird', 'night-owl', 'irregular', 'normal'], { 'early-riser': 'early-bird', 'late-night': 'night-owl' }),
+  sleepReason: reason,
+  stressLevel: oneOf(['low', 'moderate', 'high', 'burnout'], { medium: 'moderate', 'burned-out': 'burnout' }),
+  stressReason: reason,
+  socialLife: oneOf(['introvert', 'ambivert', 'extrovert'], { introverted: 'introvert', extroverted: 'extrovert', extraverted: 'extrovert' }),
+  socialReason: reason,
+  likelyParent: bool,
+  parentReason: reason,
+  petOwner: bool,
+  petType: nullableText(MAX_SHORT),
+  homeowner: bool,
+  homeReason: reason,
+  carOwner: bool,
+  carType: nullableText(MAX_SHORT),
+  healthConscious: bool,
+  healthReason: reason,
+  dietaryPreference: nullableText(MAX_SHORT),
+  coffeeOrTea: oneOf(['coffee', 'tea', 'both', 'neither']),
+  drinksAlcohol: bool,
+  smokes: bool,
+  fitnessLevel: oneOf(['sedentary', 'light', 'moderate', 'athletic'], { active: 'moderate', 'very-active': 'athletic' }),
+  fitnessReason: reason,
+  lifeEvents: list,
+  shoppingHabits: oneOf(['frugal', 'moderate', 'spender', 'luxury']),
+  shoppingReason: reason,
+  brandPreference: list,
+  streamingServices: list,
+  musicTaste: list,
+  travelFrequency: oneOf(['rarely', 'occasionally', 'frequently', 'constant'], { never: 'rarely', often: 'frequently', sometimes: 'occasionally' }),
+  travelReason: reason,
+  creepyInsights: list,
+};
+
+/**
+ * Validate and repair a parsed model answer. Null when it isn't a JSON object at all.
+ */
+export function validateProfile(value: unknown): ProfileValidation | null {
+  if (!isPlainObject(value)) return null;
+  const ctx: RepairContext = { repairs: [], defaulted: 0 };
+
+  for (const key of Object.keys(value)) {
+    if (!Object.hasOwn(profileSchema, key)) ctx.repairs.push(`${key}: unknown field - dropped`);
+  }
+
+  const profile: Record<string, unknown> = {};
+  for (const [key, repair] of Object.entries(profileSchema) as [string, Repair][]) {
+    const repaired = repair(value[key], key, ctx);
+    if (repaired !== undefined) profile[key] = repaired;
+  }
+
+  return {
+    profile: profile as unknown as UserProfile,
+    repairs: ctx.repairs,
+    usable: ctx.defaulted <= MAX_DEFAULTED,
+  };
+}
+
+/**
+ * Repair the fields of an answer that is still streaming in. Nothing is
+ * defaulted or reported - the whole answer is validated once it's complete.
+ */
+export function repairProfileFields(fields: Record<string, unknown>): Partial<UserProfile> {
+  const ctx: RepairContext = { repairs: [], defaulted: 0 };
+  const profile: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (!Object.hasOwn(profileSchema, key)) continue;
+    const repair = (profileSchema as Record<string, Repair>)[key];
+    const repaired = repair(value, key, ctx);
+    if (repaired !== undefined) profile[key] = repaired;
+  }
+
+  return profile as Partial<UserProfile>;
+}
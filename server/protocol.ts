@@ -0,0 +1,406 @@
+/**
+ * WebSocket protocol handling
+ * Parses inbound messages and validates them at runtime against schemas that
+ * mirror src/types/index.ts, so third-party clients can't push arbitrary data
+ */
+
+import type {
+  ClientInfo,
+  BehaviorData,
+  AdvancedBehavior,
+  CollectorTelemetry,
+  ClientInfoPayload,
+  BehaviorUpdatePayload,
+  ResyncPayload,
+  VisitorDetailRequestPayload,
+  ProfileRequestPayload,
+  ErrorPayload,
+  ProtocolInfo,
+  WSMessage,
+  WSMessageType,
+} from '../src/types';
+import { PROTOCOL_VERSION, MIN_PROTOCOL_VERSION } from '../src/utils/protocol';
+
+/** Largest inbound message accepted, in bytes */
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+/** Validation issues reported back to the client */
+const MAX_REPORTED_ISSUES = 20;
+
+/** Default limits for strings and lists inside payloads */
+const MAX_STRING = 2000;
+const MAX_ITEMS = 500;
+
+/** Protocol description sent in the welcome message */
+export const PROTOCOL_INFO: ProtocolInfo = {
+  version: PROTOCOL_VERSION,
+  minVersion: MIN_PROTOCOL_VERSION,
+  maxMessageBytes: MAX_MESSAGE_BYTES,
+};
+
+/** Pushes a message for every problem found at `path` */
+type Validator = (value: unknown, path: string, issues: string[]) => void;
+
+/** A schema for every key of T - adding a field to the type without a validator fails to compile */
+type Shape<T> = { [K in keyof T]-?: Validator };
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const str = (max = MAX_STRING): Validator => (value, path, issues) => {
+  if (typeof value !== 'string') issues.push(`${path}: expected string, got ${describe(value)}`);
+  else if (value.length > max) issues.push(`${path}: longer than ${max} characters`);
+};
+
+const num: Validator = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push(`${path}: expected number, got ${describe(value)}`);
+  }
+};
+
+const bool: Validator = (value, path, issues) => {
+  if (typeof value !== 'boolean') issues.push(`${path}: expected boolean, got ${describe(value)}`);
+};
+
+const nullable = (inner: Validator): Validator => (value, path, issues) => {
+  if (value !== null) inner(value, path, issues);
+};
+
+const optional = (inner: Validator): Validator => (value, path, issues) => {
+  if (value !== undefined) inner(value, path, issues);
+};
+
+const oneOf = (...allowed: string[]): Validator => (value, path, issues) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push(`${path}: expected one of ${allowed.join(', ')}`);
+  }
+};
+
+const arrayOf = (item: Validator, maxItems = MAX_ITEMS): Validator => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected array, got ${describe(value)}`);
+    return;
+  }
+  if (value.length > maxItems) {
+    issues.push(`${path}: more than ${maxItems} items`);
+    return;
+  }
+  value.forEach((entry, i) => item(entry, `${path}[${i}]`, issues));
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const recordOf = (item: Validator, maxKeys = 100): Validator => (value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push(`${path}: expected object, got ${describe(value)}`);
+    return;
+  }
+  const entries = Object.entries(value);
+  if (entries.length > maxKeys) {
+    issues.push(`${path}: more than ${maxKeys} keys`);
+    return;
+  }
+  for (const [key, entry] of entries) item(entry, `${path}.${key}`, issues);
+};
+
+/** Objects whose inner structure we don't validate field by field, only their size */
+const opaqueObject = (maxKeys = 100): Validator => recordOf((value, path, issues) => {
+  if (typeof value === 'string' && value.length > MAX_STRING * 5) {
+    issues.push(`${path}: longer than ${MAX_STRING * 5} characters`);
+  }
+}, maxKeys);
+
+const shape = <T>(fields: Shape<T>): Validator => (value, path, issues) => {
+  if (!isPlainObject(value)) {
+    issues.push(`${path}: expected object, got ${describe(value)}`);
+    return;
+  }
+  for (const key of Object.keys(value)) {
+    if (!Object.hasOwn(fields, key)) issues.push(`${path}.${key}: unknown field`);
+  }
+  for (const [key, validate] of Object.entries(fields) as [string, Validator][]) {
+    validate(value[key], `${path}.${key}`, issues);
+  }
+};
+
+const behaviorSchema = shape<BehaviorData>({
+  mouseSpeed: num,
+  mouseAcceleration: num,
+  mouseMovements: num,
+  mouseDistanceTraveled: num,
+  mouseIdleTime: num,
+  clickCount: num,
+  avgClickInterval: num,
+  clickPositions: arrayOf(shape<{ x: number; y: number; time: number }>({ x: num, y: num, time: num }), 100),
+  scrollSpeed: num,
+  scrollDepthMax: num,
+  scrollDirectionChanges: num,
+  scrollEvents: num,
+  keyPressCount: num,
+  avgKeyHoldTime: num,
+  avgKeyInterval: num,
+  typingSpeed: num,
+  touchCount: num,
+  avgTouchPressure: num,
+  pinchZoomCount: num,
+  swipeCount: num,
+  tabSwitchCount: num,
+  totalFocusTime: num,
+  totalBlurTime: num,
+  pageLoadTime: num,
+  firstInteractionTime: num,
+  lastInteractionTime: num,
+  sessionDuration: num,
+});
+
+const advancedBehaviorSchema = shape<AdvancedBehavior>({
+  devToolsOpen: bool,
+  isIdle: bool,
+  idleTime: num,
+  afkCount: num,
+  textSelectCount: num,
+  lastSelectedText: str(),
+  copyCount: num,
+  pasteCount: num,
+  rageClickCount: num,
+  lastRageClickTime: num,
+  exitIntentCount: num,
+  mouseLeftWindow: bool,
+  likelyHandedness: oneOf('left', 'right', 'unknown'),
+  handednessConfidence: num,
+  estimatedReadingSpeed: num,
+  contentEngagement: num,
+  focusLossCount: num,
+  avgFocusDuration: num,
+  formInteractions: num,
+  formFieldsTyped: num,
+  formAbandoned: bool,
+  rightClickCount: num,
+  screenshotAttempts: num,
+  keyboardShortcutsUsed: arrayOf(str(100), 100),
+});
+
+const stringList = arrayOf(str(200));
+
+const clientInfoSchema = shape<ClientInfo>({
+  screenWidth: num,
+  screenHeight: num,
+  screenColorDepth: num,
+  devicePixelRatio: num,
+  screenOrientation: nullable(str(100)),
+  windowWidth: num,
+  windowHeight: num,
+  platform: str(200),
+  language: str(100),
+  languages: arrayOf(str(100), 50),
+  timezone: str(100),
+  timezoneOffset: num,
+  hardwareConcurrency: num,
+  deviceMemory: nullable(num),
+  deviceMemoryCapped: bool,
+  maxTouchPoints: num,
+  connectionType: nullable(str(50)),
+  connectionDownlink: nullable(num),
+  connectionRtt: nullable(num),
+  connectionSaveData: nullable(bool),
+  batteryLevel: nullable(num),
+  batteryCharging: nullable(bool),
+  webglVendor: nullable(str(500)),
+  webglRenderer: nullable(str(500)),
+  webglVersion: nullable(str(500)),
+  webglExtensions: num,
+  cookiesEnabled: bool,
+  localStorageEnabled: bool,
+  sessionStorageEnabled: bool,
+  indexedDBEnabled: bool,
+  doNotTrack: bool,
+  globalPrivacyControl: nullable(bool),
+  pdfViewerEnabled: bool,
+  canvasFingerprint: str(200),
+  audioFingerprint: str(200),
+  webglFingerprint: str(200),
+  fontsDetected: stringList,
+  mediaDevices: nullable(shape<NonNullable<ClientInfo['mediaDevices']>>({
+    audioinput: num,
+    videoinput: num,
+    audiooutput: num,
+  })),
+  speechVoicesCount: num,
+  speechVoicesHash: str(200),
+  storageQuota: nullable(shape<NonNullable<ClientInfo['storageQuota']>>({ usage: num, quota: num })),
+  permissions: recordOf(str(50), 50),
+  clientHints: nullable(shape<NonNullable<ClientInfo['clientHints']>>({
+    architecture: nullable(str(100)),
+    bitness: nullable(str(100)),
+    mobile: nullable(bool),
+    model: nullable(str(200)),
+    platformVersion: nullable(str(100)),
+    fullVersionList: nullable(str(1000)),
+  })),
+  webrtcLocalIPs: arrayOf(str(100), 50),
+  webrtcPublicIPs: arrayOf(str(100), 50),
+  webrtcSupported: bool,
+  adBlockerDetected: nullable(bool),
+  bluetoothSupported: bool,
+  usbSupported: bool,
+  midiSupported: bool,
+  gamepadsSupported: bool,
+  webGPUSupported: bool,
+  sharedArrayBufferSupported: bool,
+  prefersColorScheme: str(50),
+  prefersReducedMotion: bool,
+  prefersReducedTransparency: bool,
+  prefersContrast: str(50),
+  forcedColors: bool,
+  colorGamut: str(50),
+  hdrSupported: bool,
+  invertedColors: bool,
+  browserName: str(100),
+  browserVersion: str(100),
+  isIncognito: nullable(bool),
+  isAutomated: bool,
+  isHeadless: bool,
+  isVirtualMachine: nullable(bool),
+  historyLength: num,
+  videoCodecs: stringList,
+  audioCodecs: stringList,
+  drmSupported: shape<ClientInfo['drmSupported']>({ widevine: bool, fairplay: bool, playready: bool }),
+  mathFingerprint: str(200),
+  timingFingerprint: str(200),
+  performanceMemory: nullable(shape<NonNullable<ClientInfo['performanceMemory']>>({
+    jsHeapSizeLimit: num,
+    totalJSHeapSize: num,
+    usedJSHeapSize: num,
+  })),
+  sensors: shape<ClientInfo['sensors']>({
+    accelerometer: bool,
+    gyroscope: bool,
+    magnetometer: bool,
+    ambientLight: bool,
+    proximity: bool,
+    linearAcceleration: bool,
+    gravity: bool,
+    relativeOrientation: bool,
+    absoluteOrientation: bool,
+  }),
+  serviceWorkerSupported: bool,
+  webWorkerSupported: bool,
+  wasmSupported: bool,
+  webSocketSupported: bool,
+  webRTCSupported: bool,
+  notificationSupported: bool,
+  pushSupported: bool,
+  paymentRequestSupported: bool,
+  credentialsSupported: bool,
+  clipboardSupported: bool,
+  downlinkMax: nullable(num),
+  hardwareFamily: nullable(str(200)),
+  extensionsDetected: stringList,
+  errorFingerprint: str(200),
+  navigatorPropsCount: num,
+  windowPropsCount: num,
+  behavior: behaviorSchema,
+  installedApps: stringList,
+  socialLogins: shape<ClientInfo['socialLogins']>({
+    google: nullable(bool),
+    facebook: nullable(bool),
+    twitter: nullable(bool),
+    linkedin: nullable(bool),
+    github: nullable(bool),
+    reddit: nullable(bool),
+    amazon: nullable(bool),
+    microsoft: nullable(bool),
+  }),
+  cryptoWallets: stringList,
+  fingerprintId: str(200),
+  fingerprintConfidence: num,
+  crossBrowserId: str(200),
+  crossBrowserFactors: stringList,
+  advancedBehavior: advancedBehaviorSchema,
+  // The profile may come from the server, Chrome AI or the rule-based fallback
+  userProfile: opaqueObject(150),
+  wasmFingerprint: optional(opaqueObject()),
+  webgpuFingerprint: optional(opaqueObject()),
+  chromeAIStatus: optional(opaqueObject()),
+});
+
+const collectorTelemetrySchema = shape<CollectorTelemetry>({
+  id: str(64),
+  status: oneOf('ok', 'timeout', 'error', 'unsupported'),
+  durationMs: num,
+  timeoutMs: num,
+  error: optional(str(500)),
+});
+
+/** Payload schemas for messages clients are allowed to send */
+const INBOUND_SCHEMAS: Partial<Record<WSMessageType, Validator>> = {
+  client_info: shape<ClientInfoPayload>({
+    clientInfo: clientInfoSchema,
+    collectors: optional(arrayOf(collectorTelemetrySchema, 100)),
+  }),
+  behavior_update: shape<BehaviorUpdatePayload>({
+    behavior: behaviorSchema,
+    advancedBehavior: advancedBehaviorSchema,
+  }),
+  resync: shape<ResyncPayload>({ visitorId: str(100) }),
+  request_visitor_detail: shape<VisitorDetailRequestPayload>({ visitorId: str(100) }),
+  request_profile: shape<ProfileRequestPayload>({}),
+};
+
+/** Result of parsing one inbound message */
+export type ParseResult =
+  | { ok: true; message: WSMessage }
+  | { ok: false; error: ErrorPayload };
+
+function reject(code: ErrorPayload['code'], message: string, extra: Partial<ErrorPayload> = {}): ParseResult {
+  return { ok: false, error: { code, message, ...extra } };
+}
+
+/**
+ * Parse and validate a raw inbound WebSocket message
+ */
+export function parseInboundMessage(raw: string | Buffer): ParseResult {
+  const size = typeof raw === 'string' ? Buffer.byteLength(raw) : raw.byteLength;
+  if (size > MAX_MESSAGE_BYTES) {
+    return reject('message_too_large', `Message is ${size} bytes, limit is ${MAX_MESSAGE_BYTES}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.toString());
+  } catch {
+    return reject('invalid_json', 'Message is not valid JSON');
+  }
+
+  if (!isPlainObject(data) || typeof data.type !== 'string') {
+    return reject('invalid_message', 'Message must be an object with a string "type"');
+  }
+  const type = data.type;
+
+  const version = data.v ?? 1;
+  if (typeof version !== 'number' || version < MIN_PROTOCOL_VERSION || version > PROTOCOL_VERSION) {
+    return reject(
+      'unsupported_version',
+      `Protocol version ${String(version)} is not supported (server speaks ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`,
+      { requestType: type }
+    );
+  }
+
+  // Own keys only - "constructor" and friends must not resolve through the prototype
+  const schema = Object.hasOwn(INBOUND_SCHEMAS, type) ? INBOUND_SCHEMAS[type as WSMessageType] : undefined;
+  if (!schema) {
+    return reject('unknown_type', `Clients cannot send "${type}" messages`, { requestType: type });
+  }
+
+  const issues: string[] = [];
+  schema(data.payload, 'payload', issues);
+  if (issues.length > 0) {
+    return reject('invalid_payload', `Invalid ${type} payload`, {
+      requestType: type,
+      issues: issues.slice(0, MAX_REPORTED_ISSUES),
+    });
+  }
+
+  return { ok: true, message: { type: type as WSMessageType, payload: data.payload, v: version } };
+}
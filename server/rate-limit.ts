@@ -0,0 +1,136 @@
+/**
+ * Per-IP token-bucket rate limiting
+ * Each limit is a bucket that holds up to `capacity` tokens and refills at a
+ * steady rate; a request takes a token or is refused with how long to wait.
+ * Shared limits live in Redis (one atomic script per check) so every instance
+ * sees the same budget; without Redis each instance keeps its own buckets.
+ */
+
+import { getSharedClient } from './shared-visitors';
+
+interface RateLimitRule {
+  capacity: number; // burst size
+  refillPerSecond: number; // sustained rate
+  shared: boolean; // kept in Redis when available
+}
+
+/**
+ * Limits by name. WebSocket messages stay local - a socket lives on one
+ * instance, and a Redis round trip per message would cost more than it saves.
+ */
+const RATE_LIMITS = {
+  connect: { capacity: 10, refillPerSecond: 1 / 3, shared: true },
+  message: { capacity: 20, refillPerSecond: 10, shared: false },
+  profile: { capacity: 5, refillPerSecond: 1 / 12, shared: true },
+  auction: { capacity: 5, refillPerSecond: 1 / 12, shared: true },
+  api: { capacity: 60, refillPerSecond: 2, shared: true },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+/** Most simultaneous WebSocket connections from one IP (per instance) */
+export const MAX_CONNECTIONS_PER_IP = 20;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // seconds until a token is available (0 if allowed)
+}
+
+const KEY_PREFIX = 'yourinfo:ratelimit:';
+
+/** Max local buckets kept (oldest are evicted first) */
+const MAX_LOCAL_BUCKETS = 50000;
+
+/**
+ * Refill, then take one token. Uses Redis time so instances with skewed clocks agree.
+ * Returns {allowed, ms until the next token}.
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * refill)
+local allowed = 0
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  wait = math.ceil((1 - tokens) / refill)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill))
+return {allowed, wait}
+`;
+
+/** Local buckets: key -> tokens left and when they were last refilled */
+const localBuckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+// Drop buckets that have refilled completely every 5 minutes
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, bucket] of localBuckets) {
+    const rule = RATE_LIMITS[key.slice(0, key.indexOf(':')) as RateLimitName];
+    if (!rule || bucket.tokens + ((now - bucket.updatedAt) / 1000) * rule.refillPerSecond >= rule.capacity) {
+      localBuckets.delete(key);
+    }
+  }
+}, 5 * 60 * 1000);
+
+function toResult(allowed: boolean, waitMs: number): RateLimitResult {
+  return { allowed, retryAfter: allowed ? 0 : Math.max(1, Math.ceil(waitMs / 1000)) };
+}
+
+function consumeLocal(key: string, rule: RateLimitRule): RateLimitResult {
+  const now = Date.now();
+  const bucket = localBuckets.get(key);
+  let tokens = rule.capacity;
+  if (bucket) {
+    tokens = Math.min(rule.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rule.refillPerSecond);
+    localBuckets.delete(key);
+  } else if (localBuckets.size >= MAX_LOCAL_BUCKETS) {
+    const oldest = localBuckets.keys().next().value;
+    if (oldest !== undefined) localBuckets.delete(oldest);
+  }
+
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+  // Re-insert so the Map stays ordered by last use
+  localBuckets.set(key, { tokens, updatedAt: now });
+  return toResult(allowed, allowed ? 0 : ((1 - tokens) / rule.refillPerSecond) * 1000);
+}
+
+/**
+ * Take a token from this IP's bucket for a limit. `scope` splits one limit
+ * into separate buckets (e.g. one per API route).
+ */
+export async function consumeToken(name: RateLimitName, ip: string, scope = ''): Promise<RateLimitResult> {
+  const rule: RateLimitRule = RATE_LIMITS[name];
+  const key = `${name}:${scope ? scope + ':' : ''}${ip}`;
+
+  const client = rule.shared ? getSharedClient() : null;
+  if (client) {
+    try {
+      const [allowed, waitMs] = (await client.eval(TOKEN_BUCKET_SCRIPT, {
+        keys: [KEY_PREFIX + key],
+        arguments: [String(rule.capacity), String(rule.refillPerSecond / 1000)],
+      })) as [number, number];
+      return toResult(allowed === 1, waitMs);
+    } catch (err) {
+      console.error('Shared rate limit check failed, using local bucket:', err);
+    }
+  }
+
+  return consumeLocal(key, rule);
+}
+
+/**
+ * Take a token from a local-only limit without waiting (for hot paths like WebSocket messages)
+ */
+export function consumeLocalToken(name: RateLimitName, ip: string): RateLimitResult {
+  return consumeLocal(`${name}:${ip}`, RATE_LIMITS[name]);
+}
@@ -0,0 +1,97 @@
+/**
+ * Resumable visitor sessions
+ * Every welcome carries a resume token. When a socket drops, the visitor is
+ * parked under that token for a grace window, and a client reconnecting with
+ * it gets the same VisitorInfo back instead of becoming a new visitor.
+ * Parked sessions live in Redis when connected so any instance can resume them.
+ */
+
+import type { VisitorInfo } from '../src/types';
+import { storeSharedSession, claimSharedSession, deleteSharedSession } from './shared-visitors';
+
+/** How long a dropped visitor can come back before it counts as having left (ms) */
+export const RESUME_GRACE_MS = (() => {
+  const value = parseInt(process.env.RESUME_GRACE_MS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : 30000;
+})();
+
+/** Resume tokens are 32 random bytes, hex encoded */
+const TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+/** Sessions parked on this instance (used when Redis is unavailable) */
+const parkedSessions = new Map<string, VisitorInfo>();
+
+/** Parks still being written - a client reconnecting that fast waits for them */
+const parking = new Map<string, Promise<void>>();
+
+/**
+ * 32 random bytes, hex encoded
+ */
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Mint a new unguessable resume token
+ */
+export function issueResumeToken(): string {
+  return randomToken();
+}
+
+/**
+ * Mint the bearer token for a connection's own /api reports. It is separate
+ * from the resume token so a leaked one can't also take over the session.
+ */
+export function issueApiToken(): string {
+  return randomToken();
+}
+
+/**
+ * Park a disconnected visitor until it resumes or the grace window ends.
+ * The Redis copy outlives the window so it is still there when the owning
+ * instance expires it - if that instance dies, Redis cleans up on its own.
+ */
+export async function parkSession(token: string, visitor: VisitorInfo): Promise<void> {
+  const parked = storeSharedSession(token, visitor, RESUME_GRACE_MS * 2).then((stored) => {
+    if (!stored) {
+      parkedSessions.set(token, visitor);
+    }
+  });
+  parking.set(token, parked);
+  try {
+    await parked;
+  } finally {
+    parking.delete(token);
+  }
+}
+
+/**
+ * Resume a parked session. Returns null for unknown, expired or already claimed tokens.
+ */
+export async function claimSession(token: string): Promise<VisitorInfo | null> {
+  if (!TOKEN_PATTERN.test(token)) return null;
+  await parking.get(token);
+
+  const local = parkedSessions.get(token);
+  if (local) {
+    parkedSessions.delete(token);
+    return local;
+  }
+  return claimSharedSession(token);
+}
+
+/**
+ * End a session's grace window. Returns false only if it was resumed in the
+ * meantime; true if it was still parked (the visitor has really left) or
+ * Redis couldn't say - a visitor that did resume elsewhere is re-published
+ * by its new instance, while one kept on a guess would never leave.
+ */
+export async function expireSession(token: string): Promise<boolean> {
+  if (parkedSessions.delete(token)) return true;
+  const deleted = await deleteSharedSession(token);
+  if (deleted === null) {
+    console.warn('Could not check whether a parked session was resumed - treating it as left');
+  }
+  return deleted !== false;
+}
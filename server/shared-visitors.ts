@@ -10,6 +10,7 @@ const INSTANCE_ID = `instance_${process.env.PORT || '3020'}_${Date.now().toStrin
 const VISITORS_KEY = 'yourinfo:visitors';
 const VISITOR_CHANNEL = 'yourinfo:visitor_events';
 const VISITOR_TTL = 300; // 5 minutes TTL for visitor data
+const SESSION_KEY_PREFIX = 'yourinfo:session:';
 
 let pubClient: RedisClientType | null = null;
 let subClient: RedisClientType | null = null;
@@ -143,6 +144,51 @@ export async function publishVisitorUpdated(visitor: VisitorInfo): Promise<void>
   }
 }
 
+/**
+ * Park a disconnected visitor's session under its resume token
+ */
+export async function storeSharedSession(token: string, visitor: VisitorInfo, ttlMs: number): Promise<boolean> {
+  if (!pubClient || !isConnected) return false;
+
+  try {
+    await pubClient.pSetEx(SESSION_KEY_PREFIX + token, ttlMs, JSON.stringify(visitor));
+    return true;
+  } catch (err) {
+    console.error('Failed to store session:', err);
+    return false;
+  }
+}
+
+/**
+ * Take a parked session (atomically, so only one instance can resume it)
+ */
+export async function claimSharedSession(token: string): Promise<VisitorInfo | null> {
+  if (!pubClient || !isConnected) return null;
+
+  try {
+    const stored = await pubClient.getDel(SESSION_KEY_PREFIX + token);
+    return stored ? JSON.parse(stored) : null;
+  } catch (err) {
+    console.error('Failed to claim session:', err);
+    return null;
+  }
+}
+
+/**
+ * Delete a parked session. Returns false if it was already claimed or gone,
+ * null if Redis couldn't be asked.
+ */
+export async function deleteSharedSession(token: string): Promise<boolean | null> {
+  if (!pubClient || !isConnected) return null;
+
+  try {
+    return (await pubClient.del(SESSION_KEY_PREFIX + token)) > 0;
+  } catch (err) {
+    console.error('Failed to delete session:', err);
+    return null;
+  }
+}
+
 /**
  * Get all visitors from Redis (from all instances)
  */
@@ -172,6 +218,13 @@ export async function getSharedOnlineCount(): Promise<number> {
   }
 }
 
+/**
+ * The command connection, for other shared state such as rate limits (null without Redis)
+ */
+export function getSharedClient(): RedisClientType | null {
+  return pubClient && isConnected ? pubClient : null;
+}
+
 /**
  * Check if shared visitors is connected
  */
@@ -0,0 +1,239 @@
+/**
+ * Fingerprint stability tracking
+ * Keeps a per-device history of fingerprint components (keyed by the
+ * server-issued device id) so we can see which components drift between
+ * visits and show returning visitors what changed since last time
+ */
+
+import type {
+  ClientInfo,
+  ComponentChange,
+  ComponentStability,
+  DriftEvent,
+  StabilityReport,
+  StabilityOverview,
+} from '../src/types';
+import { STABLE_COLLECTOR_KEYS } from '../src/utils/collectors';
+
+/** Visits kept per device (oldest are dropped first) */
+const MAX_VISITS_PER_DEVICE = 50;
+
+/** Max devices tracked (least recently seen are evicted first) */
+const MAX_DEVICES = 20000;
+
+/** Drift events returned in a report */
+const MAX_REPORTED_DRIFT_EVENTS = 10;
+
+/**
+ * Components compared between visits: fingerprintId plus every key filled by a
+ * collector declared stable
+ */
+const COMPARED_COMPONENTS: readonly (keyof ClientInfo)[] = ['fingerprintId', ...STABLE_COLLECTOR_KEYS];
+
+/** Components whose raw value needs normalising before comparison */
+const COMPONENT_NORMALIZERS: Partial<Record<keyof ClientInfo, (c: ClientInfo) => unknown>> = {
+  fontsDetected: (c) => [...c.fontsDetected].sort().join(','),
+  wasmFingerprint: (c) => c.wasmFingerprint?.fingerprintHash ?? null,
+  webgpuFingerprint: (c) => c.webgpuFingerprint?.fingerprintHash ?? null,
+};
+
+/** One recorded visit */
+interface Visit {
+  visitorId: string;
+  timestamp: number;
+  browserName: string;
+  components: Record<string, string>;
+}
+
+/** Device id -> visits, oldest first */
+const histories = new Map<string, Visit[]>();
+
+/**
+ * String form of a component value; arrays and objects compare by their JSON
+ */
+function componentValue(value: unknown): string {
+  if (value === null || value === undefined) return 'N/A';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Turn a ClientInfo into its component vector
+ */
+function extractComponents(clientInfo: ClientInfo): Record<string, string> {
+  const components: Record<string, string> = {};
+  for (const component of COMPARED_COMPONENTS) {
+    try {
+      const normalize = COMPONENT_NORMALIZERS[component];
+      const value = normalize ? normalize(clientInfo) : clientInfo[component];
+      components[component] = componentValue(value);
+    } catch {
+      components[component] = 'N/A';
+    }
+  }
+  return components;
+}
+
+/**
+ * Components that differ between two visits
+ */
+function diffVisits(previous: Visit, current: Visit): ComponentChange[] {
+  const changes: ComponentChange[] = [];
+  for (const [component, value] of Object.entries(current.components)) {
+    const before = previous.components[component];
+    if (before !== undefined && before !== value) {
+      changes.push({
+        component: component as keyof ClientInfo,
+        previous: before,
+        current: value,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Per-component stability across consecutive visit pairs
+ */
+function computeStability(visits: Visit[]): ComponentStability[] {
+  const changeCounts = new Map<string, number>();
+  const pairCounts = new Map<string, number>();
+
+  for (let i = 1; i < visits.length; i++) {
+    for (const [component, value] of Object.entries(visits[i].components)) {
+      const before = visits[i - 1].components[component];
+      if (before === undefined) continue;
+      pairCounts.set(component, (pairCounts.get(component) || 0) + 1);
+      if (before !== value) {
+        changeCounts.set(component, (changeCounts.get(component) || 0) + 1);
+      }
+    }
+  }
+
+  return Array.from(pairCounts.entries())
+    .map(([component, comparisons]) => {
+      const changes = changeCounts.get(component) || 0;
+      return {
+        component: component as keyof ClientInfo,
+        comparisons,
+        changes,
+        stability: 1 - changes / comparisons,
+      };
+    })
+    .sort((a, b) => a.stability - b.stability);
+}
+
+/**
+ * Record a visit. Repeat reports within the same connection update that visit.
+ */
+export function recordVisit(visitorId: string, deviceId: string, clientInfo: ClientInfo): void {
+  const visit: Visit = {
+    visitorId,
+    timestamp: Date.now(),
+    browserName: clientInfo.browserName,
+    components: extractComponents(clientInfo),
+  };
+
+  let visits = histories.get(deviceId);
+  if (visits) {
+    // Re-insert so the Map stays ordered by last seen
+    histories.delete(deviceId);
+  } else {
+    visits = [];
+    if (histories.size >= MAX_DEVICES) {
+      const oldest = histories.keys().next().value;
+      if (oldest !== undefined) histories.delete(oldest);
+    }
+  }
+
+  const last = visits[visits.length - 1];
+  if (last && last.visitorId === visitorId) {
+    visit.timestamp = last.timestamp;
+    visits[visits.length - 1] = visit;
+  } else {
+    visits.push(visit);
+    if (visits.length > MAX_VISITS_PER_DEVICE) {
+      visits.shift();
+    }
+  }
+
+  histories.set(deviceId, visits);
+}
+
+/**
+ * Stability report for a device, from the point of view of one visit
+ */
+export function getStabilityReport(visitorId: string, deviceId: string): StabilityReport | null {
+  const visits = histories.get(deviceId);
+  if (!visits || visits.length === 0) return null;
+
+  const driftEvents: DriftEvent[] = [];
+  for (let i = 1; i < visits.length; i++) {
+    const changes = diffVisits(visits[i - 1], visits[i]);
+    if (changes.length > 0) {
+      driftEvents.push({
+        timestamp: visits[i].timestamp,
+        visitorId: visits[i].visitorId,
+        fingerprintIdChanged: changes.some((c) => c.component === 'fingerprintId'),
+        changes,
+      });
+    }
+  }
+
+  // "Since last time" compares this visit with the one before it
+  const index = visits.findIndex((v) => v.visitorId === visitorId);
+  const current = index >= 0 ? index : visits.length - 1;
+  const previous = current > 0 ? visits[current - 1] : null;
+
+  return {
+    visitorId,
+    visits: visits.length,
+    firstSeen: visits[0].timestamp,
+    lastSeen: visits[visits.length - 1].timestamp,
+    components: computeStability(visits),
+    driftEvents: driftEvents.slice(-MAX_REPORTED_DRIFT_EVENTS).reverse(),
+    sinceLastVisit: previous
+      ? { previousVisit: previous.timestamp, changes: diffVisits(previous, visits[current]) }
+      : null,
+  };
+}
+
+/**
+ * Component stability across all tracked devices, grouped by browser family
+ */
+export function getStabilityOverview(): StabilityOverview {
+  const byBrowser = new Map<string, Visit[][]>();
+  for (const visits of histories.values()) {
+    if (visits.length < 2) continue;
+    const family = visits[visits.length - 1].browserName || 'Unknown';
+    const list = byBrowser.get(family) || [];
+    list.push(visits);
+    byBrowser.set(family, list);
+  }
+
+  const browsers: StabilityOverview['browsers'] = {};
+  for (const [family, devices] of byBrowser) {
+    const totals = new Map<string, { comparisons: number; changes: number }>();
+    for (const visits of devices) {
+      for (const entry of computeStability(visits)) {
+        const total = totals.get(entry.component) || { comparisons: 0, changes: 0 };
+        total.comparisons += entry.comparisons;
+        total.changes += entry.changes;
+        totals.set(entry.component, total);
+      }
+    }
+
+    browsers[family] = {
+      devices: devices.length,
+      components: Array.from(totals.entries())
+        .map(([component, total]) => ({
+          component: component as keyof ClientInfo,
+          comparisons: total.comparisons,
+          changes: total.changes,
+          stability: 1 - total.changes / total.comparisons,
+        }))
+        .sort((a, b) => a.stability - b.stability),
+    };
+  }
+
+  return { generatedAt: Date.now(), browsers };
+}
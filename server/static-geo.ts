@@ -0,0 +1,178 @@
+/**
+ * Static range geolocation provider
+ * Reads IP ranges from a JSON or CSV file, for tests and air-gapped
+ * deployments without MaxMind. Each range is a `network` CIDR or a
+ * `start`/`end` address pair plus any GeoLocation fields; fields left out
+ * fall back to "Unknown". CSV files need a header row with those names.
+ * Lookups scan the ranges narrowest first, which is fine for the small
+ * files this is meant for.
+ *
+ * JSON: [{ "network": "203.0.113.0/24", "city": "Testville", "countryCode": "XX", ... }]
+ * CSV:  network,city,country,countryCode,lat,lng
+ *       203.0.113.0/24,Testville,Testland,XX,10.5,20.25
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import type { ConnectionKind, GeoLocation } from '../src/types';
+import type { GeoProvider } from './geo-provider';
+import { parseCIDR, parseIP, type ParsedIP } from './ip';
+import { classifyConnection } from './asn';
+
+/** A range and the location it maps to */
+interface StaticRange {
+  version: 4 | 6;
+  start: bigint;
+  end: bigint;
+  geo: GeoLocation;
+}
+
+const CONNECTION_KINDS: ConnectionKind[] = ['residential', 'hosting', 'mobile', 'education'];
+
+/** Split one CSV line, honouring double-quoted fields */
+function parseCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function parseCSV(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.startsWith('#'));
+  const [header, ...rows] = lines;
+  if (!header) return [];
+  const columns = parseCSVLine(header).map((c) => c.trim());
+  return rows.map((row) => {
+    const values = parseCSVLine(row);
+    return Object.fromEntries(columns.map((column, i) => [column, values[i]?.trim() ?? '']));
+  });
+}
+
+/** Build a range from one record, or the reason it is unusable */
+function toRange(record: Record<string, unknown>): StaticRange | string {
+  const text = (key: string): string | null => {
+    const value = record[key];
+    return value === undefined || value === null || value === '' ? null : String(value);
+  };
+  const number = (key: string): number | null => {
+    const value = Number(text(key) ?? NaN);
+    return Number.isFinite(value) ? value : null;
+  };
+
+  let version: 4 | 6;
+  let start: bigint;
+  let end: bigint;
+  const network = text('network');
+  if (network) {
+    const cidr = parseCIDR(network);
+    if (!cidr) return `invalid network ${network}`;
+    const bits = cidr.version === 4 ? 32 : 128;
+    version = cidr.version;
+    start = cidr.base;
+    end = cidr.base + (1n << BigInt(bits - cidr.prefix)) - 1n;
+  } else {
+    const first = parseIP(text('start') ?? '');
+    const last = parseIP(text('end') ?? '');
+    if (!first || !last || first.version !== last.version || first.value > last.value) {
+      return 'needs a network or a valid start/end pair';
+    }
+    version = first.version;
+    start = first.value;
+    end = last.value;
+  }
+
+  const asn = number('asn');
+  const asnOrg = text('asnOrg');
+  const kind = text('connectionKind') as ConnectionKind | null;
+  return {
+    version,
+    start,
+    end,
+    geo: {
+      lat: number('lat') ?? 0,
+      lng: number('lng') ?? 0,
+      city: text('city') ?? 'Unknown',
+      region: text('region') ?? 'Unknown',
+      country: text('country') ?? 'Unknown',
+      countryCode: text('countryCode') ?? 'XX',
+      timezone: text('timezone') ?? 'UTC',
+      isp: text('isp') ?? asnOrg ?? 'Unknown',
+      org: text('org') ?? asnOrg ?? 'Unknown',
+      as: text('as') ?? asnOrg ?? 'Unknown',
+      asn,
+      asnOrg,
+      connectionKind: kind && CONNECTION_KINDS.includes(kind)
+        ? kind
+        : asn !== null ? classifyConnection(asn, asnOrg ?? '') : null,
+    },
+  };
+}
+
+function loadRanges(path: string): StaticRange[] {
+  if (!existsSync(path)) {
+    console.warn(`Static geo file not found: ${path}`);
+    return [];
+  }
+
+  try {
+    const text = readFileSync(path, 'utf8');
+    const records: Record<string, unknown>[] = path.endsWith('.csv') ? parseCSV(text) : JSON.parse(text);
+    if (!Array.isArray(records)) throw new Error('expected an array of ranges');
+
+    const ranges: StaticRange[] = [];
+    records.forEach((record, i) => {
+      const range = toRange(record);
+      if (typeof range === 'string') {
+        console.warn(`Skipping static geo range ${i + 1}: ${range}`);
+      } else {
+        ranges.push(range);
+      }
+    });
+    // Narrowest first so a specific range overrides a broad one
+    ranges.sort((a, b) => (a.end - a.start < b.end - b.start ? -1 : a.end - a.start > b.end - b.start ? 1 : 0));
+    console.log(`Loaded ${ranges.length} static geo ranges from ${path}`);
+    return ranges;
+  } catch (error) {
+    console.error(`Failed to load static geo file ${path}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Provider backed by a JSON or CSV range file (read once at startup)
+ */
+export function createStaticGeoProvider(path: string): GeoProvider {
+  const ranges = loadRanges(path);
+  const contains = (range: StaticRange, ip: ParsedIP) =>
+    range.version === ip.version && ip.value >= range.start && ip.value <= range.end;
+
+  return {
+    name: 'static',
+    async lookup(ip: string): Promise<GeoLocation | null> {
+      const parsed = parseIP(ip);
+      if (!parsed) return null;
+      const range = ranges.find((r) => contains(r, parsed));
+      return range ? { ...range.geo } : null;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Minimal User-Agent parsing
+ * Just enough to say which engine and OS a request claims to come from, so
+ * that claim can be checked against what else the browser sends.
+ */
+
+export type BrowserEngine = 'blink' | 'gecko' | 'webkit' | 'unknown';
+
+/** What a User-Agent string claims */
+export interface UserAgentClaims {
+  browser: string; // 'Chrome', 'Edge', 'Opera', 'Firefox', 'Safari' or 'Unknown'
+  majorVersion: number | null;
+  engine: BrowserEngine;
+  os: string; // 'Windows', 'macOS', 'Linux', 'Android', 'iOS', 'Chrome OS' or 'Unknown'
+  mobile: boolean;
+}
+
+/** Browsers by UA token, checked in order (Edge and Opera also say Chrome) */
+const BROWSERS: Array<[RegExp, string, BrowserEngine]> = [
+  [/\bEdg(?:e|A|iOS)?\/(\d+)/, 'Edge', 'blink'],
+  [/\bOPR\/(\d+)/, 'Opera', 'blink'],
+  [/\bCriOS\/(\d+)/, 'Chrome', 'webkit'],
+  [/\bFxiOS\/(\d+)/, 'Firefox', 'webkit'],
+  [/\bFirefox\/(\d+)/, 'Firefox', 'gecko'],
+  [/\bChrome\/(\d+)/, 'Chrome', 'blink'],
+  [/\bVersion\/(\d+).*Safari\//, 'Safari', 'webkit'],
+];
+
+/** Operating systems by UA token, checked in order (Android also says Linux) */
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/\b(iPhone|iPad|iPod)\b/, 'iOS'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bCrOS\b/, 'Chrome OS'],
+  [/\bWindows\b/, 'Windows'],
+  [/\bMac OS X\b|\bMacintosh\b/, 'macOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+/**
+ * Read the browser, engine and OS a User-Agent claims
+ */
+export function parseUserAgent(ua: string): UserAgentClaims {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(ua));
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Unknown';
+  // iOS browsers run on WebKit whatever they are called
+  const engine = os === 'iOS' ? 'webkit' : browser?.[2] ?? 'unknown';
+  return {
+    browser: browser?.[1] ?? 'Unknown',
+    majorVersion: browser ? Number(ua.match(browser[0])?.[1]) : null,
+    engine,
+    os,
+    mobile: /\bMobile\b/.test(ua),
+  };
+}
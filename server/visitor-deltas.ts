@@ -0,0 +1,112 @@
+/**
+ * Visitor update deltas
+ * Keeps the last snapshot sent for each visitor so visitor_updated can carry
+ * a JSON patch instead of the whole document, numbered per visitor so
+ * clients can detect missed updates and ask for a resync.
+ * The owner and everyone else see different documents, so each audience has
+ * its own sequence and only gets a message when its document changed.
+ */
+
+import type { VisitorInfo, PublicVisitorSummary, VisitorUpdatedPayload, JsonPatchOp } from '../src/types';
+import { diffJson } from '../src/utils/jsonPatch';
+
+/** Last state sent for a visitor, per audience */
+interface Snapshot {
+  summarySeq: number;
+  summary: PublicVisitorSummary; // what other visitors have
+  fullSeq: number;
+  full: VisitorInfo | null; // what the owner has (local visitors only)
+}
+
+/** Snapshots are copies - VisitorInfo objects are mutated in place elsewhere */
+const snapshots = new Map<string, Snapshot>();
+
+/**
+ * The patch (null if there's no previous snapshot), or the full document when that is smaller
+ */
+function buildPayload<K extends 'visitor' | 'summary'>(
+  key: K,
+  seq: number,
+  patch: JsonPatchOp[] | null,
+  next: NonNullable<VisitorUpdatedPayload[K]>
+): VisitorUpdatedPayload {
+  if (patch && JSON.stringify(patch).length < JSON.stringify(next).length) {
+    return { visitorId: next.id, seq, patch };
+  }
+  return { visitorId: next.id, seq, [key]: next };
+}
+
+/**
+ * Start tracking a visitor that just joined. Returns its starting seq.
+ */
+export function trackVisitor(summary: PublicVisitorSummary, full: VisitorInfo | null = null): number {
+  snapshots.set(summary.id, {
+    summarySeq: 0,
+    summary: structuredClone(summary),
+    fullSeq: 0,
+    full: full ? structuredClone(full) : null,
+  });
+  return 0;
+}
+
+/**
+ * Record a new state for a visitor and build the update for each audience.
+ * `full` is only passed when the owner should get an update (local visitors only).
+ * An audience whose document didn't change gets null and keeps its seq.
+ */
+export function nextVisitorUpdate(
+  summary: PublicVisitorSummary,
+  full: VisitorInfo | null = null
+): { summary: VisitorUpdatedPayload | null; full: VisitorUpdatedPayload | null } {
+  const previous = snapshots.get(summary.id);
+  const snapshot: Snapshot = previous ?? { summarySeq: 0, summary, fullSeq: 0, full: null };
+  const result: { summary: VisitorUpdatedPayload | null; full: VisitorUpdatedPayload | null } = {
+    summary: null,
+    full: null,
+  };
+
+  const summaryPatch = previous ? diffJson(previous.summary, summary) : null;
+  if (!summaryPatch || summaryPatch.length > 0) {
+    snapshot.summarySeq++;
+    result.summary = buildPayload('summary', snapshot.summarySeq, summaryPatch, summary);
+    snapshot.summary = structuredClone(summary);
+  }
+
+  const fullPatch = full && snapshot.full ? diffJson(snapshot.full, full) : null;
+  if (full && (!fullPatch || fullPatch.length > 0)) {
+    snapshot.fullSeq++;
+    result.full = buildPayload('visitor', snapshot.fullSeq, fullPatch, full);
+    snapshot.full = structuredClone(full);
+  }
+
+  snapshots.set(summary.id, snapshot);
+  return result;
+}
+
+/**
+ * Current seq of a visitor's stream for one audience (0 if nothing was sent yet)
+ */
+export function getVisitorSeq(visitorId: string, isOwner: boolean): number {
+  const snapshot = snapshots.get(visitorId);
+  if (!snapshot) return 0;
+  return isOwner ? snapshot.fullSeq : snapshot.summarySeq;
+}
+
+/**
+ * Full update for a client that missed a delta
+ */
+export function getResyncPayload(visitorId: string, isOwner: boolean): VisitorUpdatedPayload | null {
+  const snapshot = snapshots.get(visitorId);
+  if (!snapshot) return null;
+  if (isOwner && snapshot.full) {
+    return { visitorId, seq: snapshot.fullSeq, visitor: snapshot.full };
+  }
+  return { visitorId, seq: snapshot.summarySeq, summary: snapshot.summary };
+}
+
+/**
+ * Stop tracking a visitor that left
+ */
+export function untrackVisitor(visitorId: string): void {
+  snapshots.delete(visitorId);
+}
@@ -3,39 +3,68 @@
  * Main application component
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import { Globe } from './components/Globe';
 import { InfoPanel } from './components/InfoPanel';
 import { AdAuction } from './components/AdAuction';
 import { useWebSocket } from './hooks/useWebSocket';
-import type { VisitorInfo } from './types';
+import type { PublicVisitorSummary } from './types';
 import './App.css';
 
 export default function App() {
-  const { connected, visitors, currentVisitor, aiLoading, aiCreditsExhausted, totalUniqueVisitors } = useWebSocket();
+  const { connected, reconnectState, reconnect, visitors, currentVisitor, visitorDetail, requestVisitorDetail, aiLoading, aiCreditsExhausted, totalUniqueVisitors, streamedProfile, entropy, stability, identityMatch, consistency } = useWebSocket();
   const [selectedVisitorId, setSelectedVisitorId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
 
-  // Get the selected visitor from the visitors array (always up-to-date)
+  // Tick once a second while waiting to reconnect so the countdown stays current
+  useEffect(() => {
+    if (reconnectState.status !== 'waiting') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [reconnectState.status]);
+
+  // Fields of the AI profile fill in as the server streams them, before our client info round-trips
+  const shownCurrentVisitor = useMemo(() => {
+    if (!streamedProfile || !currentVisitor?.client) return currentVisitor;
+    return {
+      ...currentVisitor,
+      client: {
+        ...currentVisitor.client,
+        userProfile: { ...currentVisitor.client.userProfile, ...streamedProfile },
+      },
+    };
+  }, [currentVisitor, streamedProfile]);
+
+  // Other visitors' details are fetched on demand (kept up-to-date by the hook)
   const selectedVisitor = useMemo(() => {
     if (!selectedVisitorId) return null;
-    return visitors.find(v => v.id === selectedVisitorId) || null;
-  }, [selectedVisitorId, visitors]);
+    if (selectedVisitorId === currentVisitor?.id) return shownCurrentVisitor;
+    return visitorDetail?.id === selectedVisitorId ? visitorDetail : null;
+  }, [selectedVisitorId, currentVisitor?.id, shownCurrentVisitor, visitorDetail]);
 
-  const handleVisitorClick = useCallback((visitor: VisitorInfo) => {
+  const handleVisitorClick = useCallback((visitor: PublicVisitorSummary) => {
     // If clicking the same visitor, close the popup
     if (selectedVisitorId === visitor.id) {
       setSelectedVisitorId(null);
+      requestVisitorDetail(null);
     } else {
       setSelectedVisitorId(visitor.id);
+      requestVisitorDetail(visitor.id === currentVisitor?.id ? null : visitor.id);
     }
-  }, [selectedVisitorId]);
+  }, [selectedVisitorId, currentVisitor?.id, requestVisitorDetail]);
 
   const handleCloseSelected = useCallback(() => {
     setSelectedVisitorId(null);
-  }, []);
+    requestVisitorDetail(null);
+  }, [requestVisitorDetail]);
+
+  // Seconds until the next reconnect attempt (`now` may lag until the first tick, hence the cap)
+  const reconnectIn = reconnectState.status === 'waiting' && reconnectState.nextAttemptAt
+    ? Math.max(1, Math.ceil(Math.min(reconnectState.delayMs, reconnectState.nextAttemptAt - now) / 1000))
+    : null;
 
   // Determine which visitor to show in the panel
-  const displayedVisitor = selectedVisitor || currentVisitor;
+  const displayedVisitor = selectedVisitor || shownCurrentVisitor;
   const isDisplayingCurrentUser = displayedVisitor?.id === currentVisitor?.id;
 
   return (
@@ -55,10 +84,21 @@ export default function App() {
             <span className="stat-value">{totalUniqueVisitors.toLocaleString()}</span>
             <span className="stat-label">Total</span>
           </div>
-          <div className={`connection-status ${connected ? 'connected' : 'disconnected'}`}>
-            <span className="status-dot" />
-            {connected ? 'Live' : 'Connecting...'}
-          </div>
+          {reconnectState.status === 'gave_up' ? (
+            <button className="connection-status disconnected offline" onClick={reconnect}>
+              <span className="status-dot" />
+              Offline - Retry
+            </button>
+          ) : (
+            <div className={`connection-status ${connected ? 'connected' : 'disconnected'}`}>
+              <span className="status-dot" />
+              {connected
+                ? 'Live'
+                : reconnectIn !== null
+                  ? `Reconnecting in ${reconnectIn}s`
+                  : 'Connecting...'}
+            </div>
+          )}
         </div>
       </header>
 
@@ -100,6 +140,10 @@ export default function App() {
         isCurrentUser={isDisplayingCurrentUser ?? true}
         onClose={selectedVisitorId ? handleCloseSelected : undefined}
         aiLoading={aiLoading && isDisplayingCurrentUser}
+        entropy={isDisplayingCurrentUser ? entropy : null}
+        stability={isDisplayingCurrentUser ? stability : null}
+        identityMatch={isDisplayingCurrentUser ? identityMatch : null}
+        consistency={isDisplayingCurrentUser ? consistency : null}
       />
 
       {/* Footer */}
@@ -6,12 +6,12 @@
 import { useEffect, useRef } from 'react';
 import * as Cesium from 'cesium';
 import 'cesium/Build/Cesium/Widgets/widgets.css';
-import type { VisitorInfo, GlobePoint } from '../types';
+import type { PublicVisitorSummary, GlobePoint } from '../types';
 
 interface GlobeComponentProps {
-  visitors: VisitorInfo[];
+  visitors: PublicVisitorSummary[];
   currentVisitorId: string | null;
-  onVisitorClick: (visitor: VisitorInfo) => void;
+  onVisitorClick: (visitor: PublicVisitorSummary) => void;
 }
 
 // Color palette
@@ -19,13 +19,13 @@ const YELLOW = Cesium.Color.fromCssColorString('#FFE500');
 const BLACK = Cesium.Color.BLACK;
 
 /** Convert visitor to globe point */
-function visitorToPoint(visitor: VisitorInfo, isCurrentUser: boolean): GlobePoint | null {
-  if (!visitor.server.geo) return null;
+function visitorToPoint(visitor: PublicVisitorSummary, isCurrentUser: boolean): GlobePoint | null {
+  if (!visitor.geo) return null;
 
   return {
     id: visitor.id,
-    lat: visitor.server.geo.lat,
-    lng: visitor.server.geo.lng,
+    lat: visitor.geo.lat,
+    lng: visitor.geo.lng,
     size: isCurrentUser ? 1.0 : 0.5,
     color: isCurrentUser ? '#FFE500' : '#000000',
     visitor,
@@ -3,14 +3,18 @@
  * Displays gathered information about the visitor in categorized sections
  */
 
-import type { VisitorInfo } from '../types';
+import type { VisitorInfo, VisitorDetail, ClientInfo, EntropyReport, AttributeEntropy, StabilityReport, IdentityMatch, ReservedIPReason, ConnectionKind, NetworkSignal, ConsistencyReport, ConsistencyCheck } from '../types';
 import './InfoPanel.css';
 
 interface InfoPanelProps {
-  visitor: VisitorInfo | null;
+  visitor: VisitorInfo | VisitorDetail | null;
   isCurrentUser: boolean;
   onClose?: () => void;
   aiLoading?: boolean;
+  entropy?: EntropyReport | null;
+  stability?: StabilityReport | null;
+  identityMatch?: IdentityMatch | null;
+  consistency?: ConsistencyReport | null;
 }
 
 interface InfoRowProps {
@@ -18,9 +22,10 @@ interface InfoRowProps {
   value: string | number | boolean | null | undefined;
   tooltip?: string;
   warning?: boolean;
+  entropy?: AttributeEntropy;
 }
 
-function InfoRow({ label, value, tooltip, warning }: InfoRowProps) {
+function InfoRow({ label, value, tooltip, warning, entropy }: InfoRowProps) {
   const displayValue =
     value === null || value === undefined
       ? 'N/A'
@@ -33,7 +38,17 @@ function InfoRow({ label, value, tooltip, warning }: InfoRowProps) {
   return (
     <div className={`info-row ${warning ? 'warning' : ''}`} title={tooltip}>
       <span className="info-label">{label}</span>
-      <span className="info-value">{displayValue}</span>
+      <span className="info-value">
+        {displayValue}
+        {entropy && (
+          <span
+            className="info-entropy"
+            title={`1 in ${formatOneIn(entropy.oneIn)} visitors share this value (${entropy.sharedBy} seen)`}
+          >
+            {entropy.bits.toFixed(1)} bits
+          </span>
+        )}
+      </span>
     </div>
   );
 }
@@ -76,6 +91,43 @@ function LoadingSkeleton() {
   );
 }
 
+/** Display names for the kind of network an IP belongs to */
+const CONNECTION_KIND_LABELS: Record<ConnectionKind, string> = {
+  residential: 'Residential / Business',
+  hosting: 'Datacenter / Hosting (VPN or proxy?)',
+  mobile: 'Mobile Carrier',
+  education: 'University / Research',
+};
+
+/** What a non-public IP means for the visitor */
+const RESERVED_IP_DESCRIPTIONS: Record<ReservedIPReason, string> = {
+  loopback: "You're connecting from the server itself",
+  private: "You're on a private network",
+  cgnat: "You're behind carrier-grade NAT",
+  'link-local': "You're on a link-local address",
+  reserved: "You're on a reserved address",
+};
+
+/** Short labels for the signals behind a network verdict */
+const NETWORK_SIGNAL_LABELS: Record<NetworkSignal, string> = {
+  hosting_asn: 'Hosting Network',
+  timezone_mismatch: 'Timezone Mismatch',
+  language_country_mismatch: 'Language Mismatch',
+  webrtc_ip_mismatch: 'WebRTC IP Mismatch',
+  header_anomaly: 'Header Anomaly',
+};
+
+/** Short labels for what the consistency engine compared */
+const CONSISTENCY_CHECK_LABELS: Record<ConsistencyCheck, string> = {
+  user_agent: 'Browser',
+  platform: 'Platform',
+  client_hints: 'Client Hints',
+  timezone: 'Timezone',
+  languages: 'Languages',
+  webgl_platform: 'GPU',
+  fingerprint_noise: 'Fingerprint Noise',
+};
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -84,6 +136,15 @@ function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
+function formatOneIn(oneIn: number): string {
+  return Math.round(oneIn).toLocaleString();
+}
+
+function formatChange(previous: string, current: string): string {
+  const shorten = (value: string) => (value.length > 24 ? `${value.slice(0, 21)}...` : value);
+  return `${shorten(previous)} -> ${shorten(current)}`;
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   const seconds = Math.floor(ms / 1000);
@@ -96,7 +157,7 @@ function formatDuration(ms: number): string {
   return `${hours}h ${remainingMinutes}m`;
 }
 
-export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPanelProps) {
+export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading, entropy, stability, identityMatch, consistency }: InfoPanelProps) {
   if (!visitor) {
     return (
       <div className="info-panel">
@@ -111,6 +172,19 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
   }
 
   const { server, client } = visitor;
+  // Ids, hashes, behavior and the AI profile are only in a visitor's own info
+  const ownClient = client && 'fingerprintId' in client ? client : null;
+  const ownServer = 'headers' in server ? server : null;
+
+  // Entropy only applies to the visitor it was computed for
+  const entropyReport = entropy?.visitorId === visitor.id ? entropy : null;
+  const bits = (attribute: keyof ClientInfo): AttributeEntropy | undefined =>
+    entropyReport?.attributes.find((a) => a.attribute === attribute);
+  const stabilityReport = stability?.visitorId === visitor.id ? stability : null;
+  const unstableComponents = stabilityReport?.components.filter((c) => c.changes > 0) ?? [];
+  const match = identityMatch?.visitorId === visitor.id ? identityMatch : null;
+  const differingComponents = match?.components.filter((c) => c.similarity < 1) ?? [];
+  const consistencyReport = consistency?.visitorId === visitor.id ? consistency : null;
 
   return (
     <div className="info-panel">
@@ -133,25 +207,105 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         )}
 
         {/* Unique Fingerprint ID - Show at top! */}
-        {client && (
+        {ownClient && (
           <InfoSection title="Your Unique IDs" icon="!">
             <InfoRow
               label="Browser Fingerprint"
-              value={client.fingerprintId}
+              value={ownClient.fingerprintId}
               tooltip="Unique to this browser - changes if you switch browsers"
               warning
             />
             <InfoRow
               label="Cross-Browser ID"
-              value={client.crossBrowserId}
+              value={ownClient.crossBrowserId}
               tooltip="SAME across Chrome, Firefox, Safari! Based on hardware."
               warning
             />
             <InfoRow
               label="Confidence"
-              value={`${client.fingerprintConfidence}%`}
+              value={`${ownClient.fingerprintConfidence}%`}
               tooltip="How confident we are this ID is unique to you"
             />
+            {entropyReport && (
+              <>
+                <InfoRow
+                  label="Identifying Entropy"
+                  value={`${entropyReport.totalBits.toFixed(1)} bits`}
+                  tooltip={`Sum of individual attributes: ${entropyReport.summedBits.toFixed(1)} bits (overcounts correlated attributes)`}
+                  warning
+                />
+                <InfoRow
+                  label="Anonymity Set"
+                  value={`1 in ${formatOneIn(entropyReport.oneIn)}`}
+                  tooltip={`${entropyReport.anonymitySet} of ${entropyReport.sampleSize} browsers seen share your exact fingerprint`}
+                  warning={entropyReport.anonymitySet === 1}
+                />
+              </>
+            )}
+            {match && (
+              <>
+                <InfoRow
+                  label="Fuzzy Identity"
+                  value={match.linked
+                    ? `${match.identityId} (${Math.round(match.score * 100)}% match)`
+                    : `${match.identityId} (new)`}
+                  tooltip={match.linked
+                    ? `Linked to a previous visit even though your fingerprint hash may differ - ${match.visits} visits so far`
+                    : `Closest known identity was a ${Math.round(match.score * 100)}% match, below the ${Math.round(match.threshold * 100)}% needed to link`}
+                  warning={match.linked}
+                />
+                <InfoRow
+                  label="Matched Components"
+                  value={`${match.matchedComponents.length} of ${match.components.length}`}
+                  tooltip={differingComponents.length > 0
+                    ? `Differed: ${differingComponents.map((c) => `${c.component} (${Math.round(c.similarity * 100)}%)`).join(', ')}`
+                    : 'Every compared component matched exactly'}
+                />
+              </>
+            )}
+          </InfoSection>
+        )}
+
+        {/* What changed since the last visit from this device */}
+        {stabilityReport?.sinceLastVisit && (
+          <InfoSection title="What Changed Since Last Time" icon="~">
+            <InfoRow
+              label="Visits Recognized"
+              value={stabilityReport.visits}
+              tooltip={`First seen ${formatTimestamp(stabilityReport.firstSeen)} - we know it's you even without cookies`}
+              warning
+            />
+            <InfoRow
+              label="Last Visit"
+              value={formatTimestamp(stabilityReport.sinceLastVisit.previousVisit)}
+            />
+            {stabilityReport.sinceLastVisit.changes.length === 0 ? (
+              <InfoRow
+                label="Changes"
+                value="None - your fingerprint is identical"
+                tooltip="Every tracked component matched your previous visit"
+              />
+            ) : (
+              stabilityReport.sinceLastVisit.changes.map((change) => (
+                <InfoRow
+                  key={change.component}
+                  label={change.component}
+                  value={formatChange(change.previous, change.current)}
+                  tooltip={`Changed since your last visit (was: ${change.previous})`}
+                  warning={change.component === 'fingerprintId'}
+                />
+              ))
+            )}
+            {unstableComponents.length > 0 && (
+              <InfoRow
+                label="Least Stable"
+                value={unstableComponents
+                  .slice(0, 3)
+                  .map((c) => `${c.component} (${Math.round(c.stability * 100)}%)`)
+                  .join(', ')}
+                tooltip="Share of your visits where each component stayed the same"
+              />
+            )}
           </InfoSection>
         )}
 
@@ -159,10 +313,19 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         <InfoSection title="Location" icon="O">
           <InfoRow
             label="IP Address"
-            value={server.ip}
+            value={ownServer?.ip ?? '•••.•••.•••.•••'}
             tooltip="Your public IP address visible to every website"
             warning={isCurrentUser}
           />
+          {!server.geo && server.reservedIPReason && (
+            <InfoRow
+              label="Network"
+              value={RESERVED_IP_DESCRIPTIONS[server.reservedIPReason]}
+              tooltip={server.reservedIPReason === 'cgnat'
+                ? "Your ISP shares one public IP between many customers, so this address can't be located"
+                : "This address isn't on the public internet, so it can't be located"}
+            />
+          )}
           {server.geo && (
             <>
               <InfoRow label="City" value={server.geo.city} />
@@ -182,90 +345,105 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
                 <>
                   <InfoRow label="ISP" value={server.geo.isp} tooltip="Your Internet Service Provider" />
                   <InfoRow label="Organization" value={server.geo.org} />
+                  {server.geo.asn !== null && (
+                    <InfoRow
+                      label="Network (ASN)"
+                      value={`AS${server.geo.asn} ${server.geo.asnOrg ?? ''}`.trim()}
+                      tooltip="The autonomous system your IP is routed through"
+                    />
+                  )}
                 </>
               )}
+              {server.geo.connectionKind && (
+                <InfoRow
+                  label="Connection Type"
+                  value={CONNECTION_KIND_LABELS[server.geo.connectionKind]}
+                  tooltip="Judged from who owns your IP's network"
+                  warning={server.geo.connectionKind === 'hosting'}
+                />
+              )}
             </>
           )}
         </InfoSection>
 
         {/* User Profile - What advertisers think about you */}
-        {client && (
-          <InfoSection title={client.userProfile.aiGenerated ? "AI Analysis of You" : "What Advertisers Know About You"} icon="$">
+        {ownClient && (
+          <InfoSection title={ownClient.userProfile.aiGenerated ? "AI Analysis of You" : "What Advertisers Know About You"} icon="$">
             <InfoRow
               label="Human Score"
-              value={`${client.userProfile.humanScore}%`}
+              value={`${ownClient.userProfile.humanScore}%`}
               tooltip="How confident we are you're human"
-              warning={client.userProfile.humanScore < 70}
+              warning={ownClient.userProfile.humanScore < 70}
             />
             <InfoRow
               label="Fraud Risk"
-              value={`${client.userProfile.fraudRiskScore}%`}
+              value={`${ownClient.userProfile.fraudRiskScore}%`}
               tooltip="Risk score used by payment processors"
-              warning={client.userProfile.fraudRiskScore > 30}
+              warning={ownClient.userProfile.fraudRiskScore > 30}
             />
             <InfoRow
               label="Device Tier"
-              value={client.userProfile.deviceTier}
+              value={ownClient.userProfile.deviceTier}
               tooltip="Used to determine your spending power"
             />
             <InfoRow
               label="Device Value"
-              value={client.userProfile.estimatedDeviceValue}
+              value={ownClient.userProfile.estimatedDeviceValue}
               tooltip="Estimated value of your device"
               warning
             />
             <InfoRow
               label="Device Age"
-              value={client.userProfile.deviceAge}
+              value={ownClient.userProfile.deviceAge}
             />
             <InfoRow
               label="Country"
-              value={client.userProfile.likelyCountry}
+              value={ownClient.userProfile.likelyCountry}
             />
-            {client.userProfile.incomeLevel && (
+            {ownClient.userProfile.incomeLevel && (
               <InfoRow
                 label="Income Level"
-                value={client.userProfile.incomeLevel}
+                value={ownClient.userProfile.incomeLevel}
                 tooltip="Inferred from device and browsing patterns"
                 warning
               />
             )}
-            {client.userProfile.ageRange && (
+            {ownClient.userProfile.ageRange && (
               <InfoRow
                 label="Age Range"
-                value={client.userProfile.ageRange}
+                value={ownClient.userProfile.ageRange}
                 tooltip="Estimated age based on device and preferences"
                 warning
               />
             )}
-            {client.userProfile.occupation && (
+            {ownClient.userProfile.occupation && (
               <InfoRow
                 label="Occupation"
-                value={client.userProfile.occupation}
+                value={ownClient.userProfile.occupation}
                 tooltip="Best guess based on tools and patterns"
                 warning
               />
             )}
-            {client.userProfile.educationLevel && client.userProfile.educationLevel !== 'unknown' && (
+            {ownClient.userProfile.educationLevel && ownClient.userProfile.educationLevel !== 'unknown' && (
               <InfoRow
                 label="Education"
-                value={client.userProfile.educationLevel}
-                tooltip={client.userProfile.educationReason}
+                value={ownClient.userProfile.educationLevel}
+                tooltip={ownClient.userProfile.educationReason}
                 warning
               />
             )}
-            {client.userProfile.workStyle && (
+            {ownClient.userProfile.workStyle && (
               <InfoRow
                 label="Work Style"
-                value={client.userProfile.workStyle}
-                tooltip={client.userProfile.workReason}
+                value={ownClient.userProfile.workStyle}
+                tooltip={ownClient.userProfile.workReason}
                 warning
               />
             )}
-            {client.userProfile.lifeSituation && (
+            {ownClient.userProfile.lifeSituation && (
               <InfoRow
                 label="Life Situation"
-                value={client.userProfile.lifeSituation}
+                value={ownClient.userProfile.lifeSituation}
                 warning
               />
             )}
@@ -273,305 +451,305 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         )}
 
         {/* Creepy Personal Life Inferences */}
-        {client && (aiLoading || client.userProfile.aiGenerated) && (
+        {ownClient && (aiLoading || ownClient.userProfile.aiGenerated) && (
           <InfoSection title="Your Personal Life (AI Guesses)" icon="!">
-            {aiLoading && !client.userProfile.aiGenerated && <LoadingSkeleton />}
-            {client.userProfile.relationshipStatus && client.userProfile.relationshipStatus !== 'unknown' && (
+            {ownClient.userProfile.relationshipStatus && ownClient.userProfile.relationshipStatus !== 'unknown' && (
               <InfoRow
                 label="Relationship"
-                value={client.userProfile.relationshipStatus}
-                tooltip={client.userProfile.relationshipReason}
+                value={ownClient.userProfile.relationshipStatus}
+                tooltip={ownClient.userProfile.relationshipReason}
                 warning
               />
             )}
-            {client.userProfile.likelyParent !== undefined && (
+            {ownClient.userProfile.likelyParent !== undefined && (
               <InfoRow
                 label="Parent"
-                value={client.userProfile.likelyParent ? 'Likely yes' : 'Probably not'}
-                tooltip={client.userProfile.parentReason}
-                warning={client.userProfile.likelyParent}
+                value={ownClient.userProfile.likelyParent ? 'Likely yes' : 'Probably not'}
+                tooltip={ownClient.userProfile.parentReason}
+                warning={ownClient.userProfile.likelyParent}
               />
             )}
-            {client.userProfile.petOwner !== undefined && (
+            {ownClient.userProfile.petOwner !== undefined && (
               <InfoRow
                 label="Pet Owner"
-                value={client.userProfile.petOwner ? (client.userProfile.petType || 'Yes') : 'No'}
-                warning={client.userProfile.petOwner}
+                value={ownClient.userProfile.petOwner ? (ownClient.userProfile.petType || 'Yes') : 'No'}
+                warning={ownClient.userProfile.petOwner}
               />
             )}
-            {client.userProfile.homeowner !== undefined && (
+            {ownClient.userProfile.homeowner !== undefined && (
               <InfoRow
                 label="Homeowner"
-                value={client.userProfile.homeowner ? 'Likely yes' : 'Renter'}
-                tooltip={client.userProfile.homeReason}
+                value={ownClient.userProfile.homeowner ? 'Likely yes' : 'Renter'}
+                tooltip={ownClient.userProfile.homeReason}
                 warning
               />
             )}
-            {client.userProfile.carOwner !== undefined && (
+            {ownClient.userProfile.carOwner !== undefined && (
               <InfoRow
                 label="Car Owner"
-                value={client.userProfile.carOwner ? (client.userProfile.carType || 'Yes') : 'No'}
-                warning={client.userProfile.carOwner}
+                value={ownClient.userProfile.carOwner ? (ownClient.userProfile.carType || 'Yes') : 'No'}
+                warning={ownClient.userProfile.carOwner}
               />
             )}
-            {client.userProfile.socialLife && (
+            {ownClient.userProfile.socialLife && (
               <InfoRow
                 label="Social Type"
-                value={client.userProfile.socialLife}
-                tooltip={client.userProfile.socialReason}
+                value={ownClient.userProfile.socialLife}
+                tooltip={ownClient.userProfile.socialReason}
                 warning
               />
             )}
+            {aiLoading && !ownClient.userProfile.aiGenerated && <LoadingSkeleton />}
           </InfoSection>
         )}
 
         {/* Mental & Physical State */}
-        {client && (aiLoading || client.userProfile.aiGenerated) && (
+        {ownClient && (aiLoading || ownClient.userProfile.aiGenerated) && (
           <InfoSection title="Your Mental & Physical State" icon="H">
-            {aiLoading && !client.userProfile.aiGenerated && <LoadingSkeleton />}
-            {client.userProfile.stressLevel && (
+            {ownClient.userProfile.stressLevel && (
               <InfoRow
                 label="Stress Level"
-                value={client.userProfile.stressLevel}
-                tooltip={client.userProfile.stressReason}
-                warning={client.userProfile.stressLevel === 'high' || client.userProfile.stressLevel === 'burnout'}
+                value={ownClient.userProfile.stressLevel}
+                tooltip={ownClient.userProfile.stressReason}
+                warning={ownClient.userProfile.stressLevel === 'high' || ownClient.userProfile.stressLevel === 'burnout'}
               />
             )}
-            {client.userProfile.sleepSchedule && (
+            {ownClient.userProfile.sleepSchedule && (
               <InfoRow
                 label="Sleep Schedule"
-                value={client.userProfile.sleepSchedule}
-                tooltip={client.userProfile.sleepReason}
+                value={ownClient.userProfile.sleepSchedule}
+                tooltip={ownClient.userProfile.sleepReason}
                 warning
               />
             )}
-            {client.userProfile.fitnessLevel && (
+            {ownClient.userProfile.fitnessLevel && (
               <InfoRow
                 label="Fitness Level"
-                value={client.userProfile.fitnessLevel}
-                tooltip={client.userProfile.fitnessReason}
+                value={ownClient.userProfile.fitnessLevel}
+                tooltip={ownClient.userProfile.fitnessReason}
                 warning
               />
             )}
-            {client.userProfile.healthConscious !== undefined && (
+            {ownClient.userProfile.healthConscious !== undefined && (
               <InfoRow
                 label="Health Conscious"
-                value={client.userProfile.healthConscious ? 'Yes' : 'Not really'}
-                tooltip={client.userProfile.healthReason}
+                value={ownClient.userProfile.healthConscious ? 'Yes' : 'Not really'}
+                tooltip={ownClient.userProfile.healthReason}
               />
             )}
-            {client.userProfile.dietaryPreference && (
+            {ownClient.userProfile.dietaryPreference && (
               <InfoRow
                 label="Diet"
-                value={client.userProfile.dietaryPreference}
+                value={ownClient.userProfile.dietaryPreference}
                 warning
               />
             )}
+            {aiLoading && !ownClient.userProfile.aiGenerated && <LoadingSkeleton />}
           </InfoSection>
         )}
 
         {/* Lifestyle & Habits */}
-        {client && (aiLoading || client.userProfile.aiGenerated) && (
+        {ownClient && (aiLoading || ownClient.userProfile.aiGenerated) && (
           <InfoSection title="Your Lifestyle & Habits" icon="L">
-            {aiLoading && !client.userProfile.aiGenerated && <LoadingSkeleton />}
-            {client.userProfile.coffeeOrTea && (
+            {ownClient.userProfile.coffeeOrTea && (
               <InfoRow
                 label="Caffeine"
-                value={client.userProfile.coffeeOrTea === 'coffee' ? 'Coffee person' : client.userProfile.coffeeOrTea === 'tea' ? 'Tea person' : client.userProfile.coffeeOrTea}
+                value={ownClient.userProfile.coffeeOrTea === 'coffee' ? 'Coffee person' : ownClient.userProfile.coffeeOrTea === 'tea' ? 'Tea person' : ownClient.userProfile.coffeeOrTea}
                 warning
               />
             )}
-            {client.userProfile.drinksAlcohol !== undefined && (
+            {ownClient.userProfile.drinksAlcohol !== undefined && (
               <InfoRow
                 label="Drinks Alcohol"
-                value={client.userProfile.drinksAlcohol ? 'Probably' : 'Unlikely'}
+                value={ownClient.userProfile.drinksAlcohol ? 'Probably' : 'Unlikely'}
               />
             )}
-            {client.userProfile.smokes !== undefined && (
+            {ownClient.userProfile.smokes !== undefined && (
               <InfoRow
                 label="Smokes"
-                value={client.userProfile.smokes ? 'Possibly' : 'Unlikely'}
-                warning={client.userProfile.smokes}
+                value={ownClient.userProfile.smokes ? 'Possibly' : 'Unlikely'}
+                warning={ownClient.userProfile.smokes}
               />
             )}
-            {client.userProfile.travelFrequency && (
+            {ownClient.userProfile.travelFrequency && (
               <InfoRow
                 label="Travel"
-                value={client.userProfile.travelFrequency}
-                tooltip={client.userProfile.travelReason}
+                value={ownClient.userProfile.travelFrequency}
+                tooltip={ownClient.userProfile.travelReason}
               />
             )}
+            {aiLoading && !ownClient.userProfile.aiGenerated && <LoadingSkeleton />}
           </InfoSection>
         )}
 
         {/* Financial & Shopping */}
-        {client && (aiLoading || client.userProfile.aiGenerated) && (
+        {ownClient && (aiLoading || ownClient.userProfile.aiGenerated) && (
           <InfoSection title="Your Financial Profile" icon="$">
-            {aiLoading && !client.userProfile.aiGenerated && <LoadingSkeleton />}
-            {client.userProfile.financialHealth && (
+            {ownClient.userProfile.financialHealth && (
               <InfoRow
                 label="Financial Health"
-                value={client.userProfile.financialHealth}
-                tooltip={client.userProfile.financialReason}
+                value={ownClient.userProfile.financialHealth}
+                tooltip={ownClient.userProfile.financialReason}
                 warning
               />
             )}
-            {client.userProfile.shoppingHabits && (
+            {ownClient.userProfile.shoppingHabits && (
               <InfoRow
                 label="Shopping Style"
-                value={client.userProfile.shoppingHabits}
-                tooltip={client.userProfile.shoppingReason}
+                value={ownClient.userProfile.shoppingHabits}
+                tooltip={ownClient.userProfile.shoppingReason}
                 warning
               />
             )}
-            {client.userProfile.brandPreference && client.userProfile.brandPreference.length > 0 && (
+            {ownClient.userProfile.brandPreference && ownClient.userProfile.brandPreference.length > 0 && (
               <InfoRow
                 label="Brand Affinity"
-                value={client.userProfile.brandPreference.slice(0, 3).join(', ')}
+                value={ownClient.userProfile.brandPreference.slice(0, 3).join(', ')}
                 warning
               />
             )}
+            {aiLoading && !ownClient.userProfile.aiGenerated && <LoadingSkeleton />}
           </InfoSection>
         )}
 
         {/* Entertainment & Media */}
-        {client && (aiLoading || (client.userProfile.aiGenerated && (client.userProfile.streamingServices?.length || client.userProfile.musicTaste?.length))) && (
+        {ownClient && (aiLoading || (ownClient.userProfile.aiGenerated && (ownClient.userProfile.streamingServices?.length || ownClient.userProfile.musicTaste?.length))) && (
           <InfoSection title="Your Entertainment" icon="E">
-            {aiLoading && !client.userProfile.aiGenerated && <LoadingSkeleton />}
-            {client.userProfile.streamingServices && client.userProfile.streamingServices.length > 0 && (
+            {ownClient.userProfile.streamingServices && ownClient.userProfile.streamingServices.length > 0 && (
               <InfoRow
                 label="Streaming"
-                value={client.userProfile.streamingServices.join(', ')}
+                value={ownClient.userProfile.streamingServices.join(', ')}
                 warning
               />
             )}
-            {client.userProfile.musicTaste && client.userProfile.musicTaste.length > 0 && (
+            {ownClient.userProfile.musicTaste && ownClient.userProfile.musicTaste.length > 0 && (
               <InfoRow
                 label="Music Taste"
-                value={client.userProfile.musicTaste.join(', ')}
+                value={ownClient.userProfile.musicTaste.join(', ')}
                 warning
               />
             )}
+            {aiLoading && !ownClient.userProfile.aiGenerated && <LoadingSkeleton />}
           </InfoSection>
         )}
 
         {/* Life Events */}
-        {client && client.userProfile.lifeEvents && client.userProfile.lifeEvents.length > 0 && (
+        {ownClient && ownClient.userProfile.lifeEvents && ownClient.userProfile.lifeEvents.length > 0 && (
           <InfoSection title="Recent Life Events" icon="!">
-            {client.userProfile.lifeEvents.map((event) => (
+            {ownClient.userProfile.lifeEvents.map((event) => (
               <InfoRow key={event} label={event} value="Detected" warning />
             ))}
           </InfoSection>
         )}
 
         {/* Political (if detected) */}
-        {client && client.userProfile.politicalLeaning && client.userProfile.politicalLeaning !== 'unknown' && (
+        {ownClient && ownClient.userProfile.politicalLeaning && ownClient.userProfile.politicalLeaning !== 'unknown' && (
           <InfoSection title="Political Inference" icon="P">
             <InfoRow
               label="Leaning"
-              value={client.userProfile.politicalLeaning}
-              tooltip={client.userProfile.politicalReason}
+              value={ownClient.userProfile.politicalLeaning}
+              tooltip={ownClient.userProfile.politicalReason}
               warning
             />
           </InfoSection>
         )}
 
         {/* Creepy Insights Summary */}
-        {client && client.userProfile.creepyInsights && client.userProfile.creepyInsights.length > 0 && (
+        {ownClient && ownClient.userProfile.creepyInsights && ownClient.userProfile.creepyInsights.length > 0 && (
           <InfoSection title="Other Creepy Insights" icon="!">
-            {client.userProfile.creepyInsights.map((insight, i) => (
+            {ownClient.userProfile.creepyInsights.map((insight, i) => (
               <InfoRow key={i} label={`Insight ${i + 1}`} value={insight} warning />
             ))}
           </InfoSection>
         )}
 
         {/* User Type Detection */}
-        {client && (
+        {ownClient && (
           <InfoSection title="Who They Think You Are" icon="U">
             <InfoRow
               label="Developer"
-              value={client.userProfile.likelyDeveloper ? `Yes (${client.userProfile.developerScore}%)` : `No (${client.userProfile.developerScore}%)`}
-              tooltip={client.userProfile.developerReason}
-              warning={client.userProfile.likelyDeveloper}
+              value={ownClient.userProfile.likelyDeveloper ? `Yes (${ownClient.userProfile.developerScore}%)` : `No (${ownClient.userProfile.developerScore}%)`}
+              tooltip={ownClient.userProfile.developerReason}
+              warning={ownClient.userProfile.likelyDeveloper}
             />
             <InfoRow
               label="Gamer"
-              value={client.userProfile.likelyGamer ? `Yes (${client.userProfile.gamerScore}%)` : `No (${client.userProfile.gamerScore}%)`}
-              tooltip={client.userProfile.gamerReason}
-              warning={client.userProfile.likelyGamer}
+              value={ownClient.userProfile.likelyGamer ? `Yes (${ownClient.userProfile.gamerScore}%)` : `No (${ownClient.userProfile.gamerScore}%)`}
+              tooltip={ownClient.userProfile.gamerReason}
+              warning={ownClient.userProfile.likelyGamer}
             />
             <InfoRow
               label="Designer"
-              value={client.userProfile.likelyDesigner ? `Yes (${client.userProfile.designerScore}%)` : `No (${client.userProfile.designerScore}%)`}
-              tooltip={client.userProfile.designerReason}
-              warning={client.userProfile.likelyDesigner}
+              value={ownClient.userProfile.likelyDesigner ? `Yes (${ownClient.userProfile.designerScore}%)` : `No (${ownClient.userProfile.designerScore}%)`}
+              tooltip={ownClient.userProfile.designerReason}
+              warning={ownClient.userProfile.likelyDesigner}
             />
             <InfoRow
               label="Power User"
-              value={client.userProfile.likelyPowerUser ? `Yes (${client.userProfile.powerUserScore}%)` : `No (${client.userProfile.powerUserScore}%)`}
-              tooltip={client.userProfile.powerUserReason}
-              warning={client.userProfile.likelyPowerUser}
+              value={ownClient.userProfile.likelyPowerUser ? `Yes (${ownClient.userProfile.powerUserScore}%)` : `No (${ownClient.userProfile.powerUserScore}%)`}
+              tooltip={ownClient.userProfile.powerUserReason}
+              warning={ownClient.userProfile.likelyPowerUser}
             />
             <InfoRow
               label="Privacy Conscious"
-              value={client.userProfile.privacyConscious ? `Yes (${client.userProfile.privacyScore}%)` : `No (${client.userProfile.privacyScore}%)`}
-              tooltip={client.userProfile.privacyReason}
+              value={ownClient.userProfile.privacyConscious ? `Yes (${ownClient.userProfile.privacyScore}%)` : `No (${ownClient.userProfile.privacyScore}%)`}
+              tooltip={ownClient.userProfile.privacyReason}
             />
             <InfoRow
               label="Tech Savvy"
-              value={client.userProfile.likelyTechSavvy}
+              value={ownClient.userProfile.likelyTechSavvy}
             />
             <InfoRow
               label="Mobile User"
-              value={client.userProfile.likelyMobile}
+              value={ownClient.userProfile.likelyMobile}
             />
             <InfoRow
               label="Work Device"
-              value={client.userProfile.likelyWorkDevice}
+              value={ownClient.userProfile.likelyWorkDevice}
             />
           </InfoSection>
         )}
 
         {/* Personality Traits (AI only) */}
-        {client && client.userProfile.personalityTraits && client.userProfile.personalityTraits.length > 0 && (
+        {ownClient && ownClient.userProfile.personalityTraits && ownClient.userProfile.personalityTraits.length > 0 && (
           <InfoSection title="Personality Traits" icon="P">
-            {client.userProfile.personalityTraits.map((trait) => (
+            {ownClient.userProfile.personalityTraits.map((trait) => (
               <InfoRow key={trait} label={trait} value="Detected" warning />
             ))}
           </InfoSection>
         )}
 
         {/* Inferred Interests */}
-        {client && client.userProfile.inferredInterests.length > 0 && (
+        {ownClient && ownClient.userProfile.inferredInterests.length > 0 && (
           <InfoSection title="Inferred Interests" icon="*">
-            {client.userProfile.inferredInterests.map((interest) => (
+            {ownClient.userProfile.inferredInterests.map((interest) => (
               <InfoRow key={interest} label={interest} value="Likely interested" warning />
             ))}
           </InfoSection>
         )}
 
         {/* Bot Indicators */}
-        {client && client.userProfile.botIndicators.length > 0 && (
+        {ownClient && ownClient.userProfile.botIndicators.length > 0 && (
           <InfoSection title="Bot Detection Flags" icon="!">
-            {client.userProfile.botIndicators.map((indicator) => (
+            {ownClient.userProfile.botIndicators.map((indicator) => (
               <InfoRow key={indicator} label={indicator} value="Detected" warning />
             ))}
           </InfoSection>
         )}
 
         {/* Fraud Indicators */}
-        {client && client.userProfile.fraudIndicators.length > 0 && (
+        {ownClient && ownClient.userProfile.fraudIndicators.length > 0 && (
           <InfoSection title="Fraud Risk Factors" icon="!">
-            {client.userProfile.fraudIndicators.map((indicator) => (
+            {ownClient.userProfile.fraudIndicators.map((indicator) => (
               <InfoRow key={indicator} label={indicator} value="Flagged" warning />
             ))}
           </InfoSection>
         )}
 
         {/* Cross-Browser Tracking Factors */}
-        {client && client.crossBrowserFactors.length > 0 && (
+        {ownClient && ownClient.crossBrowserFactors.length > 0 && (
           <InfoSection title="Why We Can Track You Across Browsers" icon="X">
-            {client.crossBrowserFactors.map((factor, i) => (
+            {ownClient.crossBrowserFactors.map((factor, i) => (
               <InfoRow key={i} label={factor.split(':')[0]} value={factor.split(':')[1]?.trim() || 'Yes'} />
             ))}
           </InfoSection>
@@ -579,9 +757,9 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
 
 
         {/* WebRTC Local IPs */}
-        {client && client.webrtcLocalIPs.length > 0 && (
+        {ownClient && ownClient.webrtcLocalIPs.length > 0 && (
           <InfoSection title="Local Network" icon="!">
-            {client.webrtcLocalIPs.map((ip, i) => (
+            {ownClient.webrtcLocalIPs.map((ip, i) => (
               <InfoRow
                 key={ip}
                 label={`Local IP ${i + 1}`}
@@ -600,19 +778,23 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
             value={server.userAgent.substring(0, 50) + (server.userAgent.length > 50 ? '...' : '')}
             tooltip={server.userAgent}
           />
-          <InfoRow label="Languages" value={server.acceptLanguage.split(',')[0]} />
-          <InfoRow label="Referrer" value={server.referer} />
+          {ownServer && (
+            <>
+              <InfoRow label="Languages" value={ownServer.acceptLanguage.split(',')[0]} />
+              <InfoRow label="Referrer" value={ownServer.referer} />
+            </>
+          )}
           {client && (
             <>
-              <InfoRow label="Platform" value={client.platform} />
-              <InfoRow label="Language" value={client.language} />
-              <InfoRow label="Do Not Track" value={client.doNotTrack} />
-              <InfoRow label="Global Privacy Control" value={client.globalPrivacyControl} />
+              <InfoRow label="Platform" value={client.platform} entropy={bits('platform')} />
+              <InfoRow label="Language" value={client.language} entropy={bits('language')} />
+              <InfoRow label="Do Not Track" value={client.doNotTrack} entropy={bits('doNotTrack')} />
+              <InfoRow label="Global Privacy Control" value={client.globalPrivacyControl} entropy={bits('globalPrivacyControl')} />
               <InfoRow label="Cookies Enabled" value={client.cookiesEnabled} />
               <InfoRow label="LocalStorage" value={client.localStorageEnabled} />
               <InfoRow label="SessionStorage" value={client.sessionStorageEnabled} />
               <InfoRow label="IndexedDB" value={client.indexedDBEnabled} />
-              <InfoRow label="PDF Viewer" value={client.pdfViewerEnabled} />
+              <InfoRow label="PDF Viewer" value={client.pdfViewerEnabled} entropy={bits('pdfViewerEnabled')} />
             </>
           )}
         </InfoSection>
@@ -640,19 +822,19 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         {/* Device Section */}
         {client && (
           <InfoSection title="Display" icon="=">
-            <InfoRow label="Screen" value={`${client.screenWidth} x ${client.screenHeight}`} tooltip="Screen resolution" />
+            <InfoRow label="Screen" value={`${client.screenWidth} x ${client.screenHeight}`} tooltip="Screen resolution" entropy={bits('screenWidth')} />
             <InfoRow label="Window" value={`${client.windowWidth} x ${client.windowHeight}`} tooltip="Browser window size" />
-            <InfoRow label="Color Depth" value={`${client.screenColorDepth}-bit`} />
-            <InfoRow label="Pixel Ratio" value={`${client.devicePixelRatio}x`} />
+            <InfoRow label="Color Depth" value={`${client.screenColorDepth}-bit`} entropy={bits('screenColorDepth')} />
+            <InfoRow label="Pixel Ratio" value={`${client.devicePixelRatio}x`} entropy={bits('devicePixelRatio')} />
             <InfoRow label="Orientation" value={client.screenOrientation} />
-            <InfoRow label="Touch Points" value={client.maxTouchPoints} />
+            <InfoRow label="Touch Points" value={client.maxTouchPoints} entropy={bits('maxTouchPoints')} />
           </InfoSection>
         )}
 
         {/* Hardware Section */}
         {client && (
           <InfoSection title="Hardware" icon="*">
-            <InfoRow label="CPU Cores" value={client.hardwareConcurrency} tooltip="Number of logical processors" />
+            <InfoRow label="CPU Cores" value={client.hardwareConcurrency} tooltip="Number of logical processors" entropy={bits('hardwareConcurrency')} />
             <InfoRow
               label="RAM"
               value={
@@ -666,8 +848,9 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
                   : 'Approximate device memory'
               }
               warning={client.deviceMemoryCapped}
+              entropy={bits('deviceMemory')}
             />
-            <InfoRow label="GPU Vendor" value={client.webglVendor} />
+            <InfoRow label="GPU Vendor" value={client.webglVendor} entropy={bits('webglVendor')} />
             <InfoRow
               label="GPU"
               value={
@@ -676,9 +859,10 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
                   : null
               }
               tooltip={client.webglRenderer || undefined}
+              entropy={bits('webglRenderer')}
             />
             <InfoRow label="WebGL Version" value={client.webglVersion} />
-            <InfoRow label="WebGL Extensions" value={client.webglExtensions} />
+            <InfoRow label="WebGL Extensions" value={client.webglExtensions} entropy={bits('webglExtensions')} />
           </InfoSection>
         )}
 
@@ -693,8 +877,12 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
             <InfoRow label="Downlink" value={client.connectionDownlink ? `${client.connectionDownlink} Mbps` : null} />
             <InfoRow label="RTT" value={client.connectionRtt ? `${client.connectionRtt} ms` : null} tooltip="Round-trip time estimate" />
             <InfoRow label="Data Saver" value={client.connectionSaveData} tooltip="Data saver mode enabled" />
-            <InfoRow label="Battery" value={client.batteryLevel !== null ? `${client.batteryLevel}%` : null} />
-            <InfoRow label="Charging" value={client.batteryCharging} />
+            {ownClient && (
+              <>
+                <InfoRow label="Battery" value={ownClient.batteryLevel !== null ? `${ownClient.batteryLevel}%` : null} />
+                <InfoRow label="Charging" value={ownClient.batteryCharging} />
+              </>
+            )}
             <InfoRow label="WebRTC Supported" value={client.webrtcSupported} />
           </InfoSection>
         )}
@@ -709,25 +897,26 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         )}
 
         {/* Storage Section */}
-        {client?.storageQuota && (
+        {ownClient?.storageQuota && (
           <InfoSection title="Storage" icon="D">
-            <InfoRow label="Used" value={formatBytes(client.storageQuota.usage)} />
+            <InfoRow label="Used" value={formatBytes(ownClient.storageQuota.usage)} />
             <InfoRow
               label="Quota"
-              value={formatBytes(client.storageQuota.quota)}
+              value={formatBytes(ownClient.storageQuota.quota)}
               tooltip="Estimated storage quota - can reveal disk size"
+              entropy={bits('storageQuota')}
             />
             <InfoRow
               label="Usage %"
-              value={`${((client.storageQuota.usage / client.storageQuota.quota) * 100).toFixed(2)}%`}
+              value={`${((ownClient.storageQuota.usage / ownClient.storageQuota.quota) * 100).toFixed(2)}%`}
             />
           </InfoSection>
         )}
 
         {/* Permissions Section */}
-        {client && Object.keys(client.permissions).length > 0 && (
+        {ownClient && Object.keys(ownClient.permissions).length > 0 && (
           <InfoSection title="Permissions" icon="P">
-            {Object.entries(client.permissions).map(([name, state]) => (
+            {Object.entries(ownClient.permissions).map(([name, state]) => (
               <InfoRow key={name} label={name} value={state} />
             ))}
           </InfoSection>
@@ -748,13 +937,19 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         {/* Fingerprints Section */}
         {client && (
           <InfoSection title="Fingerprints" icon="@">
-            <InfoRow label="Canvas Hash" value={client.canvasFingerprint} tooltip="Unique identifier from canvas rendering" />
-            <InfoRow label="Audio Hash" value={client.audioFingerprint} tooltip="Unique identifier from audio processing" />
-            <InfoRow label="WebGL Hash" value={client.webglFingerprint} tooltip="Unique identifier from WebGL parameters" />
-            <InfoRow label="Fonts Detected" value={client.fontsDetected.length} tooltip={client.fontsDetected.join(', ')} />
+            {ownClient && (
+              <>
+                <InfoRow label="Canvas Hash" value={ownClient.canvasFingerprint} tooltip="Unique identifier from canvas rendering" entropy={bits('canvasFingerprint')} />
+                <InfoRow label="Audio Hash" value={ownClient.audioFingerprint} tooltip="Unique identifier from audio processing" entropy={bits('audioFingerprint')} />
+                <InfoRow label="WebGL Hash" value={ownClient.webglFingerprint} tooltip="Unique identifier from WebGL parameters" entropy={bits('webglFingerprint')} />
+                <InfoRow label="Fonts Detected" value={ownClient.fontsDetected.length} tooltip={ownClient.fontsDetected.join(', ')} entropy={bits('fontsDetected')} />
+              </>
+            )}
             <InfoRow label="Speech Voices" value={client.speechVoicesCount} tooltip="Number of text-to-speech voices installed" />
-            <InfoRow label="Voices Hash" value={client.speechVoicesHash} tooltip="Hash of installed voices - very unique!" />
-            <InfoRow label="Timezone" value={client.timezone} />
+            {ownClient && (
+              <InfoRow label="Voices Hash" value={ownClient.speechVoicesHash} tooltip="Hash of installed voices - very unique!" entropy={bits('speechVoicesHash')} />
+            )}
+            <InfoRow label="Timezone" value={client.timezone} entropy={bits('timezone')} />
             <InfoRow
               label="TZ Offset"
               value={`UTC${client.timezoneOffset > 0 ? '-' : '+'}${Math.abs(client.timezoneOffset / 60)}`}
@@ -769,6 +964,7 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
               label="Ad Blocker"
               value={client.adBlockerDetected === null ? 'Unknown' : client.adBlockerDetected ? 'Detected' : 'Not detected'}
               tooltip="Whether an ad blocker is active"
+              entropy={bits('adBlockerDetected')}
             />
             <InfoRow label="Do Not Track" value={client.doNotTrack ? 'Enabled' : 'Disabled'} />
             <InfoRow
@@ -781,14 +977,16 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         {/* Browser Detection */}
         {client && (
           <InfoSection title="Browser Analysis" icon="B">
-            <InfoRow label="Browser" value={`${client.browserName} ${client.browserVersion}`} />
-            <InfoRow label="Hardware Family" value={client.hardwareFamily} />
-            <InfoRow
-              label="Incognito Mode"
-              value={client.isIncognito === null ? 'Unknown' : client.isIncognito ? 'Yes' : 'No'}
-              tooltip="Private/incognito browsing detected"
-              warning={client.isIncognito === true}
-            />
+            <InfoRow label="Browser" value={`${client.browserName} ${client.browserVersion}`} entropy={bits('browserVersion')} />
+            <InfoRow label="Hardware Family" value={client.hardwareFamily} entropy={bits('hardwareFamily')} />
+            {ownClient && (
+              <InfoRow
+                label="Incognito Mode"
+                value={ownClient.isIncognito === null ? 'Unknown' : ownClient.isIncognito ? 'Yes' : 'No'}
+                tooltip="Private/incognito browsing detected"
+                warning={ownClient.isIncognito === true}
+              />
+            )}
             <InfoRow
               label="Automated"
               value={client.isAutomated}
@@ -806,20 +1004,22 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
               value={client.isVirtualMachine === null ? 'Unknown' : client.isVirtualMachine ? 'Yes' : 'No'}
               tooltip="Running in a VM"
             />
-            <InfoRow label="History Length" value={client.historyLength} tooltip="Number of pages in browser history" />
+            {ownClient && (
+              <InfoRow label="History Length" value={ownClient.historyLength} tooltip="Number of pages in browser history" />
+            )}
           </InfoSection>
         )}
 
         {/* CSS Preferences */}
         {client && (
           <InfoSection title="System Preferences" icon="S">
-            <InfoRow label="Color Scheme" value={client.prefersColorScheme} tooltip="Dark/light mode preference" />
+            <InfoRow label="Color Scheme" value={client.prefersColorScheme} tooltip="Dark/light mode preference" entropy={bits('prefersColorScheme')} />
             <InfoRow label="Reduced Motion" value={client.prefersReducedMotion} />
             <InfoRow label="Reduced Transparency" value={client.prefersReducedTransparency} />
             <InfoRow label="Contrast" value={client.prefersContrast} />
             <InfoRow label="Forced Colors" value={client.forcedColors} tooltip="Windows High Contrast mode" />
-            <InfoRow label="Color Gamut" value={client.colorGamut} tooltip="Display color range" />
-            <InfoRow label="HDR Support" value={client.hdrSupported} />
+            <InfoRow label="Color Gamut" value={client.colorGamut} tooltip="Display color range" entropy={bits('colorGamut')} />
+            <InfoRow label="HDR Support" value={client.hdrSupported} entropy={bits('hdrSupported')} />
             <InfoRow label="Inverted Colors" value={client.invertedColors} />
           </InfoSection>
         )}
@@ -827,8 +1027,8 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         {/* Codec Support */}
         {client && (
           <InfoSection title="Media Codecs" icon="V">
-            <InfoRow label="Video Codecs" value={client.videoCodecs.join(', ')} />
-            <InfoRow label="Audio Codecs" value={client.audioCodecs.join(', ')} />
+            <InfoRow label="Video Codecs" value={client.videoCodecs.join(', ')} entropy={bits('videoCodecs')} />
+            <InfoRow label="Audio Codecs" value={client.audioCodecs.join(', ')} entropy={bits('audioCodecs')} />
             <InfoRow label="Widevine DRM" value={client.drmSupported.widevine} />
             <InfoRow label="FairPlay DRM" value={client.drmSupported.fairplay} />
             <InfoRow label="PlayReady DRM" value={client.drmSupported.playready} />
@@ -850,18 +1050,18 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         )}
 
         {/* Performance Memory */}
-        {client?.performanceMemory && (
+        {ownClient?.performanceMemory && (
           <InfoSection title="JS Memory" icon="J">
-            <InfoRow label="Heap Limit" value={formatBytes(client.performanceMemory.jsHeapSizeLimit)} />
-            <InfoRow label="Total Heap" value={formatBytes(client.performanceMemory.totalJSHeapSize)} />
-            <InfoRow label="Used Heap" value={formatBytes(client.performanceMemory.usedJSHeapSize)} />
+            <InfoRow label="Heap Limit" value={formatBytes(ownClient.performanceMemory.jsHeapSizeLimit)} />
+            <InfoRow label="Total Heap" value={formatBytes(ownClient.performanceMemory.totalJSHeapSize)} />
+            <InfoRow label="Used Heap" value={formatBytes(ownClient.performanceMemory.usedJSHeapSize)} />
           </InfoSection>
         )}
 
         {/* Extensions Detected */}
-        {client && client.extensionsDetected.length > 0 && (
+        {ownClient && ownClient.extensionsDetected.length > 0 && (
           <InfoSection title="Extensions Detected" icon="E">
-            {client.extensionsDetected.map((ext) => (
+            {ownClient.extensionsDetected.map((ext) => (
               <InfoRow key={ext} label={ext} value="Detected" warning />
             ))}
           </InfoSection>
@@ -886,99 +1086,104 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         {/* Advanced Fingerprints */}
         {client && (
           <InfoSection title="Advanced Fingerprints" icon="F">
-            <InfoRow label="Math Hash" value={client.mathFingerprint} tooltip="JS engine math differences" />
-            <InfoRow label="Timing Hash" value={client.timingFingerprint} tooltip="CPU performance fingerprint" />
-            <InfoRow label="Error Hash" value={client.errorFingerprint} tooltip="Error message fingerprint" />
-            <InfoRow label="Navigator Props" value={client.navigatorPropsCount} tooltip="Number of navigator properties" />
-            <InfoRow label="Window Props" value={client.windowPropsCount} tooltip="Number of window properties" />
+            {ownClient && (
+              <>
+                <InfoRow label="Math Hash" value={ownClient.mathFingerprint} tooltip="JS engine math differences" entropy={bits('mathFingerprint')} />
+                <InfoRow label="Timing Hash" value={ownClient.timingFingerprint} tooltip="CPU performance fingerprint" />
+                <InfoRow label="Error Hash" value={ownClient.errorFingerprint} tooltip="Error message fingerprint" entropy={bits('errorFingerprint')} />
+                <InfoRow label="Navigator Props" value={ownClient.navigatorPropsCount} tooltip="Number of navigator properties" entropy={bits('navigatorPropsCount')} />
+                <InfoRow label="Window Props" value={ownClient.windowPropsCount} tooltip="Number of window properties" entropy={bits('windowPropsCount')} />
+              </>
+            )}
             <InfoRow label="Max Downlink" value={client.downlinkMax ? `${client.downlinkMax} Mbps` : 'N/A'} />
           </InfoSection>
         )}
 
         {/* WASM Fingerprint */}
-        {client?.wasmFingerprint && (
+        {ownClient?.wasmFingerprint && (
           <InfoSection title="WebAssembly Fingerprint" icon="W">
             <InfoRow
               label="WASM Support"
-              value={client.wasmFingerprint.supported ? 'Supported' : 'Not Supported'}
+              value={ownClient.wasmFingerprint.supported ? 'Supported' : 'Not Supported'}
               tooltip="WebAssembly support in this browser"
             />
-            {client.wasmFingerprint.supported && (
+            {ownClient.wasmFingerprint.supported && (
               <>
                 <InfoRow
                   label="Features"
                   value={[
-                    client.wasmFingerprint.features.simd && 'SIMD',
-                    client.wasmFingerprint.features.threads && 'Threads',
-                    client.wasmFingerprint.features.exceptions && 'Exceptions',
-                    client.wasmFingerprint.features.gc && 'GC',
-                    client.wasmFingerprint.features.tailCall && 'Tail Call',
-                    client.wasmFingerprint.features.relaxedSimd && 'Relaxed SIMD',
-                    client.wasmFingerprint.features.referenceTypes && 'Ref Types',
-                    client.wasmFingerprint.features.bulkMemory && 'Bulk Memory',
+                    ownClient.wasmFingerprint.features.simd && 'SIMD',
+                    ownClient.wasmFingerprint.features.threads && 'Threads',
+                    ownClient.wasmFingerprint.features.exceptions && 'Exceptions',
+                    ownClient.wasmFingerprint.features.gc && 'GC',
+                    ownClient.wasmFingerprint.features.tailCall && 'Tail Call',
+                    ownClient.wasmFingerprint.features.relaxedSimd && 'Relaxed SIMD',
+                    ownClient.wasmFingerprint.features.referenceTypes && 'Ref Types',
+                    ownClient.wasmFingerprint.features.bulkMemory && 'Bulk Memory',
                   ].filter(Boolean).join(', ') || 'Basic only'}
                   tooltip="Detected WASM features"
                 />
-                {client.wasmFingerprint.timing && (
+                {ownClient.wasmFingerprint.timing && (
                   <>
                     <InfoRow
                       label="Call Latency"
-                      value={`${client.wasmFingerprint.timing.callLatencyMicros.toFixed(2)} us`}
+                      value={`${ownClient.wasmFingerprint.timing.callLatencyMicros.toFixed(2)} us`}
                       tooltip="JS-to-WASM call latency"
                     />
                     <InfoRow
                       label="Memory Access"
-                      value={`${client.wasmFingerprint.timing.memoryAccessMicros.toFixed(2)} us`}
+                      value={`${ownClient.wasmFingerprint.timing.memoryAccessMicros.toFixed(2)} us`}
                       tooltip="WASM memory access timing"
                     />
                     <InfoRow
                       label="Compilation Time"
-                      value={`${client.wasmFingerprint.timing.compilationTimeMs.toFixed(2)} ms`}
+                      value={`${ownClient.wasmFingerprint.timing.compilationTimeMs.toFixed(2)} ms`}
                       tooltip="WASM module compilation time"
                     />
                   </>
                 )}
-                {client.wasmFingerprint.benchmark && (
+                {ownClient.wasmFingerprint.benchmark && (
                   <>
                     <InfoRow
                       label="CPU Tier"
-                      value={`Tier ${client.wasmFingerprint.benchmark.cpuTier}/5`}
+                      value={`Tier ${ownClient.wasmFingerprint.benchmark.cpuTier}/5`}
                       tooltip="Estimated CPU performance tier"
-                      warning={client.wasmFingerprint.benchmark.cpuTier <= 2}
+                      warning={ownClient.wasmFingerprint.benchmark.cpuTier <= 2}
                     />
                     <InfoRow
                       label="Int Ops/ms"
-                      value={client.wasmFingerprint.benchmark.intOpsPerMs.toLocaleString()}
+                      value={ownClient.wasmFingerprint.benchmark.intOpsPerMs.toLocaleString()}
                       tooltip="Integer operations per millisecond"
                     />
                     <InfoRow
                       label="Float Ops/ms"
-                      value={client.wasmFingerprint.benchmark.floatOpsPerMs.toLocaleString()}
+                      value={ownClient.wasmFingerprint.benchmark.floatOpsPerMs.toLocaleString()}
                       tooltip="Floating point operations per millisecond"
                     />
                     <InfoRow
                       label="Memory Throughput"
-                      value={`${client.wasmFingerprint.benchmark.memoryThroughputMBps.toFixed(1)} MB/s`}
+                      value={`${ownClient.wasmFingerprint.benchmark.memoryThroughputMBps.toFixed(1)} MB/s`}
                       tooltip="WASM memory throughput"
                     />
                   </>
                 )}
-                {client.wasmFingerprint.memoryLimits && (
+                {ownClient.wasmFingerprint.memoryLimits && (
                   <InfoRow
                     label="Max Memory"
-                    value={`${Math.round(client.wasmFingerprint.memoryLimits.maxPages * 64 / 1024)} MB`}
+                    value={`${Math.round(ownClient.wasmFingerprint.memoryLimits.maxPages * 64 / 1024)} MB`}
                     tooltip="Maximum WASM memory allocation"
                   />
                 )}
                 <InfoRow
                   label="WASM Hash"
-                  value={client.wasmFingerprint.fingerprintHash}
+                  value={ownClient.wasmFingerprint.fingerprintHash}
                   tooltip="Unique WASM fingerprint hash"
                   warning
+                  entropy={bits('wasmFingerprint')}
                 />
                 <InfoRow
                   label="Confidence"
-                  value={`${client.wasmFingerprint.confidence}%`}
+                  value={`${ownClient.wasmFingerprint.confidence}%`}
                   tooltip="Fingerprint reliability score"
                 />
               </>
@@ -987,76 +1192,76 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         )}
 
         {/* WebGPU Fingerprint */}
-        {client?.webgpuFingerprint && (
+        {ownClient?.webgpuFingerprint && (
           <InfoSection title="WebGPU Fingerprint" icon="G">
             <InfoRow
               label="WebGPU"
-              value={client.webgpuFingerprint.available ? 'Available' : 'Not Available'}
+              value={ownClient.webgpuFingerprint.available ? 'Available' : 'Not Available'}
               tooltip="WebGPU API availability"
             />
-            {client.webgpuFingerprint.available && client.webgpuFingerprint.adapterInfo && (
+            {ownClient.webgpuFingerprint.available && ownClient.webgpuFingerprint.adapterInfo && (
               <>
                 <InfoRow
                   label="GPU Vendor"
-                  value={client.webgpuFingerprint.adapterInfo.vendor}
+                  value={ownClient.webgpuFingerprint.adapterInfo.vendor}
                   tooltip="GPU vendor from WebGPU"
                 />
                 <InfoRow
                   label="Architecture"
-                  value={client.webgpuFingerprint.adapterInfo.architecture}
+                  value={ownClient.webgpuFingerprint.adapterInfo.architecture}
                   tooltip="GPU architecture"
                 />
                 <InfoRow
                   label="Device"
-                  value={client.webgpuFingerprint.adapterInfo.device}
+                  value={ownClient.webgpuFingerprint.adapterInfo.device}
                   tooltip="GPU device identifier"
                 />
-                {client.webgpuFingerprint.adapterInfo.description && client.webgpuFingerprint.adapterInfo.description !== 'unknown' && (
+                {ownClient.webgpuFingerprint.adapterInfo.description && ownClient.webgpuFingerprint.adapterInfo.description !== 'unknown' && (
                   <InfoRow
                     label="Description"
-                    value={client.webgpuFingerprint.adapterInfo.description.substring(0, 50) + (client.webgpuFingerprint.adapterInfo.description.length > 50 ? '...' : '')}
-                    tooltip={client.webgpuFingerprint.adapterInfo.description}
+                    value={ownClient.webgpuFingerprint.adapterInfo.description.substring(0, 50) + (ownClient.webgpuFingerprint.adapterInfo.description.length > 50 ? '...' : '')}
+                    tooltip={ownClient.webgpuFingerprint.adapterInfo.description}
                   />
                 )}
                 <InfoRow
                   label="Fallback Adapter"
-                  value={client.webgpuFingerprint.adapterInfo.isFallbackAdapter}
+                  value={ownClient.webgpuFingerprint.adapterInfo.isFallbackAdapter}
                   tooltip="Using software fallback"
-                  warning={client.webgpuFingerprint.adapterInfo.isFallbackAdapter}
+                  warning={ownClient.webgpuFingerprint.adapterInfo.isFallbackAdapter}
                 />
               </>
             )}
-            {client.webgpuFingerprint.available && (
+            {ownClient.webgpuFingerprint.available && (
               <>
                 <InfoRow
                   label="Feature Count"
-                  value={client.webgpuFingerprint.features.length}
+                  value={ownClient.webgpuFingerprint.features.length}
                   tooltip="Number of supported WebGPU features"
                 />
-                {client.webgpuFingerprint.features.length > 0 && (
+                {ownClient.webgpuFingerprint.features.length > 0 && (
                   <InfoRow
                     label="Key Features"
-                    value={client.webgpuFingerprint.features.slice(0, 5).join(', ') + (client.webgpuFingerprint.features.length > 5 ? '...' : '')}
-                    tooltip={client.webgpuFingerprint.features.join(', ')}
+                    value={ownClient.webgpuFingerprint.features.slice(0, 5).join(', ') + (ownClient.webgpuFingerprint.features.length > 5 ? '...' : '')}
+                    tooltip={ownClient.webgpuFingerprint.features.join(', ')}
                   />
                 )}
-                {client.webgpuFingerprint.preferredCanvasFormat && (
+                {ownClient.webgpuFingerprint.preferredCanvasFormat && (
                   <InfoRow
                     label="Canvas Format"
-                    value={client.webgpuFingerprint.preferredCanvasFormat}
+                    value={ownClient.webgpuFingerprint.preferredCanvasFormat}
                     tooltip="Preferred canvas format for this GPU"
                   />
                 )}
-                {client.webgpuFingerprint.computeTimingFingerprint && (
+                {ownClient.webgpuFingerprint.computeTimingFingerprint && (
                   <>
                     <InfoRow
                       label="Compute Timing"
-                      value={`${client.webgpuFingerprint.computeTimingFingerprint.avgExecutionTime.toFixed(2)} ms`}
+                      value={`${ownClient.webgpuFingerprint.computeTimingFingerprint.avgExecutionTime.toFixed(2)} ms`}
                       tooltip="Average compute shader execution time"
                     />
                     <InfoRow
                       label="Timing Pattern"
-                      value={client.webgpuFingerprint.computeTimingFingerprint.patternHash}
+                      value={ownClient.webgpuFingerprint.computeTimingFingerprint.patternHash}
                       tooltip="GPU scheduling pattern hash - unique to GPU model"
                       warning
                     />
@@ -1064,9 +1269,10 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
                 )}
                 <InfoRow
                   label="WebGPU Hash"
-                  value={client.webgpuFingerprint.fingerprintHash}
+                  value={ownClient.webgpuFingerprint.fingerprintHash}
                   tooltip="Unique WebGPU fingerprint hash"
                   warning
+                  entropy={bits('webgpuFingerprint')}
                 />
               </>
             )}
@@ -1142,207 +1348,265 @@ export function InfoPanel({ visitor, isCurrentUser, onClose, aiLoading }: InfoPa
         )}
 
         {/* Real-time Behavior Tracking */}
-        {client && (
+        {ownClient && (
           <InfoSection title="Mouse Behavior" icon="M">
-            <InfoRow label="Speed" value={`${client.behavior.mouseSpeed} px/s`} tooltip="Average mouse speed" />
-            <InfoRow label="Acceleration" value={`${client.behavior.mouseAcceleration}`} />
-            <InfoRow label="Movements" value={client.behavior.mouseMovements} />
-            <InfoRow label="Distance" value={`${client.behavior.mouseDistanceTraveled} px`} tooltip="Total distance traveled" />
-            <InfoRow label="Idle Time" value={`${Math.round(client.behavior.mouseIdleTime / 1000)}s`} />
-            <InfoRow label="Clicks" value={client.behavior.clickCount} />
-            <InfoRow label="Click Interval" value={client.behavior.avgClickInterval ? `${client.behavior.avgClickInterval}ms` : 'N/A'} />
+            <InfoRow label="Speed" value={`${ownClient.behavior.mouseSpeed} px/s`} tooltip="Average mouse speed" />
+            <InfoRow label="Acceleration" value={`${ownClient.behavior.mouseAcceleration}`} />
+            <InfoRow label="Movements" value={ownClient.behavior.mouseMovements} />
+            <InfoRow label="Distance" value={`${ownClient.behavior.mouseDistanceTraveled} px`} tooltip="Total distance traveled" />
+            <InfoRow label="Idle Time" value={`${Math.round(ownClient.behavior.mouseIdleTime / 1000)}s`} />
+            <InfoRow label="Clicks" value={ownClient.behavior.clickCount} />
+            <InfoRow label="Click Interval" value={ownClient.behavior.avgClickInterval ? `${ownClient.behavior.avgClickInterval}ms` : 'N/A'} />
           </InfoSection>
         )}
 
-        {client && (
+        {ownClient && (
           <InfoSection title="Scroll Behavior" icon="S">
-            <InfoRow label="Speed" value={`${client.behavior.scrollSpeed} px/s`} />
-            <InfoRow label="Max Depth" value={`${Math.round(client.behavior.scrollDepthMax * 100)}%`} tooltip="Deepest scroll position" />
-            <InfoRow label="Direction Changes" value={client.behavior.scrollDirectionChanges} />
-            <InfoRow label="Scroll Events" value={client.behavior.scrollEvents} />
+            <InfoRow label="Speed" value={`${ownClient.behavior.scrollSpeed} px/s`} />
+            <InfoRow label="Max Depth" value={`${Math.round(ownClient.behavior.scrollDepthMax * 100)}%`} tooltip="Deepest scroll position" />
+            <InfoRow label="Direction Changes" value={ownClient.behavior.scrollDirectionChanges} />
+            <InfoRow label="Scroll Events" value={ownClient.behavior.scrollEvents} />
           </InfoSection>
         )}
 
-        {client && (
+        {ownClient && (
           <InfoSection title="Typing Behavior" icon="K">
-            <InfoRow label="Keys Pressed" value={client.behavior.keyPressCount} />
-            <InfoRow label="Hold Time" value={client.behavior.avgKeyHoldTime ? `${client.behavior.avgKeyHoldTime}ms` : 'N/A'} tooltip="Average key hold duration" />
-            <InfoRow label="Key Interval" value={client.behavior.avgKeyInterval ? `${client.behavior.avgKeyInterval}ms` : 'N/A'} tooltip="Time between key presses" />
-            <InfoRow label="Typing Speed" value={`${client.behavior.typingSpeed} CPM`} tooltip="Characters per minute" />
+            <InfoRow label="Keys Pressed" value={ownClient.behavior.keyPressCount} />
+            <InfoRow label="Hold Time" value={ownClient.behavior.avgKeyHoldTime ? `${ownClient.behavior.avgKeyHoldTime}ms` : 'N/A'} tooltip="Average key hold duration" />
+            <InfoRow label="Key Interval" value={ownClient.behavior.avgKeyInterval ? `${ownClient.behavior.avgKeyInterval}ms` : 'N/A'} tooltip="Time between key presses" />
+            <InfoRow label="Typing Speed" value={`${ownClient.behavior.typingSpeed} CPM`} tooltip="Characters per minute" />
           </InfoSection>
         )}
 
-        {client && (client.behavior.touchCount > 0 || navigator.maxTouchPoints > 0) && (
+        {ownClient && (ownClient.behavior.touchCount > 0 || navigator.maxTouchPoints > 0) && (
           <InfoSection title="Touch Behavior" icon="T">
-            <InfoRow label="Touches" value={client.behavior.touchCount} />
-            <InfoRow label="Avg Pressure" value={client.behavior.avgTouchPressure || 'N/A'} />
-            <InfoRow label="Pinch Zooms" value={client.behavior.pinchZoomCount} />
-            <InfoRow label="Swipes" value={client.behavior.swipeCount} />
+            <InfoRow label="Touches" value={ownClient.behavior.touchCount} />
+            <InfoRow label="Avg Pressure" value={ownClient.behavior.avgTouchPressure || 'N/A'} />
+            <InfoRow label="Pinch Zooms" value={ownClient.behavior.pinchZoomCount} />
+            <InfoRow label="Swipes" value={ownClient.behavior.swipeCount} />
           </InfoSection>
         )}
 
-        {client && (
+        {ownClient && (
           <InfoSection title="Attention Tracking" icon="!">
-            <InfoRow label="Tab Switches" value={client.behavior.tabSwitchCount} tooltip="Times you switched away from this tab" warning={client.behavior.tabSwitchCount > 0} />
-            <InfoRow label="Focus Time" value={formatDuration(client.behavior.totalFocusTime)} tooltip="Time spent with tab focused" />
-            <InfoRow label="Away Time" value={formatDuration(client.behavior.totalBlurTime)} tooltip="Time spent on other tabs" />
-            <InfoRow label="Session Duration" value={formatDuration(client.behavior.sessionDuration)} />
-            <InfoRow label="First Interaction" value={client.behavior.firstInteractionTime ? `${Math.round(client.behavior.firstInteractionTime)}ms` : 'N/A'} tooltip="Time until first mouse/key/touch" />
+            <InfoRow label="Tab Switches" value={ownClient.behavior.tabSwitchCount} tooltip="Times you switched away from this tab" warning={ownClient.behavior.tabSwitchCount > 0} />
+            <InfoRow label="Focus Time" value={formatDuration(ownClient.behavior.totalFocusTime)} tooltip="Time spent with tab focused" />
+            <InfoRow label="Away Time" value={formatDuration(ownClient.behavior.totalBlurTime)} tooltip="Time spent on other tabs" />
+            <InfoRow label="Session Duration" value={formatDuration(ownClient.behavior.sessionDuration)} />
+            <InfoRow label="First Interaction" value={ownClient.behavior.firstInteractionTime ? `${Math.round(ownClient.behavior.firstInteractionTime)}ms` : 'N/A'} tooltip="Time until first mouse/key/touch" />
           </InfoSection>
         )}
 
         {/* Installed Apps */}
-        {client && client.installedApps.length > 0 && (
+        {ownClient && ownClient.installedApps.length > 0 && (
           <InfoSection title="Installed Apps" icon="A">
-            {client.installedApps.map((app) => (
+            {ownClient.installedApps.map((app) => (
               <InfoRow key={app} label={app} value="Detected" warning />
             ))}
           </InfoSection>
         )}
 
         {/* Social Media Logins */}
-        {client && (
+        {ownClient && (
           <InfoSection title="Logged Into" icon="L">
             <InfoRow
               label="Google"
-              value={client.socialLogins.google === null ? 'Unknown' : client.socialLogins.google ? 'Logged In' : 'Not Logged In'}
-              warning={client.socialLogins.google === true}
+              value={ownClient.socialLogins.google === null ? 'Unknown' : ownClient.socialLogins.google ? 'Logged In' : 'Not Logged In'}
+              warning={ownClient.socialLogins.google === true}
             />
             <InfoRow
               label="Facebook"
-              value={client.socialLogins.facebook === null ? 'Unknown' : client.socialLogins.facebook ? 'Logged In' : 'Not Logged In'}
-              warning={client.socialLogins.facebook === true}
+              value={ownClient.socialLogins.facebook === null ? 'Unknown' : ownClient.socialLogins.facebook ? 'Logged In' : 'Not Logged In'}
+              warning={ownClient.socialLogins.facebook === true}
             />
             <InfoRow
               label="Twitter"
-              value={client.socialLogins.twitter === null ? 'Unknown' : client.socialLogins.twitter ? 'Logged In' : 'Not Logged In'}
-              warning={client.socialLogins.twitter === true}
+              value={ownClient.socialLogins.twitter === null ? 'Unknown' : ownClient.socialLogins.twitter ? 'Logged In' : 'Not Logged In'}
+              warning={ownClient.socialLogins.twitter === true}
             />
             <InfoRow
               label="GitHub"
-              value={client.socialLogins.github === null ? 'Unknown' : client.socialLogins.github ? 'Logged In' : 'Not Logged In'}
-              warning={client.socialLogins.github === true}
+              value={ownClient.socialLogins.github === null ? 'Unknown' : ownClient.socialLogins.github ? 'Logged In' : 'Not Logged In'}
+              warning={ownClient.socialLogins.github === true}
             />
             <InfoRow
               label="Reddit"
-              value={client.socialLogins.reddit === null ? 'Unknown' : client.socialLogins.reddit ? 'Logged In' : 'Not Logged In'}
-              warning={client.socialLogins.reddit === true}
+              value={ownClient.socialLogins.reddit === null ? 'Unknown' : ownClient.socialLogins.reddit ? 'Logged In' : 'Not Logged In'}
+              warning={ownClient.socialLogins.reddit === true}
             />
           </InfoSection>
         )}
 
         {/* Crypto Wallets */}
-        {client && client.cryptoWallets.length > 0 && (
+        {ownClient && ownClient.cryptoWallets.length > 0 && (
           <InfoSection title="Crypto Wallets" icon="$">
-            {client.cryptoWallets.map((wallet) => (
+            {ownClient.cryptoWallets.map((wallet) => (
               <InfoRow key={wallet} label={wallet} value="Connected" warning />
             ))}
           </InfoSection>
         )}
 
-        {/* VPN Detection */}
-        {client && (
-          <InfoSection title="VPN/Proxy Detection" icon="V">
+        {/* VPN/Proxy Verdict (computed by the server) */}
+        <InfoSection title="VPN/Proxy Detection" icon="V">
+          <InfoRow
+            label="Likely VPN or Proxy"
+            value={server.networkVerdict.likelyVPNOrProxy}
+            warning={server.networkVerdict.likelyVPNOrProxy}
+          />
+          <InfoRow
+            label="Suspicion Score"
+            value={`${server.networkVerdict.score}/100`}
+            tooltip="Sum of the signals below - no single one is proof"
+          />
+          {server.networkVerdict.evidence.map((e, i) => (
+            <InfoRow
+              key={i}
+              label={NETWORK_SIGNAL_LABELS[e.signal]}
+              value={e.detail}
+              tooltip={`Adds ${e.weight} points`}
+              warning
+            />
+          ))}
+        </InfoSection>
+
+        {/* Passive header fingerprint (computed by the server) */}
+        {ownServer && (
+          <InfoSection title="What Your Request Headers Reveal" icon="H">
+            <InfoRow
+              label="Header Fingerprint"
+              value={ownServer.headerFingerprint.hash}
+              tooltip="Shared only by browsers of the same build and configuration - no JavaScript needed"
+            />
             <InfoRow
-              label="Likely Using VPN"
-              value={client.vpnDetection.likelyUsingVPN}
-              warning={client.vpnDetection.likelyUsingVPN}
+              label="Header Order"
+              value={ownServer.headerFingerprint.order.join(', ')}
+              tooltip="Each browser sends its headers in its own fixed order"
             />
+            <InfoRow label="Accept-Encoding" value={ownServer.headerFingerprint.acceptEncoding || 'Not sent'} />
             <InfoRow
-              label="Timezone Mismatch"
-              value={client.vpnDetection.timezoneIPMismatch}
-              tooltip="Your browser timezone doesn't match your IP location"
-              warning={client.vpnDetection.timezoneIPMismatch}
+              label="Client Hints"
+              value={ownServer.headerFingerprint.clientHints['sec-ch-ua'] ?? 'Not sent'}
+              tooltip="Chromium browsers announce their brand and version in sec-ch-ua"
             />
+            {ownServer.headerFingerprint.inconsistencies.length === 0 ? (
+              <InfoRow label="Inconsistencies" value="None - your headers tell one story" />
+            ) : (
+              ownServer.headerFingerprint.inconsistencies.map((inconsistency, i) => (
+                <InfoRow
+                  key={i}
+                  label={inconsistency.source === 'client' ? 'Headers vs JavaScript' : 'Inconsistent Headers'}
+                  value={inconsistency.detail}
+                  tooltip="Spoofing tools often change one value but not the others that should match it"
+                  warning
+                />
+              ))
+            )}
+          </InfoSection>
+        )}
+
+        {/* Lie detection: client claims cross-checked on the server */}
+        {consistencyReport && (
+          <InfoSection title="Lie Detector" icon="?">
             <InfoRow
-              label="WebRTC Leak"
-              value={client.vpnDetection.webrtcLeak}
-              tooltip="Your real IP might be leaking through WebRTC"
-              warning={client.vpnDetection.webrtcLeak}
+              label="Checks Run"
+              value={consistencyReport.checked.map((check) => CONSISTENCY_CHECK_LABELS[check]).join(', ')}
+              tooltip="What your browser says about itself, compared with what the server sees"
             />
+            {consistencyReport.signals.length === 0 ? (
+              <InfoRow label="Contradictions" value="None - you look like what you say you are" />
+            ) : (
+              consistencyReport.signals.map((signal, i) => (
+                <InfoRow
+                  key={i}
+                  label={CONSISTENCY_CHECK_LABELS[signal.check]}
+                  value={signal.detail}
+                  warning
+                />
+              ))
+            )}
           </InfoSection>
         )}
 
         {/* Advanced Behavior - DevTools & Idle */}
-        {client && (
+        {ownClient && (
           <InfoSection title="You Right Now" icon="!">
             <InfoRow
               label="DevTools Open"
-              value={client.advancedBehavior.devToolsOpen}
+              value={ownClient.advancedBehavior.devToolsOpen}
               tooltip="We can detect if you're inspecting this page!"
-              warning={client.advancedBehavior.devToolsOpen}
+              warning={ownClient.advancedBehavior.devToolsOpen}
             />
             <InfoRow
               label="Status"
-              value={client.advancedBehavior.isIdle ? 'Away/Idle' : 'Active'}
-              warning={client.advancedBehavior.isIdle}
+              value={ownClient.advancedBehavior.isIdle ? 'Away/Idle' : 'Active'}
+              warning={ownClient.advancedBehavior.isIdle}
             />
             <InfoRow
               label="Idle Time"
-              value={formatDuration(client.advancedBehavior.idleTime)}
+              value={formatDuration(ownClient.advancedBehavior.idleTime)}
             />
             <InfoRow
               label="Times Went AFK"
-              value={client.advancedBehavior.afkCount}
+              value={ownClient.advancedBehavior.afkCount}
             />
             <InfoRow
               label="Mouse In Window"
-              value={!client.advancedBehavior.mouseLeftWindow}
+              value={!ownClient.advancedBehavior.mouseLeftWindow}
             />
           </InfoSection>
         )}
 
         {/* Frustration & Engagement */}
-        {client && (
+        {ownClient && (
           <InfoSection title="Your Emotions" icon="H">
             <InfoRow
               label="Rage Clicks"
-              value={client.advancedBehavior.rageClickCount}
+              value={ownClient.advancedBehavior.rageClickCount}
               tooltip="Rapid clicking in same area = frustration!"
-              warning={client.advancedBehavior.rageClickCount > 0}
+              warning={ownClient.advancedBehavior.rageClickCount > 0}
             />
             <InfoRow
               label="Exit Intents"
-              value={client.advancedBehavior.exitIntentCount}
+              value={ownClient.advancedBehavior.exitIntentCount}
               tooltip="Mouse moved to close/leave the page"
             />
             <InfoRow
               label="Engagement"
-              value={`${client.advancedBehavior.contentEngagement}%`}
+              value={`${ownClient.advancedBehavior.contentEngagement}%`}
             />
             <InfoRow
               label="Handedness"
-              value={`${client.advancedBehavior.likelyHandedness} (${client.advancedBehavior.handednessConfidence}% conf)`}
+              value={`${ownClient.advancedBehavior.likelyHandedness} (${ownClient.advancedBehavior.handednessConfidence}% conf)`}
               tooltip="We can guess if you're left or right handed!"
             />
           </InfoSection>
         )}
 
         {/* Clipboard & Selection */}
-        {client && (
+        {ownClient && (
           <InfoSection title="Copy/Paste Activity" icon="C">
-            <InfoRow label="Text Selections" value={client.advancedBehavior.textSelectCount} />
+            <InfoRow label="Text Selections" value={ownClient.advancedBehavior.textSelectCount} />
             <InfoRow
               label="Last Selected"
-              value={client.advancedBehavior.lastSelectedText || 'None'}
+              value={ownClient.advancedBehavior.lastSelectedText || 'None'}
               tooltip="We can see what text you highlight!"
-              warning={!!client.advancedBehavior.lastSelectedText}
+              warning={!!ownClient.advancedBehavior.lastSelectedText}
             />
-            <InfoRow label="Copies" value={client.advancedBehavior.copyCount} />
-            <InfoRow label="Pastes" value={client.advancedBehavior.pasteCount} />
-            <InfoRow label="Right Clicks" value={client.advancedBehavior.rightClickCount} />
+            <InfoRow label="Copies" value={ownClient.advancedBehavior.copyCount} />
+            <InfoRow label="Pastes" value={ownClient.advancedBehavior.pasteCount} />
+            <InfoRow label="Right Clicks" value={ownClient.advancedBehavior.rightClickCount} />
             <InfoRow
               label="Screenshot Attempts"
-              value={client.advancedBehavior.screenshotAttempts}
-              warning={client.advancedBehavior.screenshotAttempts > 0}
+              value={ownClient.advancedBehavior.screenshotAttempts}
+              warning={ownClient.advancedBehavior.screenshotAttempts > 0}
             />
           </InfoSection>
         )}
 
         {/* Keyboard Shortcuts Used */}
-        {client && client.advancedBehavior.keyboardShortcutsUsed.length > 0 && (
+        {ownClient && ownClient.advancedBehavior.keyboardShortcutsUsed.length > 0 && (
           <InfoSection title="Shortcuts Used" icon="K">
-            {client.advancedBehavior.keyboardShortcutsUsed.slice(0, 10).map((shortcut) => (
+            {ownClient.advancedBehavior.keyboardShortcutsUsed.slice(0, 10).map((shortcut) => (
               <InfoRow key={shortcut} label={shortcut} value="Used" />
             ))}
           </InfoSection>
@@ -1379,5 +1643,6 @@ function formatTimestamp(timestamp: number): string {
   const minutes = Math.floor(seconds / 60);
   if (minutes < 60) return `${minutes}m ago`;
   const hours = Math.floor(minutes / 60);
-  return `${hours}h ago`;
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
 }
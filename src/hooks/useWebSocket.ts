@@ -11,8 +11,22 @@ import type {
   ClientInfo,
   BehaviorData,
   UserProfile,
+  EntropyReport,
+  StabilityReport,
+  IdentityMatch,
+  ConsistencyReport,
+  ErrorPayload,
+  VisitorUpdatedPayload,
+  VisitorDetail,
+  VisitorDetailPayload,
+  PublicVisitorSummary,
+  ProfilePartialPayload,
+  ProfileCompletePayload,
+  AIBudgetStatus,
 } from '../types';
 import { collectClientInfo } from '../utils/fingerprint';
+import { PROTOCOL_VERSION, WS_SUBPROTOCOL, RESUME_SUBPROTOCOL_PREFIX } from '../utils/protocol';
+import { applyPatch } from '../utils/jsonPatch';
 import { behaviorTracker } from '../utils/behavior';
 import { advancedBehaviorTracker } from '../utils/advanced';
 import { profileWithChromeAI, isChromeAIAvailable } from '../utils/chromeAI';
@@ -26,46 +40,124 @@ function getApiUrl(): string {
   return `http://localhost:${import.meta.env.VITE_WS_PORT || 3020}`;
 }
 
-/** Fetch AI profile from backend */
-async function fetchAIProfile(clientInfo: ClientInfo): Promise<{
-  profile: UserProfile | null;
-  source: 'ai' | 'cache' | 'fallback';
-}> {
+/** Our API token proves to the server that reports about us are requested by us */
+function ownerHeaders(apiToken: string | null): HeadersInit {
+  return apiToken ? { Authorization: `Bearer ${apiToken}` } : {};
+}
+
+/** Fetch fingerprint entropy report for our visitor */
+async function fetchEntropy(visitorId: string, apiToken: string | null): Promise<EntropyReport | null> {
   try {
-    const response = await fetch(`${getApiUrl()}/api/profile`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ clientInfo }),
+    const response = await fetch(`${getApiUrl()}/api/entropy/${encodeURIComponent(visitorId)}`, {
+      headers: ownerHeaders(apiToken),
     });
+    if (!response.ok) {
+      return null;
+    }
+    return await response.json();
+  } catch (err) {
+    console.error('Entropy fetch error:', err);
+    return null;
+  }
+}
 
+/** Fetch fingerprint stability history for our device */
+async function fetchStability(visitorId: string, apiToken: string | null): Promise<StabilityReport | null> {
+  try {
+    const response = await fetch(`${getApiUrl()}/api/stability/${encodeURIComponent(visitorId)}`, {
+      headers: ownerHeaders(apiToken),
+    });
     if (!response.ok) {
-      console.error('AI profile request failed:', response.status);
-      return { profile: null, source: 'fallback' };
+      return null;
     }
+    return await response.json();
+  } catch (err) {
+    console.error('Stability fetch error:', err);
+    return null;
+  }
+}
 
-    const data = await response.json();
-    return {
-      profile: data.profile,
-      source: data.source || 'fallback',
-    };
+/** Fetch fuzzy identity match for our visitor */
+async function fetchIdentityMatch(visitorId: string, apiToken: string | null): Promise<IdentityMatch | null> {
+  try {
+    const response = await fetch(`${getApiUrl()}/api/identity/match?visitorId=${encodeURIComponent(visitorId)}`, {
+      headers: ownerHeaders(apiToken),
+    });
+    if (!response.ok) {
+      return null;
+    }
+    return await response.json();
+  } catch (err) {
+    console.error('Identity match fetch error:', err);
+    return null;
+  }
+}
+
+/** Fetch spoofing signals from cross-checking our claims */
+async function fetchConsistency(visitorId: string, apiToken: string | null): Promise<ConsistencyReport | null> {
+  try {
+    const response = await fetch(`${getApiUrl()}/api/consistency/${encodeURIComponent(visitorId)}`, {
+      headers: ownerHeaders(apiToken),
+    });
+    if (!response.ok) {
+      return null;
+    }
+    return await response.json();
   } catch (err) {
-    console.error('AI profile fetch error:', err);
-    return { profile: null, source: 'fallback' };
+    console.error('Consistency fetch error:', err);
+    return null;
   }
 }
 
-/** AI source types */
-export type AISource = 'grok' | 'mimo' | 'chrome-gemini-nano' | 'fallback' | null;
+/** How often live behavior is streamed to the server (ms) */
+const BEHAVIOR_SEND_INTERVAL = 5000;
+
+/** Reconnect backoff: first retry after ~1s, doubling up to 30s */
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+/** Consecutive failed reconnects before giving up until the user retries */
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based). Jittered between half
+ * and all of the exponential step so clients dropped together don't retry together.
+ */
+function getReconnectDelay(attempt: number): number {
+  const step = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** (attempt - 1));
+  return step / 2 + Math.random() * (step / 2);
+}
+
+/** AI source: the server's LLM provider name (grok, openrouter, custom), Chrome's on-device model, or the rule-based fallback */
+export type AISource = string | null;
+
+/** Where the connection is in its reconnect cycle */
+export interface ReconnectState {
+  status: 'connecting' | 'connected' | 'waiting' | 'gave_up';
+  attempt: number; // consecutive failed attempts so far
+  maxAttempts: number;
+  nextAttemptAt: number | null; // when the next attempt starts (while waiting)
+  delayMs: number; // length of the current wait
+}
 
 interface UseWebSocketResult {
   connected: boolean;
-  visitors: VisitorInfo[];
+  reconnectState: ReconnectState;
+  reconnect: () => void;
+  visitors: PublicVisitorSummary[];
   currentVisitor: VisitorInfo | null;
+  visitorDetail: VisitorInfo | VisitorDetail | null;
+  requestVisitorDetail: (visitorId: string | null) => void;
   error: string | null;
   aiLoading: boolean;
-  aiCreditsExhausted: boolean;
+  aiCreditsExhausted: boolean; // the server's daily AI budget is spent
   totalUniqueVisitors: number;
   aiSource: AISource;
+  streamedProfile: Partial<UserProfile> | null; // AI profile as the server streams it, ahead of currentVisitor
+  entropy: EntropyReport | null;
+  stability: StabilityReport | null;
+  identityMatch: IdentityMatch | null;
+  consistency: ConsistencyReport | null;
 }
 
 /** Get WebSocket URL based on environment */
@@ -82,18 +174,48 @@ function getWebSocketUrl(): string {
 
 export function useWebSocket(): UseWebSocketResult {
   const [connected, setConnected] = useState(false);
-  const [visitors, setVisitors] = useState<VisitorInfo[]>([]);
+  const [reconnectState, setReconnectState] = useState<ReconnectState>({
+    status: 'connecting',
+    attempt: 0,
+    maxAttempts: MAX_RECONNECT_ATTEMPTS,
+    nextAttemptAt: null,
+    delayMs: 0,
+  });
+  const [visitors, setVisitors] = useState<PublicVisitorSummary[]>([]);
   const [currentVisitor, setCurrentVisitor] = useState<VisitorInfo | null>(null);
+  const [visitorDetail, setVisitorDetail] = useState<VisitorInfo | VisitorDetail | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
   const [aiCreditsExhausted, setAiCreditsExhausted] = useState(false);
   const [totalUniqueVisitors, setTotalUniqueVisitors] = useState(0);
   const [aiSource, setAiSource] = useState<AISource>(null);
+  const [streamedProfile, setStreamedProfile] = useState<Partial<UserProfile> | null>(null);
+  const [entropy, setEntropy] = useState<EntropyReport | null>(null);
+  const [stability, setStability] = useState<StabilityReport | null>(null);
+  const [identityMatch, setIdentityMatch] = useState<IdentityMatch | null>(null);
+  const [consistency, setConsistency] = useState<ConsistencyReport | null>(null);
 
   const wsRef = useRef<WebSocket | null>(null);
+  const visitorIdRef = useRef<string | null>(null);
+  // Token from the last welcome - lets a reconnect pick up the same visitor
+  const resumeTokenRef = useRef<string | null>(null);
+  // Bearer for our own /api reports, from the last welcome
+  const apiTokenRef = useRef<string | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  // The latest connect, for the reconnect timer to call
+  const connectRef = useRef<() => void>(() => {});
+  // Client info is collected once per page; reconnects resend it
+  const clientInfoRef = useRef<ClientInfo | null>(null);
   const behaviorIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const statsIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Last applied update seq per visitor, and visitors we've asked the server to resend
+  const seqsRef = useRef<Map<string, number>>(new Map());
+  const resyncPendingRef = useRef<Set<string>>(new Set());
+  // Other visitor whose details are being shown (kept fresh while selected)
+  const detailIdRef = useRef<string | null>(null);
+  // Resolves the pending request_profile (on profile_complete, a rejection or a dropped socket)
+  const profileResultRef = useRef<((result: ProfileCompletePayload) => void) | null>(null);
 
   // Fetch stats from server
   const fetchStats = useCallback(async () => {
@@ -124,31 +246,95 @@ export function useWebSocket(): UseWebSocketResult {
   }, []);
 
   const connect = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) return;
+    // A socket still opening counts too - a second one would become a second visitor
+    if (wsRef.current?.readyState === WebSocket.OPEN || wsRef.current?.readyState === WebSocket.CONNECTING) return;
 
     const url = getWebSocketUrl();
     console.log('Connecting to WebSocket:', url);
+    const resumeToken = resumeTokenRef.current;
 
     try {
-      const ws = new WebSocket(url);
+      const ws = new WebSocket(
+        url,
+        resumeToken ? [WS_SUBPROTOCOL, `${RESUME_SUBPROTOCOL_PREFIX}${resumeToken}`] : [WS_SUBPROTOCOL]
+      );
       wsRef.current = ws;
 
+      // Resolved by the first welcome on this socket
+      let onWelcome: (payload: WelcomePayload) => void = () => {};
+      const welcomed = new Promise<WelcomePayload>((resolve) => {
+        onWelcome = resolve;
+      });
+
       ws.onopen = async () => {
         console.log('WebSocket connected');
         setConnected(true);
         setError(null);
+        setReconnectState((prev) => ({ ...prev, status: 'connected', nextAttemptAt: null }));
 
         // Fetch initial stats and refresh every 30 seconds
         fetchStats();
         statsIntervalRef.current = setInterval(fetchStats, 30000);
 
+        // Update behavior data every second, and stream it to the server when it changed
+        const startBehaviorStream = () => {
+          let lastBehaviorSentAt = 0;
+          let lastBehaviorSent = '';
+          behaviorIntervalRef.current = setInterval(() => {
+            const behavior = behaviorTracker.getData();
+            const advancedBehavior = advancedBehaviorTracker.getData();
+            updateBehavior(behavior, advancedBehavior);
+
+            const now = Date.now();
+            if (now - lastBehaviorSentAt < BEHAVIOR_SEND_INTERVAL || ws.readyState !== WebSocket.OPEN) return;
+            const serialized = JSON.stringify({ behavior, advancedBehavior });
+            if (serialized === lastBehaviorSent) return;
+            lastBehaviorSentAt = now;
+            lastBehaviorSent = serialized;
+            ws.send(
+              JSON.stringify({
+                type: 'behavior_update',
+                payload: { behavior, advancedBehavior },
+                v: PROTOCOL_VERSION,
+              })
+            );
+          }, 1000);
+        };
+
+        // A resumed session still has our client info (and AI profile) on the server
+        const welcome = await welcomed;
+        if (welcome.resumed && welcome.visitor.client) {
+          console.log('Resumed previous session');
+          startBehaviorStream();
+          return;
+        }
+
+        // Already collected on an earlier connection - send it again (with fresh behavior) and skip the AI profile
+        if (clientInfoRef.current) {
+          const clientInfo = clientInfoRef.current;
+          clientInfo.behavior = behaviorTracker.getData();
+          clientInfo.advancedBehavior = advancedBehaviorTracker.getData();
+          ws.send(
+            JSON.stringify({
+              type: 'client_info',
+              payload: { clientInfo },
+              v: PROTOCOL_VERSION,
+            })
+          );
+          startBehaviorStream();
+          return;
+        }
+
         // Collect and send client info
         try {
-          const clientInfo: ClientInfo = await collectClientInfo();
+          const { clientInfo, telemetry } = await collectClientInfo();
+          clientInfoRef.current = clientInfo;
+          // Collector telemetry goes with the first report only so the server counts each run once
           ws.send(
             JSON.stringify({
               type: 'client_info',
-              payload: { clientInfo },
+              payload: { clientInfo, collectors: telemetry },
+              v: PROTOCOL_VERSION,
             })
           );
 
@@ -156,17 +342,29 @@ export function useWebSocket(): UseWebSocketResult {
           behaviorTracker.start();
           advancedBehaviorTracker.start();
 
-          // Fetch AI profile in background (don't block connection)
-          console.log('Fetching AI profile in background...');
+          // Request the AI profile in background (don't block connection) - it streams back field by field
+          console.log('Requesting AI profile in background...');
           setAiLoading(true);
+          const profileResult = new Promise<ProfileCompletePayload>((resolve) => {
+            profileResultRef.current = resolve;
+          });
+          ws.send(
+            JSON.stringify({
+              type: 'request_profile',
+              payload: {},
+              v: PROTOCOL_VERSION,
+            })
+          );
 
-          // Helper to send updated client info
+          // Helper to send updated client info (on whichever socket is current by then)
           const sendClientInfo = () => {
-            if (ws.readyState === WebSocket.OPEN) {
+            const ws = wsRef.current;
+            if (ws && ws.readyState === WebSocket.OPEN) {
               ws.send(
                 JSON.stringify({
                   type: 'client_info',
                   payload: { clientInfo },
+                  v: PROTOCOL_VERSION,
                 })
               );
             }
@@ -200,7 +398,6 @@ export function useWebSocket(): UseWebSocketResult {
                   likelyDesigner: chromeProfile.designerScore > 60,
                 };
                 setAiSource('chrome-gemini-nano');
-                setAiCreditsExhausted(false);
                 sendClientInfo();
                 return true;
               }
@@ -208,24 +405,21 @@ export function useWebSocket(): UseWebSocketResult {
             return false;
           };
 
-          fetchAIProfile(clientInfo).then(async (aiResult) => {
+          profileResult.then(async (aiResult) => {
             // If server returned real AI profile (not fallback), use it
             if (aiResult.profile && aiResult.source !== 'fallback') {
               console.log(`AI profile loaded (source: ${aiResult.source})`);
-              setAiCreditsExhausted(false);
-              // Check if profile came from MiMo or Grok
-              const profileAiSource = (aiResult.profile as any).aiSource;
-              if (profileAiSource === 'mimo') {
-                setAiSource('mimo');
-              } else {
-                setAiSource('grok');
-              }
+              // The server tags the profile with the provider that generated it
+              setAiSource(aiResult.profile.aiSource ?? 'server');
+              // Keep showing it until our client info comes back from the server with it
+              setStreamedProfile(aiResult.profile);
               clientInfo.userProfile = aiResult.profile;
               sendClientInfo();
               setAiLoading(false);
             } else {
               // Server returned fallback or empty - try Chrome AI first
               console.log('Server AI unavailable, trying Chrome AI fallback...');
+              setStreamedProfile(null);
               const chromeSuccess = await tryChromeAIFallback();
 
               if (!chromeSuccess) {
@@ -237,7 +431,6 @@ export function useWebSocket(): UseWebSocketResult {
                   setAiSource('fallback');
                 } else {
                   console.log('No AI available');
-                  setAiCreditsExhausted(true);
                   setAiSource('fallback');
                 }
               }
@@ -245,23 +438,18 @@ export function useWebSocket(): UseWebSocketResult {
             }
           }).catch(async (err) => {
             console.error('AI profile error:', err);
+            setStreamedProfile(null);
 
             // Try Chrome AI fallback on error
             const chromeSuccess = await tryChromeAIFallback();
 
             if (!chromeSuccess) {
-              setAiCreditsExhausted(true);
               setAiSource('fallback');
             }
             setAiLoading(false);
           });
 
-          // Update behavior data every second
-          behaviorIntervalRef.current = setInterval(() => {
-            const behavior = behaviorTracker.getData();
-            const advancedBehavior = advancedBehaviorTracker.getData();
-            updateBehavior(behavior, advancedBehavior);
-          }, 1000);
+          startBehaviorStream();
         } catch (err) {
           console.error('Failed to collect client info:', err);
         }
@@ -270,6 +458,12 @@ export function useWebSocket(): UseWebSocketResult {
       ws.onmessage = (event) => {
         try {
           const message: WSMessage = JSON.parse(event.data);
+          if (message.type === 'welcome') {
+            // Fully connected - the next drop starts the backoff over
+            reconnectAttemptRef.current = 0;
+            setReconnectState((prev) => ({ ...prev, attempt: 0 }));
+            onWelcome(message.payload as WelcomePayload);
+          }
           handleMessage(message);
         } catch (err) {
           console.error('Failed to parse WebSocket message:', err);
@@ -280,15 +474,19 @@ export function useWebSocket(): UseWebSocketResult {
         console.log('WebSocket disconnected');
         setConnected(false);
 
-        // Clear stats interval
+        // Clear stats and behavior intervals (restarted for the next socket)
         if (statsIntervalRef.current) {
           clearInterval(statsIntervalRef.current);
         }
+        if (behaviorIntervalRef.current) {
+          clearInterval(behaviorIntervalRef.current);
+        }
+
+        // A profile still streaming on this socket won't finish
+        profileResultRef.current?.({ profile: null, source: 'fallback', error: 'Connection lost' });
+        profileResultRef.current = null;
 
-        // Reconnect after delay
-        reconnectTimeoutRef.current = setTimeout(() => {
-          connect();
-        }, 3000);
+        scheduleReconnect();
       };
 
       ws.onerror = (err) => {
@@ -298,52 +496,245 @@ export function useWebSocket(): UseWebSocketResult {
     } catch (err) {
       console.error('Failed to create WebSocket:', err);
       setError('Failed to connect');
+      scheduleReconnect();
+    }
+
+    /** Retry with exponential backoff, or give up after too many failures */
+    function scheduleReconnect() {
+      const attempt = reconnectAttemptRef.current + 1;
+      if (attempt > MAX_RECONNECT_ATTEMPTS) {
+        console.warn(`Giving up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`);
+        setReconnectState((prev) => ({ ...prev, status: 'gave_up', nextAttemptAt: null }));
+        return;
+      }
+
+      reconnectAttemptRef.current = attempt;
+      const delay = getReconnectDelay(attempt);
+      console.log(`Reconnecting in ${Math.round(delay)}ms (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})`);
+      setReconnectState({
+        status: 'waiting',
+        attempt,
+        maxAttempts: MAX_RECONNECT_ATTEMPTS,
+        nextAttemptAt: Date.now() + delay,
+        delayMs: delay,
+      });
+      reconnectTimeoutRef.current = setTimeout(() => {
+        setReconnectState((prev) => ({ ...prev, status: 'connecting', nextAttemptAt: null }));
+        connectRef.current();
+      }, delay);
     }
   }, []);
 
+  useEffect(() => {
+    connectRef.current = connect;
+  }, [connect]);
+
+  /** Retry right away (after giving up, or to skip the current wait) */
+  const reconnect = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    setReconnectState({
+      status: 'connecting',
+      attempt: 0,
+      maxAttempts: MAX_RECONNECT_ATTEMPTS,
+      nextAttemptAt: null,
+      delayMs: 0,
+    });
+    connect();
+  }, [connect]);
+
+  /** Ask the server for a visitor's full state after a missed or unusable delta */
+  const requestResync = useCallback((visitorId: string) => {
+    const ws = wsRef.current;
+    if (resyncPendingRef.current.has(visitorId) || !ws || ws.readyState !== WebSocket.OPEN) return;
+    resyncPendingRef.current.add(visitorId);
+    ws.send(
+      JSON.stringify({
+        type: 'resync',
+        payload: { visitorId },
+        v: PROTOCOL_VERSION,
+      })
+    );
+  }, []);
+
+  /** Fetch full (redacted) details for another visitor, or stop tracking with null */
+  const requestVisitorDetail = useCallback((visitorId: string | null) => {
+    detailIdRef.current = visitorId;
+    setVisitorDetail(null);
+    const ws = wsRef.current;
+    if (!visitorId || !ws || ws.readyState !== WebSocket.OPEN) return;
+    ws.send(
+      JSON.stringify({
+        type: 'request_visitor_detail',
+        payload: { visitorId },
+        v: PROTOCOL_VERSION,
+      })
+    );
+  }, []);
+
   const handleMessage = useCallback((message: WSMessage) => {
     switch (message.type) {
       case 'welcome': {
         const payload = message.payload as WelcomePayload;
+        if (payload.protocol &&
+            (PROTOCOL_VERSION < payload.protocol.minVersion || PROTOCOL_VERSION > payload.protocol.version)) {
+          console.error(
+            `Protocol mismatch: client speaks v${PROTOCOL_VERSION}, server accepts v${payload.protocol.minVersion}-v${payload.protocol.version}`
+          );
+          setError('This page is out of date - please reload');
+        }
+        visitorIdRef.current = payload.visitor.id;
+        resumeTokenRef.current = payload.resumeToken ?? null;
+        apiTokenRef.current = payload.apiToken ?? null;
+        seqsRef.current = new Map(Object.entries(payload.seqs || {}));
+        resyncPendingRef.current.clear();
         setCurrentVisitor(payload.visitor);
         setVisitors(payload.visitors);
+        setAiCreditsExhausted(payload.aiBudget?.exhausted ?? false);
         break;
       }
 
       case 'visitor_joined': {
         const payload = message.payload as VisitorEventPayload;
+        seqsRef.current.set(payload.visitor.id, payload.seq ?? 0);
         setVisitors((prev) => [...prev, payload.visitor]);
         break;
       }
 
       case 'visitor_left': {
         const payload = message.payload as VisitorEventPayload;
+        seqsRef.current.delete(payload.visitor.id);
+        resyncPendingRef.current.delete(payload.visitor.id);
+        if (detailIdRef.current === payload.visitor.id) {
+          detailIdRef.current = null;
+          setVisitorDetail(null);
+        }
         setVisitors((prev) => prev.filter((v) => v.id !== payload.visitor.id));
         break;
       }
 
       case 'visitor_updated': {
-        const payload = message.payload as VisitorEventPayload;
-        setVisitors((prev) =>
-          prev.map((v) => (v.id === payload.visitor.id ? payload.visitor : v))
-        );
-        // Update current visitor if it's us
+        const payload = message.payload as VisitorUpdatedPayload;
+        const { visitorId, seq } = payload;
+        const lastSeq = seqsRef.current.get(visitorId);
+
+        // Ignore updates older than what we already have
+        if (lastSeq !== undefined && seq <= lastSeq) break;
+
+        // We get our own full VisitorInfo, everyone else as a PublicVisitorSummary
+        const isSelf = visitorId === visitorIdRef.current;
+        const replacement = isSelf ? payload.visitor : payload.summary;
+        const patch = payload.patch;
+        if (!replacement && !(patch && lastSeq !== undefined && seq === lastSeq + 1)) {
+          // Missed an update (or never had a base) - ask for the full state
+          requestResync(visitorId);
+          break;
+        }
+        if (replacement) {
+          resyncPendingRef.current.delete(visitorId);
+        }
+
+        const update = <T,>(doc: T): T => {
+          if (replacement) return replacement as T;
+          try {
+            return applyPatch(doc, patch ?? []);
+          } catch (err) {
+            console.warn(`Could not apply update ${seq} for ${visitorId}:`, err);
+            requestResync(visitorId);
+            return doc;
+          }
+        };
+
+        seqsRef.current.set(visitorId, seq);
+        if (!isSelf) {
+          setVisitors((prev) =>
+            prev.map((v) => (v.id === visitorId ? update(v) : v))
+          );
+          // Keep an open detail view current
+          if (detailIdRef.current === visitorId) {
+            requestVisitorDetail(visitorId);
+          }
+          break;
+        }
+
+        // Our own summary in the list only drives the globe pin, which doesn't move
         setCurrentVisitor((prev) =>
-          prev?.id === payload.visitor.id ? payload.visitor : prev
+          prev?.id === visitorId ? update(prev) : prev
         );
+        // Refresh entropy once the server has our client info (we only get updates after sending it)
+        fetchEntropy(visitorId, apiTokenRef.current).then((report) => {
+          if (report) setEntropy(report);
+        });
+        fetchStability(visitorId, apiTokenRef.current).then((report) => {
+          if (report) setStability(report);
+        });
+        fetchIdentityMatch(visitorId, apiTokenRef.current).then((match) => {
+          if (match) setIdentityMatch(match);
+        });
+        fetchConsistency(visitorId, apiTokenRef.current).then((report) => {
+          if (report) setConsistency(report);
+        });
+        break;
+      }
+
+      case 'visitor_detail': {
+        const payload = message.payload as VisitorDetailPayload;
+        if (payload.visitor.id === detailIdRef.current) {
+          setVisitorDetail(payload.visitor);
+        }
+        break;
+      }
+
+      case 'profile_partial': {
+        const payload = message.payload as ProfilePartialPayload;
+        setStreamedProfile(payload.profile);
+        break;
+      }
+
+      case 'profile_complete': {
+        profileResultRef.current?.(message.payload as ProfileCompletePayload);
+        profileResultRef.current = null;
+        break;
+      }
+
+      case 'ai_budget': {
+        setAiCreditsExhausted((message.payload as AIBudgetStatus).exhausted);
+        break;
+      }
+
+      case 'error': {
+        const payload = message.payload as ErrorPayload;
+        console.error(`Server rejected ${payload.requestType || 'message'} (${payload.code}): ${payload.message}`, payload.issues || []);
+        // A rejected profile request ends like a failed one
+        if (payload.requestType === 'request_profile') {
+          profileResultRef.current?.({ profile: null, source: 'fallback', error: payload.message });
+          profileResultRef.current = null;
+        }
         break;
       }
 
       default:
         console.warn('Unknown message type:', message.type);
     }
-  }, []);
+  }, [requestResync, requestVisitorDetail]);
 
   // Connect on mount
   useEffect(() => {
     connect();
 
+    // Coming back online is a good moment to stop waiting
+    const handleOnline = () => {
+      if (wsRef.current?.readyState !== WebSocket.OPEN && wsRef.current?.readyState !== WebSocket.CONNECTING) {
+        reconnect();
+      }
+    };
+    window.addEventListener('online', handleOnline);
+
     return () => {
+      window.removeEventListener('online', handleOnline);
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
@@ -356,19 +747,30 @@ export function useWebSocket(): UseWebSocketResult {
       behaviorTracker.stop();
       advancedBehaviorTracker.stop();
       if (wsRef.current) {
-        wsRef.current.close();
+        // Normal closure tells the server we're gone for good (no resume grace window)
+        wsRef.current.onclose = null;
+        wsRef.current.close(1000);
       }
     };
-  }, [connect]);
+  }, [connect, reconnect]);
 
   return {
     connected,
+    reconnectState,
+    reconnect,
     visitors,
     currentVisitor,
+    visitorDetail,
+    requestVisitorDetail,
     error,
     aiLoading,
     aiCreditsExhausted,
     totalUniqueVisitors,
     aiSource,
+    streamedProfile,
+    entropy,
+    stability,
+    identityMatch,
+    consistency,
   };
 }
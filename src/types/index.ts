@@ -24,12 +24,62 @@ export interface GeoLocation {
   isp: string;
   org: string;
   as: string;
+  asn: number | null; // autonomous system number (needs GeoLite2-ASN)
+  asnOrg: string | null; // organization that owns the ASN
+  connectionKind: ConnectionKind | null; // null when the ASN is unknown
+}
+
+/** What kind of network an IP belongs to, judged by its ASN */
+export type ConnectionKind = 'residential' | 'hosting' | 'mobile' | 'education';
+
+/** Why an IP is not a public internet address (and so can't be geolocated) */
+export type ReservedIPReason = 'loopback' | 'private' | 'cgnat' | 'link-local' | 'reserved';
+
+/** A signal that the connection goes through a VPN, proxy or datacenter */
+export type NetworkSignal =
+  | 'hosting_asn'
+  | 'timezone_mismatch'
+  | 'language_country_mismatch'
+  | 'webrtc_ip_mismatch'
+  | 'header_anomaly';
+
+/** One piece of evidence behind a network verdict */
+export interface NetworkEvidence {
+  signal: NetworkSignal;
+  weight: number; // points added to the score
+  detail: string; // human-readable explanation
+}
+
+/** Server's judgement of whether a visitor hides behind a VPN or proxy */
+export interface NetworkVerdict {
+  score: number; // 0-100, sum of evidence weights
+  likelyVPNOrProxy: boolean;
+  evidence: NetworkEvidence[];
+}
+
+/** Passive fingerprint of the HTTP client, from how its request headers look */
+export interface HeaderFingerprint {
+  hash: string; // stable for one browser build and configuration
+  order: string[]; // header names in the order they arrived (proxy-added ones left out)
+  accept: string;
+  acceptEncoding: string;
+  clientHints: Record<string, string>; // sec-ch-ua* headers as sent
+  inconsistencies: HeaderInconsistency[];
+}
+
+/** A place where the headers contradict each other, or what the client reports */
+export interface HeaderInconsistency {
+  source: 'request' | 'client'; // headers alone, or headers vs client-reported data
+  detail: string;
 }
 
 /** Server-side gathered information */
 export interface ServerInfo {
   ip: string;
   geo: GeoLocation | null;
+  reservedIPReason: ReservedIPReason | null; // null for public addresses
+  networkVerdict: NetworkVerdict;
+  headerFingerprint: HeaderFingerprint;
   userAgent: string;
   acceptLanguage: string;
   referer: string;
@@ -127,6 +177,7 @@ export interface ClientInfo {
 
   // WebRTC
   webrtcLocalIPs: string[];
+  webrtcPublicIPs: string[]; // STUN-reflected addresses (what the internet sees)
   webrtcSupported: boolean;
 
   // Ad Blocker
@@ -239,14 +290,6 @@ export interface ClientInfo {
   // Crypto Wallet Detection
   cryptoWallets: string[];
 
-  // VPN/Proxy Detection
-  vpnDetection: {
-    likelyUsingVPN: boolean;
-    timezoneIPMismatch: boolean;
-    webrtcLeak: boolean;
-    suspiciousHeaders: boolean;
-  };
-
   // Unique Fingerprint ID
   fingerprintId: string;
   fingerprintConfidence: number; // 0-100
@@ -310,6 +353,9 @@ export interface UserProfile {
 
   // AI-generated extended fields
   aiGenerated?: boolean;
+  aiSource?: string; // LLM provider that generated it
+  model?: string;
+  promptVersion?: string; // hash of the prompt it was generated with
   personalityTraits?: string[];
   incomeLevel?: 'low' | 'medium' | 'high' | 'very-high';
   ageRange?: string;
@@ -455,6 +501,115 @@ export interface AdvancedBehavior {
   keyboardShortcutsUsed: string[];
 }
 
+/** How identifying a single attribute value is within the visitor population */
+export interface AttributeEntropy {
+  attribute: keyof ClientInfo;
+  value: string;
+  sharedBy: number; // visitors with the same value
+  bits: number; // surprisal: -log2(sharedBy / sampleSize)
+  oneIn: number; // anonymity set size as "1 in N"
+}
+
+/** Entropy report for one visitor (served by /api/entropy/:visitorId) */
+export interface EntropyReport {
+  visitorId: string;
+  sampleSize: number; // distinct browsers seen so far
+  attributes: AttributeEntropy[]; // sorted, most identifying first
+  totalBits: number; // identifying entropy of the full attribute combination
+  summedBits: number; // naive sum of per-attribute bits (ignores correlation)
+  anonymitySet: number; // visitors matching on every attribute
+  oneIn: number;
+}
+
+/** A fingerprint component that differs between two visits */
+export interface ComponentChange {
+  component: keyof ClientInfo;
+  previous: string;
+  current: string;
+}
+
+/** How often a component stayed the same between consecutive visits */
+export interface ComponentStability {
+  component: keyof ClientInfo;
+  comparisons: number; // consecutive visit pairs compared
+  changes: number;
+  stability: number; // 0-1, 1 = never changed
+}
+
+/** Components that changed on a repeat visit */
+export interface DriftEvent {
+  timestamp: number;
+  visitorId: string;
+  fingerprintIdChanged: boolean;
+  changes: ComponentChange[];
+}
+
+/** Stability history for one device (served by /api/stability/:visitorId) */
+export interface StabilityReport {
+  visitorId: string;
+  visits: number;
+  firstSeen: number;
+  lastSeen: number;
+  components: ComponentStability[]; // sorted, least stable first
+  driftEvents: DriftEvent[]; // most recent first
+  sinceLastVisit: {
+    previousVisit: number;
+    changes: ComponentChange[];
+  } | null; // null on a first visit
+}
+
+/** How closely one component matched the linked identity */
+export interface ComponentMatch {
+  component: string;
+  weight: number;
+  similarity: number; // 0-1, partial for list-valued components
+}
+
+/** Result of fuzzy-matching a visit against known identities (served by /api/identity/match) */
+export interface IdentityMatch {
+  visitorId: string;
+  identityId: string;
+  score: number; // 0-1 weighted similarity to the closest known identity
+  threshold: number;
+  linked: boolean; // true if linked to a prior identity, false if a new one was started
+  visits: number; // visits linked to this identity
+  firstSeen: number;
+  components: ComponentMatch[]; // least similar first
+  matchedComponents: string[];
+}
+
+/** What the consistency engine compares between client claims and server observations */
+export type ConsistencyCheck =
+  | 'user_agent'
+  | 'platform'
+  | 'client_hints'
+  | 'timezone'
+  | 'languages'
+  | 'webgl_platform'
+  | 'fingerprint_noise';
+
+/** A contradiction that suggests spoofing or an anti-fingerprinting tool */
+export interface SpoofingSignal {
+  check: ConsistencyCheck;
+  detail: string;
+}
+
+/** Spoofing signals for one visitor (served by /api/consistency/:visitorId) */
+export interface ConsistencyReport {
+  visitorId: string;
+  checked: ConsistencyCheck[]; // checks that had data on both sides to compare
+  signals: SpoofingSignal[];
+}
+
+/** Component stability across all devices, grouped by browser family */
+export interface StabilityOverview {
+  generatedAt: number;
+  browsers: Record<string, {
+    devices: number;
+    components: ComponentStability[];
+  }>;
+}
+
 /** Complete visitor information */
 export interface VisitorInfo {
   id: string;
@@ -463,6 +618,49 @@ export interface VisitorInfo {
   connectedAt: number;
 }
 
+/** What other visitors get about someone - pin position and headline facts only */
+export interface PublicVisitorSummary {
+  id: string;
+  geo: Pick<GeoLocation, 'lat' | 'lng' | 'country' | 'countryCode'> | null;
+  browserName: string | null; // null until client info arrives
+  platform: string | null;
+  likelyMobile: boolean | null;
+  connectedAt: number;
+}
+
+/**
+ * ClientInfo fields someone else may see about a visitor: what the device and
+ * browser are, not the ids, fingerprint hashes, addresses, behavior, AI
+ * profile or account and app probes that would identify or expose the person
+ */
+export type VisitorDetailClient = Pick<
+  ClientInfo,
+  'screenWidth' | 'screenHeight' | 'screenColorDepth' | 'devicePixelRatio' | 'screenOrientation' |
+  'windowWidth' | 'windowHeight' | 'platform' | 'language' | 'languages' | 'timezone' |
+  'timezoneOffset' | 'hardwareConcurrency' | 'deviceMemory' | 'deviceMemoryCapped' |
+  'maxTouchPoints' | 'hardwareFamily' | 'connectionType' | 'connectionDownlink' | 'connectionRtt' |
+  'connectionSaveData' | 'downlinkMax' | 'webglVendor' | 'webglRenderer' | 'webglVersion' |
+  'webglExtensions' | 'cookiesEnabled' | 'localStorageEnabled' | 'sessionStorageEnabled' |
+  'indexedDBEnabled' | 'pdfViewerEnabled' | 'doNotTrack' | 'globalPrivacyControl' |
+  'mediaDevices' | 'speechVoicesCount' | 'clientHints' | 'webrtcSupported' | 'adBlockerDetected' |
+  'bluetoothSupported' | 'usbSupported' | 'midiSupported' | 'gamepadsSupported' |
+  'webGPUSupported' | 'sharedArrayBufferSupported' | 'prefersColorScheme' |
+  'prefersReducedMotion' | 'prefersReducedTransparency' | 'prefersContrast' | 'forcedColors' |
+  'colorGamut' | 'hdrSupported' | 'invertedColors' | 'browserName' | 'browserVersion' |
+  'isAutomated' | 'isHeadless' | 'isVirtualMachine' | 'videoCodecs' | 'audioCodecs' |
+  'drmSupported' | 'sensors' | 'serviceWorkerSupported' | 'webWorkerSupported' | 'wasmSupported' |
+  'webSocketSupported' | 'webRTCSupported' | 'notificationSupported' | 'pushSupported' |
+  'paymentRequestSupported' | 'credentialsSupported' | 'clipboardSupported' | 'chromeAIStatus'
+>;
+
+/** What someone who clicked a visitor's pin is sent (see toVisitorDetail) */
+export interface VisitorDetail {
+  id: string;
+  server: Pick<ServerInfo, 'geo' | 'reservedIPReason' | 'networkVerdict' | 'userAgent'>;
+  client: VisitorDetailClient | null;
+  connectedAt: number;
+}
+
 /** WebSocket message types */
 export type WSMessageType =
   | 'welcome'
@@ -470,23 +668,144 @@ export type WSMessageType =
   | 'visitor_left'
   | 'visitor_updated'
   | 'visitors_list'
-  | 'client_info';
+  | 'client_info'
+  | 'behavior_update'
+  | 'resync'
+  | 'request_visitor_detail'
+  | 'visitor_detail'
+  | 'request_profile'
+  | 'profile_partial'
+  | 'profile_complete'
+  | 'ai_budget'
+  | 'error';
 
 /** WebSocket message structure */
 export interface WSMessage {
   type: WSMessageType;
   payload: unknown;
+  v?: number; // protocol version of the sender (inbound messages without it are treated as v1)
+}
+
+/** Protocol versions the server speaks (sent in welcome) */
+export interface ProtocolInfo {
+  version: number; // newest version the server speaks
+  minVersion: number; // oldest client version still accepted
+  maxMessageBytes: number;
 }
 
 /** Welcome message payload */
 export interface WelcomePayload {
   visitor: VisitorInfo;
-  visitors: VisitorInfo[];
+  visitors: PublicVisitorSummary[];
+  seqs: Record<string, number>; // current update sequence number per visitor
+  protocol: ProtocolInfo;
+  resumeToken: string; // offered as a subprotocol when reconnecting to keep this visitor
+  apiToken: string; // bearer for this visitor's own /api reports while this connection is open
+  resumed: boolean; // true if this connection picked up a previous session
+  aiBudget: AIBudgetStatus;
+}
+
+/** Whether today's AI budget still allows AI features (sent in welcome and as ai_budget when it changes) */
+export interface AIBudgetStatus {
+  exhausted: boolean;
+  budgetUSD: number | null; // daily budget, null when unlimited
+  spentUSD: number; // estimated spend so far today (UTC)
+  resetsAt: number; // start of the next UTC day
+}
+
+/** One provider's AI usage over a day */
+export interface AIProviderUsage {
+  calls: number;
+  failures: number; // calls that errored or answered unparseably
+  promptTokens: number;
+  completionTokens: number;
+  avgLatencyMs: number;
+  costUSD: number; // estimated from token counts and configured prices
+}
+
+/** Today's AI usage (/api/ai/usage) */
+export interface AIUsageReport {
+  day: string; // YYYY-MM-DD (UTC)
+  budget: AIBudgetStatus;
+  providers: Record<string, AIProviderUsage>;
+}
+
+/** Profile request payload (client to server) - the server profiles the client info it already has */
+export type ProfileRequestPayload = Record<string, never>;
+
+/** The AI profile so far, while the model's answer streams in (each replaces the last) */
+export interface ProfilePartialPayload {
+  profile: Partial<UserProfile>;
 }
 
-/** Visitor event payload */
+/** Finished AI profile (the same result /api/profile returns) */
+export interface ProfileCompletePayload {
+  profile: UserProfile | null;
+  source: 'ai' | 'cache' | 'fallback';
+  error?: string;
+  repairs?: string[]; // fixes applied to the model's answer
+}
+
+/** Why the server rejected an inbound message */
+export type WSErrorCode =
+  | 'message_too_large'
+  | 'invalid_json'
+  | 'invalid_message'
+  | 'unsupported_version'
+  | 'unknown_type'
+  | 'invalid_payload'
+  | 'visitor_not_found'
+  | 'client_info_required'
+  | 'rate_limited';
+
+/** Error payload (sent from server to client when a message is rejected) */
+export interface ErrorPayload {
+  code: WSErrorCode;
+  message: string;
+  requestType?: string; // type of the rejected message, if it could be read
+  issues?: string[]; // validation failures, e.g. "clientInfo.screenWidth: expected number"
+  retryAfter?: number; // seconds to wait before sending again (rate_limited)
+}
+
+/** Visitor event payload (visitor_joined, visitor_left) */
 export interface VisitorEventPayload {
-  visitor: VisitorInfo;
+  visitor: PublicVisitorSummary;
+  seq?: number; // sequence number the visitor starts at (visitor_joined)
+}
+
+/** One JSON-patch style operation (paths are JSON pointers, e.g. "/client/behavior/clickCount") */
+export interface JsonPatchOp {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+/**
+ * Visitor updated payload - a full document or a patch against seq - 1.
+ * The owner gets their VisitorInfo, everyone else the PublicVisitorSummary.
+ * Clients that see a gap in seq should send a resync message.
+ */
+export interface VisitorUpdatedPayload {
+  visitorId: string;
+  seq: number;
+  visitor?: VisitorInfo; // owner only
+  summary?: PublicVisitorSummary; // everyone else
+  patch?: JsonPatchOp[];
+}
+
+/** Resync request payload (sent from client to server when an update was missed) */
+export interface ResyncPayload {
+  visitorId: string;
+}
+
+/** Visitor detail request payload (sent when someone clicks a pin) */
+export interface VisitorDetailRequestPayload {
+  visitorId: string;
+}
+
+/** Visitor detail payload (the full info only for the requester's own visitor) */
+export interface VisitorDetailPayload {
+  visitor: VisitorInfo | VisitorDetail;
 }
 
 /** Visitors list payload */
@@ -494,9 +813,49 @@ export interface VisitorsListPayload {
   visitors: VisitorInfo[];
 }
 
+/** Outcome of a single fingerprinting collector run */
+export type CollectorStatus = 'ok' | 'timeout' | 'error' | 'unsupported';
+
+/** Timing and status of one collector (sent with the first client_info) */
+export interface CollectorTelemetry {
+  id: string;
+  status: CollectorStatus;
+  durationMs: number;
+  timeoutMs: number;
+  error?: string;
+}
+
 /** Client info payload (sent from client to server) */
 export interface ClientInfoPayload {
   clientInfo: ClientInfo;
+  collectors?: CollectorTelemetry[];
+}
+
+/** Behavior update payload (sent from client to server, throttled) */
+export interface BehaviorUpdatePayload {
+  behavior: BehaviorData;
+  advancedBehavior: AdvancedBehavior;
+}
+
+/** Aggregated health of one collector (served by /api/collectors/health) */
+export interface CollectorHealth {
+  id: string;
+  runs: number;
+  statuses: Record<CollectorStatus, number>;
+  failureRate: number; // (timeout + error) / runs
+  avgDurationMs: number;
+  maxDurationMs: number;
+  timeoutMs: number;
+  recentErrors: string[];
+}
+
+/** Collector health report grouped by browser family */
+export interface CollectorHealthReport {
+  generatedAt: number;
+  browsers: Record<string, {
+    samples: number;
+    collectors: CollectorHealth[];
+  }>;
 }
 
 /** Globe point data for rendering */
@@ -506,5 +865,5 @@ export interface GlobePoint {
   lng: number;
   size: number;
   color: string;
-  visitor: VisitorInfo;
+  visitor: PublicVisitorSummary;
 }
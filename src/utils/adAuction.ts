@@ -228,7 +228,7 @@ function extractProfileSummary(visitor: VisitorInfo): string {
     // Privacy signals
     if (client.adBlockerDetected) parts.push('Ad Blocker: Detected');
     if (client.doNotTrack) parts.push('Do Not Track: Enabled');
-    if (client.vpnDetection?.likelyUsingVPN) parts.push('VPN: Likely');
+    if (server?.networkVerdict.likelyVPNOrProxy) parts.push('VPN: Likely');
 
     // Crypto
     if (client.cryptoWallets?.length) {
@@ -449,7 +449,7 @@ export function runCalculatedAuction(
   }
 
   // VPN penalty
-  if (client?.vpnDetection?.likelyUsingVPN) {
+  if (visitor.server?.networkVerdict.likelyVPNOrProxy) {
     totalMultiplier *= 0.6;
     valueFactors.push({
       factor: 'VPN Detected',
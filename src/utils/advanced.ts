@@ -17,14 +17,6 @@ export interface SocialLoginResult {
   microsoft: boolean | null;
 }
 
-/** VPN detection result */
-export interface VPNDetectionResult {
-  likelyUsingVPN: boolean;
-  timezoneIPMismatch: boolean;
-  webrtcLeak: boolean;
-  suspiciousHeaders: boolean;
-}
-
 /**
  * Detect social media logins using image/redirect timing attacks
  * This checks if the user is logged into various services
@@ -184,37 +176,6 @@ export function detectCryptoWallets(): string[] {
   return wallets;
 }
 
-/**
- * Detect VPN/Proxy usage
- */
-export async function detectVPN(
-  serverTimezone: string | undefined,
-  webrtcLocalIPs: string[]
-): Promise<VPNDetectionResult> {
-  const result: VPNDetectionResult = {
-    likelyUsingVPN: false,
-    timezoneIPMismatch: false,
-    webrtcLeak: false,
-    suspiciousHeaders: false,
-  };
-
-  // Check timezone mismatch
-  const clientTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-  if (serverTimezone && serverTimezone !== clientTimezone) {
-    // Timezones don't match - possible VPN
-    result.timezoneIPMismatch = true;
-    result.likelyUsingVPN = true;
-  }
-
-  // Check WebRTC leak (private IPs exposed while using VPN)
-  if (webrtcLocalIPs.length > 0) {
-    result.webrtcLeak = true;
-    // If we can see local IPs, the VPN might be leaking
-  }
-
-  return result;
-}
-
 /**
  * Generate a cross-browser fingerprint ID
  * Uses only hardware/system characteristics that are the same across browsers
@@ -1388,12 +1349,6 @@ export function generateUserProfile(clientInfo: Partial<ClientInfo>): UserProfil
     privacyReason = privacyReason || 'WebRTC blocked';
   }
 
-  // VPN usage
-  if (clientInfo.vpnDetection?.likelyUsingVPN) {
-    privacyScore += 15;
-    inferredInterests.push('VPN User');
-  }
-
   // ============ DEVICE VALUE ESTIMATION ============
   let baseValue = 0;
   const deviceCores = clientInfo.hardwareConcurrency || 4;
@@ -1497,14 +1452,6 @@ export function generateUserProfile(clientInfo: Partial<ClientInfo>): UserProfil
   // ============ FRAUD RISK ============
   let fraudRiskScore = 0;
 
-  if (clientInfo.vpnDetection?.likelyUsingVPN) {
-    fraudRiskScore += 15;
-    fraudIndicators.push('VPN/Proxy detected');
-  }
-  if (clientInfo.vpnDetection?.timezoneIPMismatch) {
-    fraudRiskScore += 12;
-    fraudIndicators.push('Timezone doesn\'t match IP location');
-  }
   if (clientInfo.isIncognito) {
     fraudRiskScore += 10;
     fraudIndicators.push('Private browsing mode');
@@ -1517,10 +1464,6 @@ export function generateUserProfile(clientInfo: Partial<ClientInfo>): UserProfil
     fraudRiskScore += 20;
     fraudIndicators.push('Virtual machine detected');
   }
-  if (clientInfo.vpnDetection?.webrtcLeak) {
-    fraudRiskScore += 10;
-    fraudIndicators.push('WebRTC IP leak (VPN misconfigured)');
-  }
 
   // ============ INFERRED INTERESTS ============
   if (clientInfo.cryptoWallets && clientInfo.cryptoWallets.length > 0) {
@@ -0,0 +1,32 @@
+/**
+ * Browser name and version from a User-Agent string
+ * Shared so the server can classify the HTTP User-Agent exactly the way the
+ * client classified navigator.userAgent - any difference means one was changed.
+ */
+
+/**
+ * Get browser name and version from a user agent
+ */
+export function parseBrowserInfo(ua: string): { browserName: string; browserVersion: string } {
+  let browserName = 'Unknown';
+  let browserVersion = '';
+
+  if (ua.includes('Firefox/')) {
+    browserName = 'Firefox';
+    browserVersion = ua.match(/Firefox\/(\d+\.?\d*)/)?.[1] || '';
+  } else if (ua.includes('Edg/')) {
+    browserName = 'Edge';
+    browserVersion = ua.match(/Edg\/(\d+\.?\d*)/)?.[1] || '';
+  } else if (ua.includes('Chrome/')) {
+    browserName = 'Chrome';
+    browserVersion = ua.match(/Chrome\/(\d+\.?\d*)/)?.[1] || '';
+  } else if (ua.includes('Safari/') && !ua.includes('Chrome')) {
+    browserName = 'Safari';
+    browserVersion = ua.match(/Version\/(\d+\.?\d*)/)?.[1] || '';
+  } else if (ua.includes('Opera/') || ua.includes('OPR/')) {
+    browserName = 'Opera';
+    browserVersion = ua.match(/(?:Opera|OPR)\/(\d+\.?\d*)/)?.[1] || '';
+  }
+
+  return { browserName, browserVersion };
+}
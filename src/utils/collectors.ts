@@ -0,0 +1,304 @@
+/**
+ * Collector registry for client-side fingerprinting
+ * Each probe declares which ClientInfo keys it fills, how long it may take
+ * and whether its output should survive across sessions
+ */
+
+import type { ClientInfo, CollectorTelemetry } from '../types';
+
+/** What a built-in collector fills and whether that output should survive across sessions */
+interface CollectorDeclaration {
+  stable: boolean;
+  keys: readonly (keyof ClientInfo)[];
+}
+
+/**
+ * Built-in collectors. Kept free of browser code so the server can read it:
+ * it only aggregates telemetry for these ids (a client can't invent ids to grow
+ * its health report) and tracks drift of the stable collectors' keys.
+ * registerCollector checks each registration against its entry here.
+ */
+export const COLLECTOR_DECLARATIONS = {
+  screen: {
+    stable: true,
+    keys: [
+      'screenWidth', 'screenHeight', 'screenColorDepth', 'devicePixelRatio', 'screenOrientation',
+    ],
+  },
+  window: { stable: false, keys: ['windowWidth', 'windowHeight'] },
+  system: {
+    stable: true,
+    keys: [
+      'platform', 'language', 'languages', 'timezone', 'timezoneOffset',
+    ],
+  },
+  hardware: {
+    stable: true,
+    keys: [
+      'hardwareConcurrency', 'deviceMemory', 'deviceMemoryCapped', 'maxTouchPoints',
+      'hardwareFamily',
+    ],
+  },
+  connection: {
+    stable: false,
+    keys: [
+      'connectionType', 'connectionDownlink', 'connectionRtt', 'connectionSaveData', 'downlinkMax',
+    ],
+  },
+  battery: { stable: false, keys: ['batteryLevel', 'batteryCharging'] },
+  webgl: {
+    stable: true,
+    keys: [
+      'webglVendor', 'webglRenderer', 'webglVersion', 'webglExtensions', 'webglFingerprint',
+    ],
+  },
+  storage: {
+    stable: true,
+    keys: [
+      'cookiesEnabled', 'localStorageEnabled', 'sessionStorageEnabled', 'indexedDBEnabled',
+      'pdfViewerEnabled',
+    ],
+  },
+  'privacy-signals': { stable: true, keys: ['doNotTrack', 'globalPrivacyControl'] },
+  canvas: { stable: true, keys: ['canvasFingerprint'] },
+  audio: { stable: true, keys: ['audioFingerprint'] },
+  fonts: { stable: true, keys: ['fontsDetected'] },
+  'media-devices': { stable: true, keys: ['mediaDevices'] },
+  'speech-voices': { stable: true, keys: ['speechVoicesCount', 'speechVoicesHash'] },
+  'storage-quota': { stable: false, keys: ['storageQuota'] },
+  permissions: { stable: false, keys: ['permissions'] },
+  'client-hints': { stable: true, keys: ['clientHints'] },
+  webrtc: { stable: false, keys: ['webrtcLocalIPs', 'webrtcPublicIPs', 'webrtcSupported'] },
+  'ad-blocker': { stable: true, keys: ['adBlockerDetected'] },
+  'api-support': {
+    stable: true,
+    keys: [
+      'bluetoothSupported', 'usbSupported', 'midiSupported', 'gamepadsSupported',
+      'webGPUSupported', 'sharedArrayBufferSupported',
+    ],
+  },
+  'css-preferences': {
+    stable: true,
+    keys: [
+      'prefersColorScheme', 'prefersReducedMotion', 'prefersReducedTransparency',
+      'prefersContrast', 'forcedColors', 'colorGamut', 'hdrSupported', 'invertedColors',
+    ],
+  },
+  browser: {
+    stable: true,
+    keys: [
+      'browserName', 'browserVersion', 'isAutomated', 'isHeadless', 'isVirtualMachine',
+    ],
+  },
+  incognito: { stable: false, keys: ['isIncognito'] },
+  history: { stable: false, keys: ['historyLength'] },
+  codecs: { stable: true, keys: ['videoCodecs', 'audioCodecs', 'drmSupported'] },
+  math: { stable: true, keys: ['mathFingerprint'] },
+  timing: { stable: false, keys: ['timingFingerprint', 'performanceMemory'] },
+  sensors: { stable: true, keys: ['sensors'] },
+  'web-apis': {
+    stable: true,
+    keys: [
+      'serviceWorkerSupported', 'webWorkerSupported', 'wasmSupported', 'webSocketSupported',
+      'webRTCSupported', 'notificationSupported', 'pushSupported', 'paymentRequestSupported',
+      'credentialsSupported', 'clipboardSupported',
+    ],
+  },
+  extensions: { stable: false, keys: ['extensionsDetected'] },
+  error: { stable: true, keys: ['errorFingerprint'] },
+  'props-count': { stable: false, keys: ['navigatorPropsCount', 'windowPropsCount'] },
+  'installed-apps': { stable: true, keys: ['installedApps'] },
+  'social-logins': { stable: false, keys: ['socialLogins'] },
+  'crypto-wallets': { stable: true, keys: ['cryptoWallets'] },
+  'cross-browser': { stable: true, keys: ['crossBrowserId', 'crossBrowserFactors'] },
+  wasm: { stable: true, keys: ['wasmFingerprint'] },
+  webgpu: { stable: true, keys: ['webgpuFingerprint'] },
+  'chrome-ai': { stable: true, keys: ['chromeAIStatus'] },
+} as const satisfies Record<string, CollectorDeclaration>;
+
+export type CollectorId = keyof typeof COLLECTOR_DECLARATIONS;
+
+/** Ids of the built-in collectors */
+export const COLLECTOR_IDS = Object.keys(COLLECTOR_DECLARATIONS) as CollectorId[];
+
+/** ClientInfo keys declared by stable collectors */
+export const STABLE_COLLECTOR_KEYS: readonly (keyof ClientInfo)[] = Object.values(
+  COLLECTOR_DECLARATIONS as Record<CollectorId, CollectorDeclaration>
+).flatMap((declaration) => (declaration.stable ? declaration.keys : []));
+
+/** A single fingerprinting probe */
+export interface ClientInfoCollector<K extends keyof ClientInfo = keyof ClientInfo> {
+  /** Unique collector id, one of COLLECTOR_IDS */
+  id: CollectorId;
+  /** ClientInfo keys this collector fills */
+  keys: readonly K[];
+  /** Max time in ms before the fallback is used instead */
+  timeout: number;
+  /** True if the output is expected to be the same on every visit */
+  stable: boolean;
+  /** Disabled collectors are skipped and contribute only their fallback */
+  enabled?: boolean;
+  /** Feature check; when it returns false the probe is reported as unsupported */
+  isSupported?: () => boolean;
+  /** Run the probe */
+  collect: () => Pick<ClientInfo, K> | Promise<Pick<ClientInfo, K>>;
+  /** Values used when the probe is disabled, fails or times out */
+  fallback: () => Pick<ClientInfo, K>;
+}
+
+/** Collector as stored in the registry (key type erased) */
+type RegisteredCollector = Omit<ClientInfoCollector, 'keys' | 'collect' | 'fallback'> & {
+  keys: readonly (keyof ClientInfo)[];
+  collect: () => Partial<ClientInfo> | Promise<Partial<ClientInfo>>;
+  fallback: () => Partial<ClientInfo>;
+};
+
+/** Result of running all registered collectors */
+export interface CollectorRunResult {
+  values: Partial<ClientInfo>;
+  telemetry: CollectorTelemetry[];
+}
+
+/** Registered collectors, in registration order */
+const registry = new Map<CollectorId, RegisteredCollector>();
+
+/**
+ * Register a collector (replaces any existing collector with the same id).
+ * Its keys and stable flag must match the id's entry in COLLECTOR_DECLARATIONS.
+ */
+export function registerCollector<
+  Id extends CollectorId,
+  K extends (typeof COLLECTOR_DECLARATIONS)[Id]['keys'][number],
+>(
+  collector: ClientInfoCollector<K> & { id: Id; stable: (typeof COLLECTOR_DECLARATIONS)[Id]['stable'] }
+): void {
+  registry.set(collector.id, collector);
+}
+
+/**
+ * Remove a collector from the registry
+ */
+export function unregisterCollector(id: CollectorId): boolean {
+  return registry.delete(id);
+}
+
+/**
+ * Enable or disable a registered collector
+ */
+export function setCollectorEnabled(id: CollectorId, enabled: boolean): void {
+  const collector = registry.get(id);
+  if (collector) {
+    collector.enabled = enabled;
+  }
+}
+
+/**
+ * List registered collectors
+ */
+export function getCollectors(): ReadonlyArray<Readonly<RegisteredCollector>> {
+  return Array.from(registry.values());
+}
+
+/** Raised when a collector exceeds its timeout */
+class CollectorTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = 'CollectorTimeoutError';
+  }
+}
+
+/**
+ * Reject after the given number of milliseconds
+ */
+function rejectAfter(ms: number): { promise: Promise<never>; cancel: () => void } {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const promise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new CollectorTimeoutError(ms)), ms);
+  });
+  return { promise, cancel: () => clearTimeout(timer) };
+}
+
+/**
+ * Pick only the declared keys so a collector cannot overwrite other fields
+ */
+function pickDeclared(collector: RegisteredCollector, values: Partial<ClientInfo>): Partial<ClientInfo> {
+  const picked: Record<string, unknown> = {};
+  for (const key of collector.keys) {
+    if (key in values) {
+      picked[key] = values[key];
+    }
+  }
+  return picked as Partial<ClientInfo>;
+}
+
+/**
+ * Feature check that treats a throwing check as unsupported
+ */
+function checkSupported(collector: RegisteredCollector): boolean {
+  if (!collector.isSupported) return true;
+  try {
+    return collector.isSupported();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run one collector with its timeout, falling back on failure
+ */
+async function runCollector(collector: RegisteredCollector): Promise<{
+  values: Partial<ClientInfo>;
+  telemetry?: CollectorTelemetry;
+}> {
+  // Disabled collectors are not reported - they were never meant to run
+  if (collector.enabled === false) {
+    return { values: collector.fallback() };
+  }
+
+  const telemetry: CollectorTelemetry = {
+    id: collector.id,
+    status: 'ok',
+    durationMs: 0,
+    timeoutMs: collector.timeout,
+  };
+
+  if (!checkSupported(collector)) {
+    telemetry.status = 'unsupported';
+    return { values: collector.fallback(), telemetry };
+  }
+
+  const start = performance.now();
+  const timeout = rejectAfter(collector.timeout);
+  try {
+    const values = await Promise.race([
+      Promise.resolve().then(() => collector.collect()),
+      timeout.promise,
+    ]);
+    return { values: pickDeclared(collector, values), telemetry };
+  } catch (err) {
+    telemetry.status = err instanceof CollectorTimeoutError ? 'timeout' : 'error';
+    telemetry.error = err instanceof Error ? err.message : String(err);
+    return { values: collector.fallback(), telemetry };
+  } finally {
+    timeout.cancel();
+    telemetry.durationMs = Math.round((performance.now() - start) * 100) / 100;
+  }
+}
+
+/**
+ * Run all registered collectors in parallel with per-collector timeouts
+ */
+export async function runCollectors(): Promise<CollectorRunResult> {
+  const results = await Promise.all(getCollectors().map(runCollector));
+
+  const values: Partial<ClientInfo> = {};
+  const telemetry: CollectorTelemetry[] = [];
+  for (const result of results) {
+    Object.assign(values, result.values);
+    if (result.telemetry) {
+      telemetry.push(result.telemetry);
+    }
+  }
+
+  return { values, telemetry };
+}
@@ -3,177 +3,409 @@
  * Demonstrates what information websites can collect about visitors
  */
 
-import type { ClientInfo } from '../types';
+import type { ClientInfo, CollectorTelemetry } from '../types';
 import { getInitialBehaviorData, detectInstalledApps } from './behavior';
 import {
   detectSocialLogins,
   detectCryptoWallets,
-  detectVPN,
   generateFingerprintId,
   generateCrossBrowserId,
   getInitialAdvancedBehavior,
   generateUserProfile,
 } from './advanced';
+import { parseBrowserInfo } from './browserInfo';
 import { getWasmFingerprint } from './wasmFingerprint';
 import { getWebGPUFingerprint } from './webgpuFingerprint';
 import { isChromeAIAvailable } from './chromeAI';
+import { registerCollector, runCollectors } from './collectors';
+
+/** Default timeout for synchronous/cheap probes */
+const FAST_TIMEOUT = 1000;
+
+/** Timeout for probes that wait on browser APIs */
+const SLOW_TIMEOUT = 5000;
 
 /**
- * Collect all client-side information
+ * Built-in collectors
+ * Registration order is the order values are merged into ClientInfo
  */
-export async function collectClientInfo(): Promise<ClientInfo> {
-  const [
-    batteryInfo,
-    connectionInfo,
-    webglInfo,
-    canvasFingerprint,
-    audioFingerprint,
-    fontsDetected,
-    mediaDevices,
-    speechInfo,
-    storageQuota,
-    permissions,
-    clientHints,
-    webrtcInfo,
-    adBlockerDetected,
-    wasmFingerprint,
-    webgpuFingerprint,
-    chromeAIStatus,
-  ] = await Promise.all([
-    getBatteryInfo(),
-    getConnectionInfo(),
-    getWebGLInfo(),
-    getCanvasFingerprint(),
-    getAudioFingerprint(),
-    detectFonts(),
-    getMediaDevices(),
-    getSpeechVoices(),
-    getStorageQuota(),
-    getPermissions(),
-    getClientHints(),
-    getWebRTCInfo(),
-    detectAdBlocker(),
-    getWasmFingerprint(),
-    getWebGPUFingerprint(),
-    isChromeAIAvailable(),
-  ]);
-
-  const deviceMem = (navigator as Navigator & { deviceMemory?: number }).deviceMemory || null;
 
-  const result: ClientInfo = {
-    // Screen
+registerCollector({
+  id: 'screen',
+  keys: ['screenWidth', 'screenHeight', 'screenColorDepth', 'devicePixelRatio', 'screenOrientation'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({
     screenWidth: window.screen.width,
     screenHeight: window.screen.height,
     screenColorDepth: window.screen.colorDepth,
     devicePixelRatio: window.devicePixelRatio,
     screenOrientation: screen.orientation?.type || null,
-
-    // Window
+  }),
+  fallback: () => ({ screenWidth: 0, screenHeight: 0, screenColorDepth: 0, devicePixelRatio: 1, screenOrientation: null }),
+});
+
+registerCollector({
+  id: 'window',
+  keys: ['windowWidth', 'windowHeight'],
+  timeout: FAST_TIMEOUT,
+  stable: false,
+  collect: () => ({
     windowWidth: window.innerWidth,
     windowHeight: window.innerHeight,
-
-    // System
+  }),
+  fallback: () => ({ windowWidth: 0, windowHeight: 0 }),
+});
+
+registerCollector({
+  id: 'system',
+  keys: ['platform', 'language', 'languages', 'timezone', 'timezoneOffset'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({
     platform: navigator.platform,
     language: navigator.language,
     languages: [...navigator.languages],
     timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     timezoneOffset: new Date().getTimezoneOffset(),
-
-    // Hardware
-    hardwareConcurrency: navigator.hardwareConcurrency || 0,
-    deviceMemory: deviceMem,
-    deviceMemoryCapped: deviceMem === 8, // Browser caps at 8GB for privacy
-    maxTouchPoints: navigator.maxTouchPoints || 0,
-
-    // Connection
-    connectionType: connectionInfo.type,
-    connectionDownlink: connectionInfo.downlink,
-    connectionRtt: connectionInfo.rtt,
-    connectionSaveData: connectionInfo.saveData,
-
-    // Battery
-    batteryLevel: batteryInfo.level,
-    batteryCharging: batteryInfo.charging,
-
-    // WebGL
-    webglVendor: webglInfo.vendor,
-    webglRenderer: webglInfo.renderer,
-    webglVersion: webglInfo.version,
-    webglExtensions: webglInfo.extensionsCount,
-
-    // Capabilities
+  }),
+  fallback: () => ({ platform: 'Unknown', language: 'Unknown', languages: [], timezone: 'UTC', timezoneOffset: 0 }),
+});
+
+registerCollector({
+  id: 'hardware',
+  keys: ['hardwareConcurrency', 'deviceMemory', 'deviceMemoryCapped', 'maxTouchPoints', 'hardwareFamily'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => {
+    const deviceMem = (navigator as Navigator & { deviceMemory?: number }).deviceMemory || null;
+    return {
+      hardwareConcurrency: navigator.hardwareConcurrency || 0,
+      deviceMemory: deviceMem,
+      deviceMemoryCapped: deviceMem === 8, // Browser caps at 8GB for privacy
+      maxTouchPoints: navigator.maxTouchPoints || 0,
+      hardwareFamily: getHardwareFamily(),
+    };
+  },
+  fallback: () => ({ hardwareConcurrency: 0, deviceMemory: null, deviceMemoryCapped: false, maxTouchPoints: 0, hardwareFamily: null }),
+});
+
+registerCollector({
+  id: 'connection',
+  keys: ['connectionType', 'connectionDownlink', 'connectionRtt', 'connectionSaveData', 'downlinkMax'],
+  timeout: FAST_TIMEOUT,
+  stable: false,
+  collect: () => {
+    const connectionInfo = getConnectionInfo();
+    return {
+      connectionType: connectionInfo.type,
+      connectionDownlink: connectionInfo.downlink,
+      connectionRtt: connectionInfo.rtt,
+      connectionSaveData: connectionInfo.saveData,
+      downlinkMax: getDownlinkMax(),
+    };
+  },
+  fallback: () => ({ connectionType: null, connectionDownlink: null, connectionRtt: null, connectionSaveData: null, downlinkMax: null }),
+});
+
+registerCollector({
+  id: 'battery',
+  keys: ['batteryLevel', 'batteryCharging'],
+  timeout: FAST_TIMEOUT,
+  stable: false,
+  isSupported: () => 'getBattery' in navigator,
+  collect: async () => {
+    const batteryInfo = await getBatteryInfo();
+    return { batteryLevel: batteryInfo.level, batteryCharging: batteryInfo.charging };
+  },
+  fallback: () => ({ batteryLevel: null, batteryCharging: null }),
+});
+
+registerCollector({
+  id: 'webgl',
+  keys: ['webglVendor', 'webglRenderer', 'webglVersion', 'webglExtensions', 'webglFingerprint'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => {
+    const webglInfo = getWebGLInfo();
+    return {
+      webglVendor: webglInfo.vendor,
+      webglRenderer: webglInfo.renderer,
+      webglVersion: webglInfo.version,
+      webglExtensions: webglInfo.extensionsCount,
+      webglFingerprint: webglInfo.fingerprint,
+    };
+  },
+  fallback: () => ({ webglVendor: null, webglRenderer: null, webglVersion: null, webglExtensions: 0, webglFingerprint: 'unavailable' }),
+});
+
+registerCollector({
+  id: 'storage',
+  keys: ['cookiesEnabled', 'localStorageEnabled', 'sessionStorageEnabled', 'indexedDBEnabled', 'pdfViewerEnabled'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({
     cookiesEnabled: navigator.cookieEnabled,
     localStorageEnabled: isLocalStorageEnabled(),
     sessionStorageEnabled: isSessionStorageEnabled(),
     indexedDBEnabled: isIndexedDBEnabled(),
+    pdfViewerEnabled: (navigator as Navigator & { pdfViewerEnabled?: boolean }).pdfViewerEnabled ?? false,
+  }),
+  fallback: () => ({ cookiesEnabled: false, localStorageEnabled: false, sessionStorageEnabled: false, indexedDBEnabled: false, pdfViewerEnabled: false }),
+});
+
+registerCollector({
+  id: 'privacy-signals',
+  keys: ['doNotTrack', 'globalPrivacyControl'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({
     doNotTrack: navigator.doNotTrack === '1',
     globalPrivacyControl: getGlobalPrivacyControl(),
-    pdfViewerEnabled: (navigator as Navigator & { pdfViewerEnabled?: boolean }).pdfViewerEnabled ?? false,
-
-    // Fingerprints
-    canvasFingerprint,
-    audioFingerprint,
-    webglFingerprint: webglInfo.fingerprint,
-
-    // Fonts
-    fontsDetected,
-
-    // Media Devices
-    mediaDevices,
-
-    // Speech Voices
-    speechVoicesCount: speechInfo.count,
-    speechVoicesHash: speechInfo.hash,
-
-    // Storage
-    storageQuota,
-
-    // Permissions
-    permissions,
-
-    // Client Hints
-    clientHints,
-
-    // WebRTC
-    webrtcLocalIPs: webrtcInfo.localIPs,
-    webrtcSupported: webrtcInfo.supported,
-
-    // Ad Blocker
-    adBlockerDetected,
-
-    // Additional APIs
+  }),
+  fallback: () => ({ doNotTrack: false, globalPrivacyControl: null }),
+});
+
+registerCollector({
+  id: 'canvas',
+  keys: ['canvasFingerprint'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({ canvasFingerprint: getCanvasFingerprint() }),
+  fallback: () => ({ canvasFingerprint: 'unavailable' }),
+});
+
+registerCollector({
+  id: 'audio',
+  keys: ['audioFingerprint'],
+  timeout: 2000,
+  stable: true,
+  isSupported: () => !!(window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext),
+  collect: async () => ({ audioFingerprint: await getAudioFingerprint() }),
+  fallback: () => ({ audioFingerprint: 'unavailable' }),
+});
+
+registerCollector({
+  id: 'fonts',
+  keys: ['fontsDetected'],
+  timeout: 2000,
+  stable: true,
+  collect: () => ({ fontsDetected: detectFonts() }),
+  fallback: () => ({ fontsDetected: [] }),
+});
+
+registerCollector({
+  id: 'media-devices',
+  keys: ['mediaDevices'],
+  timeout: 2000,
+  stable: true,
+  isSupported: () => !!navigator.mediaDevices?.enumerateDevices,
+  collect: async () => ({ mediaDevices: await getMediaDevices() }),
+  fallback: () => ({ mediaDevices: null }),
+});
+
+registerCollector({
+  id: 'speech-voices',
+  keys: ['speechVoicesCount', 'speechVoicesHash'],
+  timeout: 2000,
+  stable: true,
+  isSupported: () => 'speechSynthesis' in window,
+  collect: async () => {
+    const speechInfo = await getSpeechVoices();
+    return { speechVoicesCount: speechInfo.count, speechVoicesHash: speechInfo.hash };
+  },
+  fallback: () => ({ speechVoicesCount: 0, speechVoicesHash: 'unavailable' }),
+});
+
+registerCollector({
+  id: 'storage-quota',
+  keys: ['storageQuota'],
+  timeout: 2000,
+  stable: false,
+  isSupported: () => !!navigator.storage?.estimate,
+  collect: async () => ({ storageQuota: await getStorageQuota() }),
+  fallback: () => ({ storageQuota: null }),
+});
+
+registerCollector({
+  id: 'permissions',
+  keys: ['permissions'],
+  timeout: 2000,
+  stable: false,
+  isSupported: () => !!navigator.permissions,
+  collect: async () => ({ permissions: await getPermissions() }),
+  fallback: () => ({ permissions: {} }),
+});
+
+registerCollector({
+  id: 'client-hints',
+  keys: ['clientHints'],
+  timeout: 2000,
+  stable: true,
+  isSupported: () => 'userAgentData' in navigator,
+  collect: async () => ({ clientHints: await getClientHints() }),
+  fallback: () => ({ clientHints: null }),
+});
+
+registerCollector({
+  id: 'webrtc',
+  keys: ['webrtcLocalIPs', 'webrtcPublicIPs', 'webrtcSupported'],
+  timeout: 3000,
+  stable: false,
+  isSupported: () => typeof RTCPeerConnection !== 'undefined',
+  collect: async () => {
+    const webrtcInfo = await getWebRTCInfo();
+    return {
+      webrtcLocalIPs: webrtcInfo.localIPs,
+      webrtcPublicIPs: webrtcInfo.publicIPs,
+      webrtcSupported: webrtcInfo.supported,
+    };
+  },
+  fallback: () => ({ webrtcLocalIPs: [], webrtcPublicIPs: [], webrtcSupported: typeof RTCPeerConnection !== 'undefined' }),
+});
+
+registerCollector({
+  id: 'ad-blocker',
+  keys: ['adBlockerDetected'],
+  timeout: 2000,
+  stable: true,
+  collect: async () => ({ adBlockerDetected: await detectAdBlocker() }),
+  fallback: () => ({ adBlockerDetected: null }),
+});
+
+registerCollector({
+  id: 'api-support',
+  keys: ['bluetoothSupported', 'usbSupported', 'midiSupported', 'gamepadsSupported', 'webGPUSupported', 'sharedArrayBufferSupported'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({
     bluetoothSupported: 'bluetooth' in navigator,
     usbSupported: 'usb' in navigator,
     midiSupported: 'requestMIDIAccess' in navigator,
     gamepadsSupported: 'getGamepads' in navigator,
     webGPUSupported: 'gpu' in navigator,
     sharedArrayBufferSupported: typeof SharedArrayBuffer !== 'undefined',
-
-    // CSS/Media Preferences
-    ...getCSSPreferences(),
-
-    // Browser Detection
-    ...getBrowserInfo(),
-    isIncognito: await detectIncognito(),
+  }),
+  fallback: () => ({
+    bluetoothSupported: false,
+    usbSupported: false,
+    midiSupported: false,
+    gamepadsSupported: false,
+    webGPUSupported: false,
+    sharedArrayBufferSupported: false,
+  }),
+});
+
+registerCollector({
+  id: 'css-preferences',
+  keys: ['prefersColorScheme', 'prefersReducedMotion', 'prefersReducedTransparency', 'prefersContrast', 'forcedColors', 'colorGamut', 'hdrSupported', 'invertedColors'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => getCSSPreferences(),
+  fallback: () => ({
+    prefersColorScheme: 'no-preference',
+    prefersReducedMotion: false,
+    prefersReducedTransparency: false,
+    prefersContrast: 'no-preference',
+    forcedColors: false,
+    colorGamut: 'srgb',
+    hdrSupported: false,
+    invertedColors: false,
+  }),
+});
+
+registerCollector({
+  id: 'browser',
+  keys: ['browserName', 'browserVersion', 'isAutomated', 'isHeadless', 'isVirtualMachine'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({
+    ...parseBrowserInfo(navigator.userAgent),
     isAutomated: detectAutomation(),
     isHeadless: detectHeadless(),
     isVirtualMachine: detectVirtualMachine(),
-    historyLength: window.history.length,
-
-    // Codec Support
-    ...getCodecSupport(),
-
-    // Math Fingerprint
-    mathFingerprint: getMathFingerprint(),
-
-    // Timing Fingerprint
+  }),
+  fallback: () => ({ browserName: 'Unknown', browserVersion: 'Unknown', isAutomated: false, isHeadless: false, isVirtualMachine: null }),
+});
+
+registerCollector({
+  id: 'incognito',
+  keys: ['isIncognito'],
+  timeout: 2000,
+  stable: false,
+  collect: async () => ({ isIncognito: await detectIncognito() }),
+  fallback: () => ({ isIncognito: null }),
+});
+
+registerCollector({
+  id: 'history',
+  keys: ['historyLength'],
+  timeout: FAST_TIMEOUT,
+  stable: false,
+  collect: () => ({ historyLength: window.history.length }),
+  fallback: () => ({ historyLength: 0 }),
+});
+
+registerCollector({
+  id: 'codecs',
+  keys: ['videoCodecs', 'audioCodecs', 'drmSupported'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => getCodecSupport(),
+  fallback: () => ({ videoCodecs: [], audioCodecs: [], drmSupported: { widevine: false, fairplay: false, playready: false } }),
+});
+
+registerCollector({
+  id: 'math',
+  keys: ['mathFingerprint'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({ mathFingerprint: getMathFingerprint() }),
+  fallback: () => ({ mathFingerprint: 'unavailable' }),
+});
+
+registerCollector({
+  id: 'timing',
+  keys: ['timingFingerprint', 'performanceMemory'],
+  timeout: FAST_TIMEOUT,
+  stable: false,
+  collect: () => ({
     timingFingerprint: getTimingFingerprint(),
     performanceMemory: getPerformanceMemory(),
-
-    // Sensors
-    sensors: getSensorSupport(),
-
-    // Additional Capabilities
+  }),
+  fallback: () => ({ timingFingerprint: 'unavailable', performanceMemory: null }),
+});
+
+registerCollector({
+  id: 'sensors',
+  keys: ['sensors'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({ sensors: getSensorSupport() }),
+  fallback: () => ({
+    sensors: {
+      accelerometer: false,
+      gyroscope: false,
+      magnetometer: false,
+      ambientLight: false,
+      proximity: false,
+      linearAcceleration: false,
+      gravity: false,
+      relativeOrientation: false,
+      absoluteOrientation: false,
+    },
+  }),
+});
+
+registerCollector({
+  id: 'web-apis',
+  keys: [
+    'serviceWorkerSupported', 'webWorkerSupported', 'wasmSupported', 'webSocketSupported', 'webRTCSupported',
+    'notificationSupported', 'pushSupported', 'paymentRequestSupported', 'credentialsSupported', 'clipboardSupported',
+  ],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({
     serviceWorkerSupported: 'serviceWorker' in navigator,
     webWorkerSupported: typeof Worker !== 'undefined',
     wasmSupported: typeof WebAssembly !== 'undefined',
@@ -184,76 +416,180 @@ export async function collectClientInfo(): Promise<ClientInfo> {
     paymentRequestSupported: 'PaymentRequest' in window,
     credentialsSupported: 'credentials' in navigator,
     clipboardSupported: 'clipboard' in navigator,
+  }),
+  fallback: () => ({
+    serviceWorkerSupported: false,
+    webWorkerSupported: false,
+    wasmSupported: false,
+    webSocketSupported: false,
+    webRTCSupported: false,
+    notificationSupported: false,
+    pushSupported: false,
+    paymentRequestSupported: false,
+    credentialsSupported: false,
+    clipboardSupported: false,
+  }),
+});
+
+registerCollector({
+  id: 'extensions',
+  keys: ['extensionsDetected'],
+  timeout: 2000,
+  stable: false,
+  collect: async () => ({ extensionsDetected: await detectExtensions() }),
+  fallback: () => ({ extensionsDetected: [] }),
+});
+
+registerCollector({
+  id: 'error',
+  keys: ['errorFingerprint'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({ errorFingerprint: getErrorFingerprint() }),
+  fallback: () => ({ errorFingerprint: 'unavailable' }),
+});
+
+registerCollector({
+  id: 'props-count',
+  keys: ['navigatorPropsCount', 'windowPropsCount'],
+  timeout: FAST_TIMEOUT,
+  stable: false,
+  collect: () => ({
+    navigatorPropsCount: Object.keys(Object.getOwnPropertyDescriptors(navigator)).length,
+    windowPropsCount: Object.keys(Object.getOwnPropertyDescriptors(window)).length,
+  }),
+  fallback: () => ({ navigatorPropsCount: 0, windowPropsCount: 0 }),
+});
+
+registerCollector({
+  id: 'installed-apps',
+  keys: ['installedApps'],
+  timeout: SLOW_TIMEOUT,
+  stable: true,
+  collect: async () => ({ installedApps: await detectInstalledApps() }),
+  fallback: () => ({ installedApps: [] }),
+});
+
+registerCollector({
+  id: 'social-logins',
+  keys: ['socialLogins'],
+  timeout: SLOW_TIMEOUT,
+  stable: false,
+  collect: async () => ({ socialLogins: await detectSocialLogins() }),
+  fallback: () => ({
+    socialLogins: {
+      google: null,
+      facebook: null,
+      twitter: null,
+      linkedin: null,
+      github: null,
+      reddit: null,
+      amazon: null,
+      microsoft: null,
+    },
+  }),
+});
+
+registerCollector({
+  id: 'crypto-wallets',
+  keys: ['cryptoWallets'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => ({ cryptoWallets: detectCryptoWallets() }),
+  fallback: () => ({ cryptoWallets: [] }),
+});
+
+registerCollector({
+  id: 'cross-browser',
+  keys: ['crossBrowserId', 'crossBrowserFactors'],
+  timeout: FAST_TIMEOUT,
+  stable: true,
+  collect: () => {
+    const crossBrowser = generateCrossBrowserId();
+    return { crossBrowserId: crossBrowser.id, crossBrowserFactors: crossBrowser.factors };
+  },
+  fallback: () => ({ crossBrowserId: 'xb_unavailable', crossBrowserFactors: [] }),
+});
+
+registerCollector({
+  id: 'wasm',
+  keys: ['wasmFingerprint'],
+  timeout: SLOW_TIMEOUT,
+  stable: true,
+  isSupported: () => typeof WebAssembly !== 'undefined',
+  collect: async () => ({ wasmFingerprint: await getWasmFingerprint() }),
+  fallback: () => ({ wasmFingerprint: undefined }),
+});
+
+registerCollector({
+  id: 'webgpu',
+  keys: ['webgpuFingerprint'],
+  timeout: SLOW_TIMEOUT,
+  stable: true,
+  isSupported: () => 'gpu' in navigator,
+  collect: async () => ({ webgpuFingerprint: (await getWebGPUFingerprint()) ?? undefined }),
+  fallback: () => ({ webgpuFingerprint: undefined }),
+});
+
+registerCollector({
+  id: 'chrome-ai',
+  keys: ['chromeAIStatus'],
+  timeout: SLOW_TIMEOUT,
+  stable: true,
+  collect: async () => ({ chromeAIStatus: await isChromeAIAvailable() }),
+  fallback: () => ({ chromeAIStatus: undefined }),
+});
+
+/** Result of a full client info collection */
+export interface CollectionResult {
+  clientInfo: ClientInfo;
+  telemetry: CollectorTelemetry[];
+}
 
-    // Network Hints
-    downlinkMax: getDownlinkMax(),
-    hardwareFamily: getHardwareFamily(),
-
-    // Extension Detection
-    extensionsDetected: await detectExtensions(),
+/**
+ * Collect all client-side information by running the registered collectors
+ */
+export async function collectClientInfo(): Promise<CollectionResult> {
+  const { values, telemetry } = await runCollectors();
+  const collected = values as Omit<ClientInfo,
+    'behavior' | 'advancedBehavior' | 'fingerprintId' | 'fingerprintConfidence' | 'userProfile'>;
+
+  const failures = telemetry.filter((t) => t.status === 'timeout' || t.status === 'error');
+  if (failures.length > 0) {
+    console.warn('Some collectors failed:', failures.map((f) => `${f.id} (${f.status})`).join(', '));
+  }
 
-    // Error Fingerprint
-    errorFingerprint: getErrorFingerprint(),
+  // Generate unique fingerprint ID from the collected components
+  const fp = generateFingerprintId({
+    screenWidth: collected.screenWidth,
+    screenHeight: collected.screenHeight,
+    screenColorDepth: collected.screenColorDepth,
+    devicePixelRatio: collected.devicePixelRatio,
+    hardwareConcurrency: collected.hardwareConcurrency,
+    platform: collected.platform,
+    timezone: collected.timezone,
+    language: collected.language,
+    webglRenderer: collected.webglRenderer,
+    webglVendor: collected.webglVendor,
+    canvasFingerprint: collected.canvasFingerprint,
+    audioFingerprint: collected.audioFingerprint,
+    fontsDetected: collected.fontsDetected,
+    mathFingerprint: collected.mathFingerprint,
+    errorFingerprint: collected.errorFingerprint,
+  });
 
-    // Navigator/Window Props Count
-    navigatorPropsCount: Object.keys(Object.getOwnPropertyDescriptors(navigator)).length,
-    windowPropsCount: Object.keys(Object.getOwnPropertyDescriptors(window)).length,
+  const result: ClientInfo = {
+    ...collected,
 
     // Behavioral tracking (starts with empty data, updates in real-time)
     behavior: getInitialBehaviorData(),
 
-    // Installed apps detection
-    installedApps: await detectInstalledApps(),
-
-    // Social media login detection
-    socialLogins: await detectSocialLogins(),
-
-    // Crypto wallet detection
-    cryptoWallets: detectCryptoWallets(),
-
-    // VPN detection (needs server timezone for comparison)
-    vpnDetection: await detectVPN(undefined, webrtcInfo.localIPs),
-
-    // Generate unique fingerprint ID
-    ...(() => {
-      const fp = generateFingerprintId({
-        screenWidth: window.screen.width,
-        screenHeight: window.screen.height,
-        screenColorDepth: window.screen.colorDepth,
-        devicePixelRatio: window.devicePixelRatio,
-        hardwareConcurrency: navigator.hardwareConcurrency,
-        platform: navigator.platform,
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        language: navigator.language,
-        webglRenderer: webglInfo.renderer,
-        webglVendor: webglInfo.vendor,
-        canvasFingerprint,
-        audioFingerprint,
-        fontsDetected,
-        mathFingerprint: getMathFingerprint(),
-        errorFingerprint: getErrorFingerprint(),
-      });
-      const crossBrowser = generateCrossBrowserId();
-      return {
-        fingerprintId: fp.id,
-        fingerprintConfidence: fp.confidence,
-        crossBrowserId: crossBrowser.id,
-        crossBrowserFactors: crossBrowser.factors,
-      };
-    })(),
+    fingerprintId: fp.id,
+    fingerprintConfidence: fp.confidence,
 
     // Advanced behavioral tracking
     advancedBehavior: getInitialAdvancedBehavior(),
 
-    // WASM Fingerprint
-    wasmFingerprint: wasmFingerprint,
-
-    // WebGPU Fingerprint
-    webgpuFingerprint: webgpuFingerprint ?? undefined,
-
-    // Chrome AI Status
-    chromeAIStatus: chromeAIStatus,
-
     // User profile inference (placeholder - will be updated below)
     userProfile: null as unknown as ClientInfo['userProfile'],
   };
@@ -261,7 +597,7 @@ export async function collectClientInfo(): Promise<ClientInfo> {
   // Generate user profile now that we have all data
   result.userProfile = generateUserProfile(result);
 
-  return result;
+  return { clientInfo: result, telemetry };
 }
 
 /**
@@ -675,15 +1011,16 @@ async function getClientHints(): Promise<{
 }
 
 /**
- * Get WebRTC local IPs
+ * Get WebRTC local IPs, and the public IPs the STUN server saw us connect from
  */
-async function getWebRTCInfo(): Promise<{ localIPs: string[]; supported: boolean }> {
+async function getWebRTCInfo(): Promise<{ localIPs: string[]; publicIPs: string[]; supported: boolean }> {
   if (!window.RTCPeerConnection) {
-    return { localIPs: [], supported: false };
+    return { localIPs: [], publicIPs: [], supported: false };
   }
 
   try {
     const localIPs: string[] = [];
+    const publicIPs: string[] = [];
     const pc = new RTCPeerConnection({
       iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
     });
@@ -704,6 +1041,13 @@ async function getWebRTCInfo(): Promise<{ localIPs: string[]; supported: boolean
           return;
         }
 
+        // Server-reflexive candidates carry our address as seen from the internet
+        const { type, address } = event.candidate;
+        if ((type === 'srflx' || type === 'prflx') && address) {
+          if (!publicIPs.includes(address)) publicIPs.push(address);
+          return;
+        }
+
         const candidate = event.candidate.candidate;
         // Extract IP addresses from ICE candidates
         const ipMatch = candidate.match(/(\d{1,3}\.){3}\d{1,3}/);
@@ -727,9 +1071,9 @@ async function getWebRTCInfo(): Promise<{ localIPs: string[]; supported: boolean
     });
 
     pc.close();
-    return { localIPs, supported: true };
+    return { localIPs, publicIPs, supported: true };
   } catch {
-    return { localIPs: [], supported: true };
+    return { localIPs: [], publicIPs: [], supported: true };
   }
 }
 
@@ -872,34 +1216,6 @@ function getCSSPreferences() {
   };
 }
 
-/**
- * Get browser name and version from user agent
- */
-function getBrowserInfo(): { browserName: string; browserVersion: string } {
-  const ua = navigator.userAgent;
-  let browserName = 'Unknown';
-  let browserVersion = '';
-
-  if (ua.includes('Firefox/')) {
-    browserName = 'Firefox';
-    browserVersion = ua.match(/Firefox\/(\d+\.?\d*)/)?.[1] || '';
-  } else if (ua.includes('Edg/')) {
-    browserName = 'Edge';
-    browserVersion = ua.match(/Edg\/(\d+\.?\d*)/)?.[1] || '';
-  } else if (ua.includes('Chrome/')) {
-    browserName = 'Chrome';
-    browserVersion = ua.match(/Chrome\/(\d+\.?\d*)/)?.[1] || '';
-  } else if (ua.includes('Safari/') && !ua.includes('Chrome')) {
-    browserName = 'Safari';
-    browserVersion = ua.match(/Version\/(\d+\.?\d*)/)?.[1] || '';
-  } else if (ua.includes('Opera/') || ua.includes('OPR/')) {
-    browserName = 'Opera';
-    browserVersion = ua.match(/(?:Opera|OPR)\/(\d+\.?\d*)/)?.[1] || '';
-  }
-
-  return { browserName, browserVersion };
-}
-
 /**
  * Detect incognito/private browsing mode
  */
@@ -0,0 +1,93 @@
+/**
+ * Minimal JSON-patch helpers (RFC 6902 subset: add, remove, replace)
+ * The server diffs visitor snapshots, the client applies the result
+ */
+
+import type { JsonPatchOp } from '../types';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Escape a key for use in a JSON pointer */
+const escapeKey = (key: string): string => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/** Unescape a JSON pointer segment */
+const unescapeKey = (segment: string): string => segment.replace(/~1/g, '/').replace(/~0/g, '~');
+
+/** Keys that survive JSON serialization */
+const definedKeys = (value: Record<string, unknown>): string[] =>
+  Object.keys(value).filter((key) => value[key] !== undefined);
+
+/**
+ * Compute the operations that turn `prev` into `next`.
+ * Objects are diffed key by key; arrays and primitives are replaced whole.
+ */
+export function diffJson(prev: unknown, next: unknown, path = ''): JsonPatchOp[] {
+  if (prev === next) return [];
+
+  if (isObject(prev) && isObject(next)) {
+    const ops: JsonPatchOp[] = [];
+    const nextKeys = new Set(definedKeys(next));
+    for (const key of definedKeys(prev)) {
+      if (!nextKeys.has(key)) {
+        ops.push({ op: 'remove', path: `${path}/${escapeKey(key)}` });
+      }
+    }
+    for (const key of nextKeys) {
+      const childPath = `${path}/${escapeKey(key)}`;
+      if (prev[key] === undefined) {
+        ops.push({ op: 'add', path: childPath, value: next[key] });
+      } else {
+        ops.push(...diffJson(prev[key], next[key], childPath));
+      }
+    }
+    return ops;
+  }
+
+  if (Array.isArray(prev) && Array.isArray(next) && JSON.stringify(prev) === JSON.stringify(next)) {
+    return [];
+  }
+
+  return [{ op: 'replace', path, value: next }];
+}
+
+/**
+ * Apply operations to a copy of `doc`. Throws if a path doesn't exist.
+ */
+export function applyPatch<T>(doc: T, ops: JsonPatchOp[]): T {
+  let result: unknown = structuredClone(doc);
+
+  for (const { op, path, value } of ops) {
+    if (path === '') {
+      if (op === 'remove') throw new Error('Cannot remove the document root');
+      result = structuredClone(value);
+      continue;
+    }
+
+    const segments = path.slice(1).split('/').map(unescapeKey);
+    const key = segments.pop() as string;
+    let parent: unknown = result;
+    for (const segment of segments) {
+      parent = isObject(parent) || Array.isArray(parent)
+        ? (parent as Record<string, unknown>)[segment]
+        : undefined;
+    }
+
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : Number(key);
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new Error(`Invalid array index in patch path: ${path}`);
+      }
+      if (op === 'remove') parent.splice(index, 1);
+      else if (op === 'add') parent.splice(index, 0, structuredClone(value));
+      else parent[index] = structuredClone(value);
+    } else if (isObject(parent)) {
+      if (op === 'remove') delete parent[key];
+      else parent[key] = structuredClone(value);
+    } else {
+      throw new Error(`Patch path does not exist: ${path}`);
+    }
+  }
+
+  return result as T;
+}
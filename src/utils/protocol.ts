@@ -0,0 +1,29 @@
+/**
+ * WebSocket protocol version shared by the client and server
+ * Bump when a message shape changes in a way older peers cannot handle
+ */
+
+/**
+ * Protocol version this build speaks
+ * v2: visitor_updated carries per-visitor seq and JSON-patch deltas
+ * v3: other visitors are sent as PublicVisitorSummary, details on request
+ * v4: clients stream behavior_update (v3 clients are still accepted)
+ * v5: welcome carries a resume token for reconnecting as the same visitor
+ * v6: client_info drops vpnDetection (the server judges that) and adds webrtcPublicIPs
+ * v7: request_profile streams the AI profile back as profile_partial / profile_complete
+ *     (v6 clients still fetch it from /api/profile)
+ * v8: welcome carries aiBudget, and ai_budget announces when the daily AI budget runs out or resets
+ * v9: the resume token is offered as a WebSocket subprotocol instead of ?resume=, and welcome
+ *     carries a separate apiToken for the visitor's own /api reports
+ * v10: visitor_detail sends other visitors as an allow-listed VisitorDetail instead of their redacted VisitorInfo
+ */
+export const PROTOCOL_VERSION = 10;
+
+/** Oldest client protocol version the server still accepts */
+export const MIN_PROTOCOL_VERSION = 6;
+
+/** WebSocket subprotocol clients offer (and the server selects) */
+export const WS_SUBPROTOCOL = 'yourinfo';
+
+/** A reconnecting client also offers `${RESUME_SUBPROTOCOL_PREFIX}<resume token>`, keeping the token out of URLs */
+export const RESUME_SUBPROTOCOL_PREFIX = 'yourinfo.resume.';
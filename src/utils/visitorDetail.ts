@@ -0,0 +1,101 @@
+/**
+ * Visitor detail projection
+ * What someone who clicked a visitor's pin gets to see. Fields are copied one
+ * by one so nothing added to ClientInfo later reaches others by default.
+ */
+
+import type { VisitorInfo, VisitorDetail } from '../types';
+
+/**
+ * Project a visitor down to the details others may see.
+ * Pass an already redacted visitor - geo and the network verdict are copied as they are.
+ */
+export function toVisitorDetail(visitor: VisitorInfo): VisitorDetail {
+  const { server, client } = visitor;
+  return {
+    id: visitor.id,
+    server: {
+      geo: server.geo,
+      reservedIPReason: server.reservedIPReason,
+      networkVerdict: server.networkVerdict,
+      userAgent: server.userAgent,
+    },
+    client: client
+      ? {
+        screenWidth: client.screenWidth,
+        screenHeight: client.screenHeight,
+        screenColorDepth: client.screenColorDepth,
+        devicePixelRatio: client.devicePixelRatio,
+        screenOrientation: client.screenOrientation,
+        windowWidth: client.windowWidth,
+        windowHeight: client.windowHeight,
+        platform: client.platform,
+        language: client.language,
+        languages: client.languages,
+        timezone: client.timezone,
+        timezoneOffset: client.timezoneOffset,
+        hardwareConcurrency: client.hardwareConcurrency,
+        deviceMemory: client.deviceMemory,
+        deviceMemoryCapped: client.deviceMemoryCapped,
+        maxTouchPoints: client.maxTouchPoints,
+        hardwareFamily: client.hardwareFamily,
+        connectionType: client.connectionType,
+        connectionDownlink: client.connectionDownlink,
+        connectionRtt: client.connectionRtt,
+        connectionSaveData: client.connectionSaveData,
+        downlinkMax: client.downlinkMax,
+        webglVendor: client.webglVendor,
+        webglRenderer: client.webglRenderer,
+        webglVersion: client.webglVersion,
+        webglExtensions: client.webglExtensions,
+        cookiesEnabled: client.cookiesEnabled,
+        localStorageEnabled: client.localStorageEnabled,
+        sessionStorageEnabled: client.sessionStorageEnabled,
+        indexedDBEnabled: client.indexedDBEnabled,
+        pdfViewerEnabled: client.pdfViewerEnabled,
+        doNotTrack: client.doNotTrack,
+        globalPrivacyControl: client.globalPrivacyControl,
+        mediaDevices: client.mediaDevices,
+        speechVoicesCount: client.speechVoicesCount,
+        clientHints: client.clientHints,
+        webrtcSupported: client.webrtcSupported,
+        adBlockerDetected: client.adBlockerDetected,
+        bluetoothSupported: client.bluetoothSupported,
+        usbSupported: client.usbSupported,
+        midiSupported: client.midiSupported,
+        gamepadsSupported: client.gamepadsSupported,
+        webGPUSupported: client.webGPUSupported,
+        sharedArrayBufferSupported: client.sharedArrayBufferSupported,
+        prefersColorScheme: client.prefersColorScheme,
+        prefersReducedMotion: client.prefersReducedMotion,
+        prefersReducedTransparency: client.prefersReducedTransparency,
+        prefersContrast: client.prefersContrast,
+        forcedColors: client.forcedColors,
+        colorGamut: client.colorGamut,
+        hdrSupported: client.hdrSupported,
+        invertedColors: client.invertedColors,
+        browserName: client.browserName,
+        browserVersion: client.browserVersion,
+        isAutomated: client.isAutomated,
+        isHeadless: client.isHeadless,
+        isVirtualMachine: client.isVirtualMachine,
+        videoCodecs: client.videoCodecs,
+        audioCodecs: client.audioCodecs,
+        drmSupported: client.drmSupported,
+        sensors: client.sensors,
+        serviceWorkerSupported: client.serviceWorkerSupported,
+        webWorkerSupported: client.webWorkerSupported,
+        wasmSupported: client.wasmSupported,
+        webSocketSupported: client.webSocketSupported,
+        webRTCSupported: client.webRTCSupported,
+        notificationSupported: client.notificationSupported,
+        pushSupported: client.pushSupported,
+        paymentRequestSupported: client.paymentRequestSupported,
+        credentialsSupported: client.credentialsSupported,
+        clipboardSupported: client.clipboardSupported,
+        chromeAIStatus: client.chromeAIStatus,
+      }
+      : null,
+    connectedAt: visitor.connectedAt,
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Public visitor projection
+ * The subset of a visitor other people need to draw a pin and a one-line label
+ */
+
+import type { VisitorInfo, PublicVisitorSummary } from '../types';
+
+/**
+ * Project a visitor down to its public summary.
+ * Pass an already redacted visitor when the summary is meant for someone else.
+ */
+export function toPublicSummary(visitor: VisitorInfo): PublicVisitorSummary {
+  const { geo } = visitor.server;
+  const { client } = visitor;
+  return {
+    id: visitor.id,
+    geo: geo
+      ? { lat: geo.lat, lng: geo.lng, country: geo.country, countryCode: geo.countryCode }
+      : null,
+    browserName: client?.browserName ?? null,
+    platform: client?.platform ?? null,
+    likelyMobile: client?.userProfile?.likelyMobile ?? null,
+    connectedAt: visitor.connectedAt,
+  };
+}